@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { alarmJournal, isAlarmShelved } from '@/services/alarm-journal';
+
+const ALARM_ACTIONS = ['acknowledge', 'shelve', 'unshelve'];
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const event = alarmJournal.getEvent(id);
+
+  if (!event) {
+    return NextResponse.json(
+      { success: false, error: `Alarm event '${id}' not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: { ...event, shelved: isAlarmShelved(event) },
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Acknowledge, shelve or unshelve an alarm with an operator comment
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json(
+      { success: false, error: 'Request body must be a JSON object with an action' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!ALARM_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported action '${body.action}'. Use one of: ${ALARM_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!alarmJournal.getEvent(id)) {
+      return NextResponse.json(
+        { success: false, error: `Alarm event '${id}' not found` },
+        { status: 404 }
+      );
+    }
+
+    const event = alarmJournal.applyAction(id, {
+      action: body.action,
+      author: typeof body.author === 'string' && body.author.trim() ? body.author.trim() : undefined,
+      comment: typeof body.comment === 'string' && body.comment.trim() ? body.comment.trim() : undefined,
+      shelveMinutes: typeof body.shelveMinutes === 'number' ? body.shelveMinutes : undefined
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...event, shelved: isAlarmShelved(event) },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    // The event exists and the action is known, so a failed action conflicts with the alarm's state
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error updating alarm:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 409 }
+    );
+  }
+}
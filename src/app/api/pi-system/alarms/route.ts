@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { alarmJournal, isAlarmShelved } from '@/services/alarm-journal';
+import { WellData, WellPadData } from '@/types/pi-system';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const activeOnly = searchParams.get('state') === 'active';
+    const includeShelved = searchParams.get('includeShelved') !== 'false';
+    const wellId = searchParams.get('wellId') || undefined;
+    const limit = parseInt(searchParams.get('limit') || '200', 10);
+
+    const now = Date.now();
+    const events = alarmJournal
+      .getEvents({ activeOnly, wellId, limit: isNaN(limit) ? undefined : limit })
+      .filter(event => includeShelved || !isAlarmShelved(event, now))
+      .map(event => ({ ...event, shelved: isAlarmShelved(event, now) }));
+
+    return NextResponse.json({
+      success: true,
+      data: events,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error loading alarm journal:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Record raise/clear transitions from the latest loaded wells or wellpads
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const wells: WellData[] = Array.isArray(body.wells) ? body.wells :
+      Array.isArray(body.wellPads) ? (body.wellPads as WellPadData[]).flatMap(pad => pad.wells || []) : [];
+
+    if (wells.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Request body must include wells or wellPads' },
+        { status: 400 }
+      );
+    }
+
+    const result = alarmJournal.recordWellStates(wells);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, shelvedWellIds: alarmJournal.getShelvedWellIds() },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error recording alarm transitions:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
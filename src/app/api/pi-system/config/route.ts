@@ -1,13 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { ConfigManager } from '@/services/config-manager';
-import { PIServerConfig, AttributeMapping } from '@/types/pi-system';
+import { configManager } from '@/services/config-manager';
+import { PIServerConfig, AttributeMapping, AlarmRule, RefreshSettings, ProductionDaySettings, ReportSchedule, DowntimeReason, CalculatedAttribute, TemplateMapping, RollupPolicy, DEFAULT_ATTRIBUTE_MAPPING } from '@/types/pi-system';
+import { isValidTimeZone } from '@/services/daily-production';
+import { isReportFormat } from '@/services/morning-report';
+import { isValidScheduleTime } from '@/services/report-scheduler';
+import { validateCalculatedAttributes } from '@/services/calculated-attributes';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { config, attributeMapping, mode }: { 
+    const { config, attributeMapping, alarmRules, calculatedAttributes, templateMappings, rollupPolicies, refreshSettings, productionDay, reportSchedule, downtimeReasons, mode }: { 
       config: PIServerConfig; 
       attributeMapping?: AttributeMapping;
+      alarmRules?: AlarmRule[];
+      calculatedAttributes?: CalculatedAttribute[];
+      templateMappings?: TemplateMapping[];
+      rollupPolicies?: RollupPolicy[];
+      refreshSettings?: RefreshSettings;
+      productionDay?: ProductionDaySettings;
+      reportSchedule?: ReportSchedule;
+      downtimeReasons?: DowntimeReason[];
       mode?: 'development' | 'production';
     } = body;
 
@@ -19,10 +31,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create ConfigManager instance
-    const configManager = new ConfigManager();
-    
-    // Update configuration
+    if (config.hierarchy?.enabled && (!Number.isInteger(config.hierarchy.maxDepth) || config.hierarchy.maxDepth < 2 || config.hierarchy.maxDepth > 10)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid hierarchy: max depth must be a whole number of levels from 2 to 10' },
+        { status: 400 }
+      );
+    }
+
+    if (productionDay && (!isValidTimeZone(productionDay.timeZone) || productionDay.startHour < 0 || productionDay.startHour > 23)) {
+      return NextResponse.json(
+        { success: false, message: `Invalid production day: start hour must be 0-23 and '${productionDay.timeZone}' must be an IANA time zone` },
+        { status: 400 }
+      );
+    }
+
+    if (reportSchedule && (!isValidScheduleTime(reportSchedule.time) || !Array.isArray(reportSchedule.formats) || !reportSchedule.formats.every(isReportFormat) || !reportSchedule.outputFolder.trim())) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid report schedule: needs a HH:MM time, formats from csv/xlsx/pdf and an output folder' },
+        { status: 400 }
+      );
+    }
+
+    if (calculatedAttributes) {
+      // Expressions may read any mapped key, the derived plan deviation and each other
+      const baseKeys = [...Object.keys({ ...DEFAULT_ATTRIBUTE_MAPPING, ...attributeMapping }), 'planDeviation'];
+      const errors = validateCalculatedAttributes(calculatedAttributes, baseKeys);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, message: `Invalid calculated attributes: ${errors.map(error => `${error.key}: ${error.message}`).join('; ')}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (templateMappings && (templateMappings.some(templateMapping => !templateMapping.templateName.trim()) ||
+      new Set(templateMappings.map(templateMapping => templateMapping.templateName.trim().toLowerCase())).size !== templateMappings.length)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid template mappings: each needs a unique template name' },
+        { status: 400 }
+      );
+    }
+
+    if (rollupPolicies && rollupPolicies.some(policy => (policy.scope !== 'global' && !policy.scopeValue?.trim()) ||
+      [policy.alertPercent, policy.warningPercent].some(percent => typeof percent !== 'number' || percent < 0 || percent > 100))) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid roll-up policies: wellpad and template policies need a name, and thresholds must be 0-100%' },
+        { status: 400 }
+      );
+    }
+
+    if (downtimeReasons && (downtimeReasons.length === 0 || downtimeReasons.some(reason => !reason.code.trim() || !reason.label.trim()) ||
+      new Set(downtimeReasons.map(reason => reason.code)).size !== downtimeReasons.length)) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid downtime reasons: each needs a unique code and a label' },
+        { status: 400 }
+      );
+    }
+
+    // Update configuration through the shared instance the scheduler and the stream hub read
     if (mode) {
       configManager.setMode(mode);
     }
@@ -30,6 +96,30 @@ export async function POST(request: NextRequest) {
     if (attributeMapping) {
       configManager.setAttributeMapping(attributeMapping);
     }
+    if (alarmRules) {
+      configManager.setAlarmRules(alarmRules);
+    }
+    if (calculatedAttributes) {
+      configManager.setCalculatedAttributes(calculatedAttributes);
+    }
+    if (templateMappings) {
+      configManager.setTemplateMappings(templateMappings);
+    }
+    if (rollupPolicies) {
+      configManager.setRollupPolicies(rollupPolicies);
+    }
+    if (refreshSettings) {
+      configManager.setRefreshSettings(refreshSettings);
+    }
+    if (productionDay) {
+      configManager.setProductionDaySettings(productionDay);
+    }
+    if (reportSchedule) {
+      configManager.setReportSchedule(reportSchedule);
+    }
+    if (downtimeReasons) {
+      configManager.setDowntimeReasons(downtimeReasons);
+    }
 
     console.log('✅ PI configuration saved successfully');
     console.log('   Mode:', configManager.getMode());
@@ -53,7 +143,6 @@ export async function POST(request: NextRequest) {
 
 export async function GET() {
   try {
-    const configManager = new ConfigManager();
     const config = configManager.getConfig();
     return NextResponse.json({ 
       success: true,
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PIAFService } from '@/services/pi-af-service';
+import { configManager } from '@/services/config-manager';
+import { createServerDataSource } from '@/services/server-data-source';
+import { getDataSourceLabel } from '@/services/well-data-source';
+import { getProductionDayWindow, estimateDailyProduction } from '@/services/daily-production';
+
+// Daily volumes per well, wellpad and field for one production day (?date=YYYY-MM-DD, default yesterday)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const config = configManager.getConfig();
+
+  let window;
+  try {
+    window = getProductionDayWindow(config.productionDay, searchParams.get('date') || undefined);
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (config.mode === 'production' && config.piServerConfig?.piWebApiServerName) {
+      console.log(`🛢️ API: Loading daily production for ${window.productionDate}`);
+      const piafService = new PIAFService(config.piServerConfig, config.attributeMapping, config.alarmRules, config.calculatedAttributes, config.templateMappings);
+      const report = await piafService.loadDailyProduction(window, config.productionDay);
+
+      return NextResponse.json({
+        success: true,
+        data: report,
+        source: 'pi-af',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Simulated and recorded sources have no history, so current rates stand in for the whole day
+    console.log('ℹ️ API: Development mode - estimating daily production from current rates');
+    const dataSource = createServerDataSource(config);
+    const wellPads = await dataSource.loadWellPadData();
+
+    return NextResponse.json({
+      success: true,
+      data: estimateDailyProduction(wellPads, window, config.productionDay),
+      source: getDataSourceLabel(dataSource),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error loading daily production:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { configManager } from '@/services/config-manager';
+import { downtimeTracker, getDeferredVolume, getDowntimeHours } from '@/services/downtime-tracker';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const event = downtimeTracker.getEvent(id);
+
+  if (!event) {
+    return NextResponse.json(
+      { success: false, error: `Downtime event '${id}' not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: { ...event, downtimeHours: getDowntimeHours(event), deferredVolume: getDeferredVolume(event) },
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Assign a downtime reason code with an optional operator comment.
+// Reasons are read from the configuration as last saved, so codes added in the editor apply at once.
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const reasons = configManager.getDowntimeReasons();
+
+    if (typeof body.reasonCode !== 'string' || !reasons.some(reason => reason.code === body.reasonCode)) {
+      return NextResponse.json(
+        { success: false, error: `Unsupported reason '${body.reasonCode}'. Use one of: ${reasons.map(reason => reason.code).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!downtimeTracker.getEvent(id)) {
+      return NextResponse.json(
+        { success: false, error: `Downtime event '${id}' not found` },
+        { status: 404 }
+      );
+    }
+
+    const event = downtimeTracker.assignReason(id, {
+      reasonCode: body.reasonCode,
+      author: typeof body.author === 'string' && body.author.trim() ? body.author.trim() : undefined,
+      comment: typeof body.comment === 'string' && body.comment.trim() ? body.comment.trim() : undefined
+    }, reasons);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...event, downtimeHours: getDowntimeHours(event), deferredVolume: getDeferredVolume(event) },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error assigning downtime reason:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 409 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { configManager } from '@/services/config-manager';
+import { downtimeTracker, getDeferredVolume, getDowntimeHours } from '@/services/downtime-tracker';
+import { WellData, WellPadData } from '@/types/pi-system';
+
+const DEFAULT_PARETO_DAYS = 30;
+
+// Downtime events with deferred volume, plus a pareto by reason and by pad since ?since= (default 30 days)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const openOnly = searchParams.get('state') === 'open';
+    const wellId = searchParams.get('wellId') || undefined;
+    const limitParam = searchParams.get('limit') || '200';
+    const sinceParam = searchParams.get('since');
+
+    if (!/^\d+$/.test(limitParam)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid limit '${limitParam}': use a whole number of events, 0 for all` },
+        { status: 400 }
+      );
+    }
+    const limit = parseInt(limitParam, 10);
+
+    const now = new Date();
+    const since = sinceParam ? new Date(sinceParam) : new Date(now.getTime() - DEFAULT_PARETO_DAYS * 24 * 60 * 60 * 1000);
+    if (isNaN(since.getTime())) {
+      return NextResponse.json(
+        { success: false, error: `Invalid since '${sinceParam}'` },
+        { status: 400 }
+      );
+    }
+
+    // Labels of reasons added since the server started come from the configuration as last saved
+    const reasons = configManager.getDowntimeReasons();
+    const events = downtimeTracker
+      .getEvents({ openOnly, wellId, since, limit })
+      .map(event => ({
+        ...event,
+        downtimeHours: getDowntimeHours(event, now),
+        deferredVolume: getDeferredVolume(event, now)
+      }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        events,
+        pareto: downtimeTracker.getPareto(since, reasons, now),
+        reasons
+      },
+      timestamp: now.toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error loading downtime events:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Record shut-in/restart transitions from the latest loaded wells or wellpads.
+// Wellpads are the dashboard's full load, so open events of wells missing from them are closed.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const fullSnapshot = !Array.isArray(body.wells) && Array.isArray(body.wellPads);
+    const wells: WellData[] = Array.isArray(body.wells) ? body.wells :
+      Array.isArray(body.wellPads) ? (body.wellPads as WellPadData[]).flatMap(pad => pad.wells || []) : [];
+
+    if (wells.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Request body must include wells or wellPads' },
+        { status: 400 }
+      );
+    }
+
+    const result = downtimeTracker.recordWellStates(wells, new Date(), fullSnapshot);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result, lastRates: downtimeTracker.getLastRates() },
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error recording downtime transitions:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PIAFService } from '@/services/pi-af-service';
+import { configManager } from '@/services/config-manager';
+import { AttributeMapping, HistoryPoint, HistoryRange, HistoryRetrievalMode, WellHistory, HISTORY_RANGES } from '@/types/pi-system';
+
+const RANGE_DURATION_MS: { [key in HistoryRange]: number } = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000
+};
+
+// Typical operating values used to shape simulated trends
+const SIMULATED_BASELINES: { [key: string]: number } = {
+  oilRate: 180,
+  liquidRate: 280,
+  waterCut: 35,
+  espFrequency: 55,
+  planTarget: 200,
+  gasRate: 500,
+  tubingPressure: 180,
+  casingPressure: 320
+};
+
+// Generate a smooth random walk per mapped attribute for development mode
+function generateSimulatedHistory(wellId: string, range: HistoryRange, attributeMapping: AttributeMapping): WellHistory {
+  const pointCount = 60;
+  const endTime = Date.now();
+  const startTime = endTime - RANGE_DURATION_MS[range];
+  const step = (endTime - startTime) / (pointCount - 1);
+
+  const series: { [key: string]: HistoryPoint[] } = {};
+  Object.keys(attributeMapping).forEach(settingsKey => {
+    const baseline = SIMULATED_BASELINES[settingsKey];
+    if (baseline === undefined) return;
+
+    let value = baseline;
+    series[settingsKey] = Array.from({ length: pointCount }, (_, i) => {
+      value = Math.max(0, value + (Math.random() - 0.5) * baseline * 0.05);
+      return {
+        timestamp: new Date(startTime + i * step).toISOString(),
+        value: Math.round(value * 10) / 10
+      };
+    });
+  });
+
+  return {
+    wellId,
+    range,
+    retrievalMode: 'interpolated',
+    startTime: new Date(startTime).toISOString(),
+    endTime: new Date(endTime).toISOString(),
+    series
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const wellId = searchParams.get('wellId');
+  const range = (searchParams.get('range') || '24h') as HistoryRange;
+  const retrievalMode = (searchParams.get('mode') || 'interpolated') as HistoryRetrievalMode;
+
+  if (!wellId) {
+    return NextResponse.json(
+      { success: false, error: 'wellId query parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!Object.hasOwn(HISTORY_RANGES, range)) {
+    return NextResponse.json(
+      { success: false, error: `Unsupported range '${range}'. Use one of: ${Object.keys(HISTORY_RANGES).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (retrievalMode !== 'recorded' && retrievalMode !== 'interpolated') {
+    return NextResponse.json(
+      { success: false, error: `Unsupported mode '${retrievalMode}'. Use 'recorded' or 'interpolated'` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const config = configManager.getConfig();
+
+    if (config.mode === 'production' && config.piServerConfig?.piWebApiServerName) {
+      console.log(`📈 API: Loading ${retrievalMode} history for ${wellId} (${range})`);
+      const piafService = new PIAFService(config.piServerConfig, config.attributeMapping, config.alarmRules, config.calculatedAttributes, config.templateMappings);
+      const history = await piafService.loadWellHistory(wellId, range, retrievalMode);
+
+      return NextResponse.json({
+        success: true,
+        data: history,
+        source: 'pi-af',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    console.log('ℹ️ API: Development mode - generating simulated history');
+    return NextResponse.json({
+      success: true,
+      data: generateSimulatedHistory(wellId, range, config.attributeMapping),
+      source: 'simulated',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error loading well history:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PIAFService } from '@/services/pi-af-service-enhanced';
+import { PIAFService } from '@/services/pi-af-service';
 import { configManager } from '@/services/config-manager';
+import { getMissingAttributeReport } from '@/services/well-mapping';
+import { buildAssetHierarchy } from '@/services/asset-hierarchy';
+import { AlarmRuleState } from '@/services/alarm-rules';
+
+// Deadband and delay-on carried between dashboard loads through this route
+const alarmState = new AlarmRuleState();
 
 export async function GET() {
   try {
@@ -41,17 +47,26 @@ export async function GET() {
 
       try {
         // Create PI AF service instance with custom attribute mapping
-        const piafService = new PIAFService(config.piServerConfig, config.attributeMapping);
+        const piafService = new PIAFService(config.piServerConfig, config.attributeMapping, config.alarmRules, config.calculatedAttributes, config.templateMappings, alarmState);
         
         // Load wellpad data from PI AF
         const wellPads = await piafService.loadWellPadData();
         
         if (wellPads && wellPads.length > 0) {
           console.log(`🎉 Successfully loaded ${wellPads.length} wellpads from PI AF`);
+          const warnings = piafService.getLoadWarnings();
+          const missingAttributes = getMissingAttributeReport(wellPads);
+          if (missingAttributes.length > 0) {
+            console.log(`⚠️ ${missingAttributes.length} wells have mapped attributes without a usable value`);
+          }
           return NextResponse.json({
             success: true,
             data: wellPads,
             source: 'pi-af',
+            truncated: warnings.length > 0,
+            warnings,
+            missingAttributes,
+            hierarchy: buildAssetHierarchy(wellPads),
             timestamp: new Date().toISOString()
           });
         } else {
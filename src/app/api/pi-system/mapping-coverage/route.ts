@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PIAFService } from '@/services/pi-af-service';
+import { configManager } from '@/services/config-manager';
+import { createServerDataSource } from '@/services/server-data-source';
+import { getDataSourceLabel } from '@/services/well-data-source';
+import { buildMappingCoverageReport, getCoverageFromWellPads, getCoverageTables } from '@/services/mapping-coverage';
+import { writeCsv } from '@/services/report-writers';
+
+// Mapped attribute x well coverage for every well under the parent element; ?format=csv downloads it
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format');
+  if (format && format !== 'csv') {
+    return NextResponse.json(
+      { success: false, error: `Unsupported format '${format}'. Use csv` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const config = configManager.getConfig();
+    let report;
+    let source;
+
+    if (config.mode === 'production' && config.piServerConfig?.piWebApiServerName) {
+      console.log('🧮 API: Building mapping coverage report from PI AF');
+      const piafService = new PIAFService(config.piServerConfig, config.attributeMapping, config.alarmRules, config.calculatedAttributes, config.templateMappings);
+      report = await piafService.loadMappingCoverage();
+      source = 'pi-af';
+    } else {
+      // Simulated and recorded wells only tell whether a value was usable, not why not
+      console.log('ℹ️ API: Development mode - reading mapping coverage from mapped wells');
+      const dataSource = createServerDataSource(config);
+      const wellPads = await dataSource.loadWellPadData();
+      report = buildMappingCoverageReport(getCoverageFromWellPads(wellPads, config.attributeMapping), Object.keys(config.attributeMapping));
+      source = getDataSourceLabel(dataSource);
+    }
+
+    if (format === 'csv') {
+      return new NextResponse(writeCsv(getCoverageTables(report)), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="mapping-coverage-${report.generatedAt.slice(0, 10)}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      source,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error building mapping coverage report:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
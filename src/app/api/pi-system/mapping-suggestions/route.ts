@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PIServerConfig, MappingSuggestionResult } from '@/types/pi-system';
+import { PIAFService } from '@/services/pi-af-service';
+import { parseTemplateNames } from '@/services/well-mapping';
+import { suggestAttributeMapping } from '@/services/mapping-suggestions';
+
+// Suggest mapping: read an element template's attribute templates and fuzzy-match them to the mapping keys
+export async function POST(request: NextRequest) {
+  try {
+    const { config, templateName }: { config: PIServerConfig; templateName?: string } = await request.json();
+
+    if (!config?.piWebApiServerName || !config.afServerName || !config.afDatabaseName) {
+      return NextResponse.json(
+        { success: false, error: 'PI Web API Server, AF Server and Database are required' },
+        { status: 400 }
+      );
+    }
+
+    // Without an explicit template, use the first one of the template filter
+    const targetTemplate = templateName?.trim() || parseTemplateNames(config.templateName)[0];
+    if (!targetTemplate) {
+      return NextResponse.json(
+        { success: false, error: 'An element template name is required to suggest a mapping' },
+        { status: 400 }
+      );
+    }
+
+    const piafService = new PIAFService(config);
+    const attributeTemplates = await piafService.loadAttributeTemplates(targetTemplate);
+    const data: MappingSuggestionResult = {
+      templateName: targetTemplate,
+      attributeTemplates,
+      suggestions: suggestAttributeMapping(attributeTemplates)
+    };
+
+    return NextResponse.json({
+      success: true,
+      data,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ Mapping suggestion failed:', errorMessage);
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { configManager } from '@/services/config-manager';
+import { PIAFService } from '@/services/pi-af-service';
+import { loadRecording, saveRecording } from '@/services/recorded-data-source';
+
+export async function GET() {
+  const config = configManager.getConfig();
+  const recording = loadRecording();
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      replayRecording: config.replayRecording === true,
+      recordedAt: recording?.recordedAt,
+      wellPadCount: recording?.pads.length || 0,
+      wellCount: recording?.pads.reduce((sum, pad) => sum + pad.wells.length, 0) || 0
+    },
+    timestamp: new Date().toISOString()
+  });
+}
+
+// { action: 'record' } captures a PI AF load to pi-recording.json; { action: 'replay', enabled } toggles replay
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const config = configManager.getConfig();
+
+    if (body.action === 'replay') {
+      configManager.setReplayRecording(body.enabled === true);
+      return NextResponse.json({
+        success: true,
+        message: `Recording replay ${body.enabled === true ? 'enabled' : 'disabled'}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (body.action !== 'record') {
+      return NextResponse.json(
+        { success: false, error: "Action must be 'record' or 'replay'" },
+        { status: 400 }
+      );
+    }
+
+    if (!config.piServerConfig?.piWebApiServerName) {
+      return NextResponse.json(
+        { success: false, error: 'No PI server configured to record from' },
+        { status: 400 }
+      );
+    }
+
+    console.log('📼 API: Recording PI AF load...');
+    const piafService = new PIAFService(config.piServerConfig, config.attributeMapping, config.alarmRules, config.calculatedAttributes, config.templateMappings);
+    await piafService.loadWellPadData();
+    const recording = piafService.getRecording();
+
+    if (!recording) {
+      return NextResponse.json(
+        { success: false, error: 'PI AF load produced nothing to record' },
+        { status: 500 }
+      );
+    }
+
+    saveRecording(recording);
+
+    return NextResponse.json({
+      success: true,
+      message: `Recorded ${recording.pads.length} wellpads`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error recording PI AF data:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { configManager } from '@/services/config-manager';
+import { createServerDataSource } from '@/services/server-data-source';
+import { getDataSourceLabel } from '@/services/well-data-source';
+import { buildMorningReport, renderMorningReport, getReportFileName, isReportFormat, REPORT_FORMATS } from '@/services/morning-report';
+import { reportScheduler } from '@/services/report-scheduler';
+import { ReportFormat } from '@/types/pi-system';
+
+// ?format=csv|xlsx|pdf downloads the morning report; without a format returns the report and schedule as JSON
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const requestedFormat = searchParams.get('format');
+
+  if (requestedFormat && !isReportFormat(requestedFormat)) {
+    return NextResponse.json(
+      { success: false, error: `Unsupported format '${requestedFormat}'. Use one of: ${Object.keys(REPORT_FORMATS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+  const format = requestedFormat as ReportFormat | null;
+
+  try {
+    const config = configManager.getConfig();
+    const dataSource = createServerDataSource(config);
+    const wellPads = await dataSource.loadWellPadData();
+    const report = buildMorningReport(wellPads, getDataSourceLabel(dataSource));
+
+    if (format) {
+      console.log(`📄 API: Rendering morning report as ${format}`);
+      const content = renderMorningReport(report, format);
+      return new NextResponse(new Uint8Array(content), {
+        headers: {
+          'Content-Type': REPORT_FORMATS[format].contentType,
+          'Content-Disposition': `attachment; filename="${getReportFileName(report, format)}"`
+        }
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        report,
+        schedule: config.reportSchedule,
+        scheduler: reportScheduler.getStatus()
+      },
+      source: report.source,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error building morning report:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// { action: 'run' } writes the report to the scheduled output folder now
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (body.action !== 'run') {
+      return NextResponse.json(
+        { success: false, error: "Action must be 'run'" },
+        { status: 400 }
+      );
+    }
+
+    const schedule = configManager.getReportSchedule();
+    console.log(`📄 API: Writing morning report to ${schedule.outputFolder}`);
+    const result = await reportScheduler.writeReports(schedule.formats, schedule.outputFolder);
+
+    return NextResponse.json(
+      { success: result.success, data: result, error: result.error, timestamp: result.timestamp },
+      { status: result.success ? 200 : 500 }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ API Error writing morning report:', errorMessage);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server';
+import { wellStreamHub } from '@/services/well-stream-hub';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep idle connections open through proxies between poll cycles
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export async function GET(request: NextRequest) {
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Controller already closed - the abort handler cleans up
+        }
+      };
+
+      const unsubscribe = wellStreamHub.subscribe(message => {
+        send(`data: ${JSON.stringify(message)}\n\n`);
+      });
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = null;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', () => cleanup?.());
+    },
+    cancel() {
+      cleanup?.();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
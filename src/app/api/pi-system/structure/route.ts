@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { PIAFService } from '@/services/pi-af-service';
+import { configManager } from '@/services/config-manager';
+import { afMetadataCache } from '@/services/af-metadata-cache';
+
+export async function GET() {
+  const config = configManager.getConfig();
+
+  return NextResponse.json({
+    success: true,
+    data: afMetadataCache.getStatus(config.piServerConfig),
+    timestamp: new Date().toISOString()
+  });
+}
+
+// Rebuild structure: drop the cached AF structure and walk AF again
+export async function POST() {
+  try {
+    const config = configManager.getConfig();
+    afMetadataCache.invalidate();
+
+    if (config.mode !== 'production' || !config.piServerConfig?.piWebApiServerName) {
+      return NextResponse.json({
+        success: true,
+        data: afMetadataCache.getStatus(config.piServerConfig),
+        message: 'Structure cache cleared - not rebuilt outside production mode',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    console.log('🔄 API: Rebuilding AF structure...');
+    const piafService = new PIAFService(config.piServerConfig, config.attributeMapping, config.alarmRules, config.calculatedAttributes, config.templateMappings);
+    const wellPads = await piafService.loadWellPadData();
+    const status = afMetadataCache.getStatus(config.piServerConfig);
+
+    return NextResponse.json({
+      success: true,
+      data: status,
+      message: `Structure rebuilt: ${status.wellPadCount} wellpads, ${status.wellCount} wells, ${status.attributeCount} attributes (${wellPads.length} wellpads with data)`,
+      warnings: piafService.getLoadWarnings(),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('❌ AF structure rebuild failed:', errorMessage);
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
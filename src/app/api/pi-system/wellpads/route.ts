@@ -9,8 +9,8 @@ export async function GET() {
       success: true,
       data: wellPadData,
       timestamp: new Date().toISOString(),
-      totalWells: wellPadData.reduce((sum, pad) => sum + pad.wellCount, 0),
-      totalProduction: wellPadData.reduce((sum, pad) => sum + pad.totalProduction, 0)
+      totalWells: wellPadData.reduce((sum, pad) => sum + pad.totalWells, 0),
+      totalProduction: wellPadData.reduce((sum, pad) => sum + pad.totalOilRate, 0)
     });
   } catch (error) {
     console.error('Error reading wellpad data:', error);
@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { BarChart3 } from 'lucide-react';
+import DailyProductionView from '@/components/DailyProductionView';
+import UnitSystemSelector from '@/components/UnitSystemSelector';
+import { UnitPreferences, DEFAULT_UNIT_PREFERENCES } from '@/types/pi-system';
+import { loadUnitPreferences } from '@/services/unit-conversion';
+
+export default function DailyProductionPage() {
+  const [unitPreferences, setUnitPreferences] = useState<UnitPreferences>(DEFAULT_UNIT_PREFERENCES);
+
+  // Unit preferences live in localStorage, so read them after mount to keep hydration consistent
+  useEffect(() => {
+    setUnitPreferences(loadUnitPreferences());
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200">
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="container mx-auto px-6 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <BarChart3 className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-slate-900">Daily Production</h1>
+              <p className="text-sm text-slate-500">Production-day volumes versus plan per well, wellpad and field</p>
+            </div>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">← Back to dashboard</Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4">
+          <UnitSystemSelector preferences={unitPreferences} onChange={setUnitPreferences} />
+        </div>
+        <DailyProductionView unitPreferences={unitPreferences} />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import Link from 'next/link';
+import { Grid3x3 } from 'lucide-react';
+import MappingCoverageView from '@/components/MappingCoverageView';
+
+export default function MappingCoveragePage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200">
+      <header className="bg-white shadow-sm border-b border-slate-200">
+        <div className="container mx-auto px-6 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <Grid3x3 className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-slate-900">Mapping Coverage</h1>
+              <p className="text-sm text-slate-500">Which mapped attributes give a usable value on which wells</p>
+            </div>
+          </div>
+          <Link href="/" className="text-sm text-blue-600 hover:underline">← Back to dashboard</Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8">
+        <MappingCoverageView />
+      </main>
+    </div>
+  );
+}
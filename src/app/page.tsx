@@ -1,10 +1,51 @@
 'use client';
 
-import { useState } from 'react';
-import { Droplets, RefreshCw, Settings, Activity, Shield } from "lucide-react";
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { Droplets, RefreshCw, Settings, Activity, Shield, AlertTriangle, Radio, BarChart3 } from "lucide-react";
 import PISystemConfig from '@/components/PISystemConfig';
 import { ClientSidePIAFService } from '@/services/client-side-pi-af-service';
+import { SimulatedDataSource } from '@/services/simulated-data-source';
 import DynamicWellPadLayout from '@/components/DynamicWellPadLayout';
+import HierarchySection from '@/components/HierarchySection';
+import WellHistoryChart from '@/components/WellHistoryChart';
+import AlarmListPanel from '@/components/AlarmListPanel';
+import DowntimePanel from '@/components/DowntimePanel';
+import UnitSystemSelector from '@/components/UnitSystemSelector';
+import MorningReportMenu from '@/components/MorningReportMenu';
+import { WellData, WellPadData, RefreshSettings, DEFAULT_REFRESH_SETTINGS, WellStreamMessage, LoadTruncationWarning, UnitPreferences, DEFAULT_UNIT_PREFERENCES, CalculatedAttribute, TemplateMapping, RollupPolicy, DEFAULT_ROLLUP_POLICIES } from '@/types/pi-system';
+import { loadUnitPreferences } from '@/services/unit-conversion';
+import { applyWellPadDiffs } from '@/services/well-diff';
+import { applyRollupPolicies } from '@/services/pad-rollup';
+import { buildAssetHierarchy } from '@/services/asset-hierarchy';
+import { PIChannelClient, ChannelStatus } from '@/services/pi-channel-client';
+
+// Record alarm raise/clear and shut-in/restart transitions in the server-side journals.
+// Resolves to the wells whose alarms are all shelved and the last producing rates by well,
+// each null when its journal did not answer.
+async function postWellTransitions(wellPads: WellPadData[]): Promise<{
+  shelvedWellIds: string[] | null;
+  lastRates: Record<string, number> | null;
+}> {
+  const body = JSON.stringify({ wellPads });
+  const [alarmResult, downtimeResult] = await Promise.all(['/api/pi-system/alarms', '/api/pi-system/downtime'].map(async url => {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body
+      });
+      return await response.json();
+    } catch (error) {
+      console.log(`⚠️ Failed to record transitions at ${url}:`, error);
+      return null;
+    }
+  }));
+  return {
+    shelvedWellIds: alarmResult?.success ? alarmResult.data.shelvedWellIds : null,
+    lastRates: downtimeResult?.success ? downtimeResult.data.lastRates : null
+  };
+}
 
 // Simple working dashboard that avoids hydration issues
 export default function Home() {
@@ -17,12 +58,55 @@ export default function Home() {
   const [showConfig, setShowConfig] = useState(false);
   const [isPIConfigured, setIsPIConfigured] = useState(false);
   const [authTestResult, setAuthTestResult] = useState<any>(null);
+  const [selectedWell, setSelectedWell] = useState<WellData | null>(null);
+  const [alarmRefreshKey, setAlarmRefreshKey] = useState(0);
+  const [refreshSettings, setRefreshSettings] = useState<RefreshSettings>(DEFAULT_REFRESH_SETTINGS);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isStale, setIsStale] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [loadWarnings, setLoadWarnings] = useState<LoadTruncationWarning[]>([]);
+  const [unitPreferences, setUnitPreferences] = useState<UnitPreferences>(DEFAULT_UNIT_PREFERENCES);
+  const [calculatedAttributes, setCalculatedAttributes] = useState<CalculatedAttribute[]>([]);
+  const [templateMappings, setTemplateMappings] = useState<TemplateMapping[]>([]);
+
+  const [channelStatus, setChannelStatus] = useState<ChannelStatus | 'off'>('off');
+
+  // Keep the loaded PI service so polling and channels update values without re-walking AF
+  const [piService, setPIService] = useState<ClientSidePIAFService | null>(null);
+  const simulatedSourceRef = useRef<SimulatedDataSource | null>(null);
+  const isRefreshingRef = useRef(false);
+  const lastUpdatedRef = useRef<Date | null>(null);
+  const refreshValuesRef = useRef<() => Promise<void>>(async () => {});
+  const rollupPoliciesRef = useRef<RollupPolicy[]>(DEFAULT_ROLLUP_POLICIES);
+  const shelvedWellIdsRef = useRef<string[]>([]);
+  const lastRatesRef = useRef<Record<string, number>>({});
+
+  // Roll loaded wellpads up by the configured policies; the live stream arrives already rolled up
+  const rollUpWellPads = (loadedWellPads: WellPadData[]) =>
+    applyRollupPolicies(loadedWellPads, rollupPoliciesRef.current, shelvedWellIdsRef.current, lastRatesRef.current);
+
+  // Record transitions, then reload the alarm and downtime lists and re-roll pads for newly shelved
+  // wells and the production baselines of wells that went down
+  const recordWellTransitions = async (loadedWellPads: typeof wellPads) => {
+    const { shelvedWellIds, lastRates } = await postWellTransitions(loadedWellPads);
+    if (shelvedWellIds) shelvedWellIdsRef.current = shelvedWellIds;
+    if (lastRates) lastRatesRef.current = lastRates;
+    if (shelvedWellIds || lastRates) {
+      setWellPads(current => rollUpWellPads(current));
+    }
+    setAlarmRefreshKey(Date.now());
+  };
+  // Channel callbacks outlive a render, so they record through the latest closure
+  const recordWellTransitionsRef = useRef(recordWellTransitions);
+  recordWellTransitionsRef.current = recordWellTransitions;
 
   // Simple button click handler that definitely works
   const handleLoadData = async () => {
     console.log('🚀 BUTTON CLICKED: Load Data button was clicked!');
     setIsLoading(true);
     setLastPIError(null);
+    setPIService(null);
+    setLoadWarnings([]);
     
     try {
       console.log('🔍 Loading PI configuration...');
@@ -30,6 +114,10 @@ export default function Home() {
       const configResult = await configResponse.json();
       
       console.log('🔍 Configuration result:', configResult);
+      setRefreshSettings(configResult.config?.refreshSettings || DEFAULT_REFRESH_SETTINGS);
+      setCalculatedAttributes(configResult.config?.calculatedAttributes || []);
+      setTemplateMappings(configResult.config?.templateMappings || []);
+      rollupPoliciesRef.current = configResult.config?.rollupPolicies || DEFAULT_ROLLUP_POLICIES;
       
       if (configResult.success && configResult.config.mode === 'production' && 
           configResult.config.piServerConfig?.piWebApiServerName) {
@@ -40,7 +128,10 @@ export default function Home() {
           // Try client-side PI AF service first (uses browser Windows Authentication)
           const clientService = new ClientSidePIAFService(
             configResult.config.piServerConfig,
-            configResult.config.attributeMapping
+            configResult.config.attributeMapping,
+            configResult.config.alarmRules,
+            configResult.config.calculatedAttributes,
+            configResult.config.templateMappings
           );
           
           const clientResult = await clientService.loadWellPadData();
@@ -51,7 +142,10 @@ export default function Home() {
             console.log('🔍 First wellpad structure:', clientResult[0]);
             console.log('🔍 First well structure:', clientResult[0]?.wells?.[0]);
             console.log('🔍 First well attributes:', clientResult[0]?.wells?.[0]?.attributes);
-            setWellPads(clientResult);
+            setPIService(clientService);
+            setLoadWarnings(clientService.getLoadWarnings());
+            setWellPads(rollUpWellPads(clientResult));
+            recordWellTransitions(clientResult);
             setDataSource('pi-af');
             setCurrentMode('production');
             setLastUpdated(new Date());
@@ -86,8 +180,10 @@ export default function Home() {
       
       // Generate simulated data
       console.log('📊 Generating simulated data...');
-      const simulatedData = generateSimulatedWells(configResult.config?.attributeMapping || {});
-      setWellPads(simulatedData);
+      simulatedSourceRef.current = new SimulatedDataSource(configResult.config?.alarmRules, null, configResult.config?.calculatedAttributes);
+      const simulatedData = await simulatedSourceRef.current.loadWellPadData();
+      setWellPads(rollUpWellPads(simulatedData));
+      recordWellTransitions(simulatedData);
       setCurrentMode(configResult.config?.mode || 'development');
       setLastUpdated(new Date());
       
@@ -97,8 +193,9 @@ export default function Home() {
       setDataSource('simulated');
       
       // Fallback simulated data
-      const fallbackData = generateSimulatedWells({});
-      setWellPads(fallbackData);
+      simulatedSourceRef.current = new SimulatedDataSource();
+      const fallbackData = await simulatedSourceRef.current.loadWellPadData();
+      setWellPads(rollUpWellPads(fallbackData));
       setCurrentMode('development');
       setLastUpdated(new Date());
     } finally {
@@ -106,6 +203,153 @@ export default function Home() {
     }
   };
 
+  // Value-only refresh used by the polling loop; keeps the last values on failure
+  const handleRefreshValues = async () => {
+    if (isRefreshingRef.current || isLoading) return;
+    isRefreshingRef.current = true;
+    setIsRefreshing(true);
+
+    try {
+      const refreshedData = piService
+        ? await piService.refreshWellValues()
+        : await (simulatedSourceRef.current ??= new SimulatedDataSource()).refreshWellValues();
+      setWellPads(rollUpWellPads(refreshedData));
+      recordWellTransitions(refreshedData);
+      setLastUpdated(new Date());
+      setLastPIError(null);
+    } catch (error) {
+      console.log('⚠️ Value refresh failed, keeping last loaded values:', error);
+      setLastPIError(`Refresh failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      isRefreshingRef.current = false;
+      setIsRefreshing(false);
+    }
+  };
+  refreshValuesRef.current = handleRefreshValues;
+
+  const hasData = wellPads.length > 0;
+
+  // Fields and areas group the wellpads when the loaded pads carry a hierarchy
+  const assetHierarchy = buildAssetHierarchy(wellPads);
+  const wellPadsById = new Map<string, WellPadData>(wellPads.map(wellPad => [wellPad.id, wellPad]));
+  const renderWellPad = (wellPad: WellPadData) => (
+    <DynamicWellPadLayout 
+      key={wellPad.id} 
+      wellPad={wellPad} 
+      index={wellPads.indexOf(wellPad)} 
+      onWellSelect={setSelectedWell}
+      staleValueMinutes={refreshSettings.staleValueMinutes}
+      unitPreferences={unitPreferences}
+      calculatedAttributes={calculatedAttributes}
+      templateMappings={templateMappings}
+    />
+  );
+
+  // Unit preferences live in localStorage, so read them after mount to keep hydration consistent
+  useEffect(() => {
+    setUnitPreferences(loadUnitPreferences());
+  }, []);
+
+  // Poll on the configured interval once data is loaded, pausing while the tab is hidden
+  useEffect(() => {
+    if (!hasData || isStreaming || refreshSettings.intervalSeconds <= 0) return;
+    if (channelStatus === 'open' || channelStatus === 'connecting') return;
+
+    const intervalMs = refreshSettings.intervalSeconds * 1000;
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'hidden') return;
+      refreshValuesRef.current();
+    }, intervalMs);
+
+    // Catch up immediately when the tab becomes visible again after missing a cycle
+    const handleVisibilityChange = () => {
+      const last = lastUpdatedRef.current;
+      if (document.visibilityState === 'visible' && (!last || Date.now() - last.getTime() >= intervalMs)) {
+        refreshValuesRef.current();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [hasData, isStreaming, channelStatus, refreshSettings.intervalSeconds]);
+
+  // Channel mode: PI Web API pushes value changes for the mapped attribute WebIds
+  useEffect(() => {
+    if (!piService || isStreaming || !refreshSettings.useChannels) {
+      setChannelStatus('off');
+      return;
+    }
+
+    const targets = piService.getChannelTargets();
+    const channelClient = new PIChannelClient({
+      urls: piService.getChannelUrls(targets.map(target => target.webId)),
+      onValues: (values) => {
+        const updatedWellPads = piService.applyChannelValues(targets, values);
+        setWellPads(rollUpWellPads(updatedWellPads));
+        setLastUpdated(new Date());
+        recordWellTransitionsRef.current(updatedWellPads);
+      },
+      onStatusChange: setChannelStatus
+    });
+
+    channelClient.start();
+    return () => channelClient.stop();
+  }, [piService, isStreaming, refreshSettings.useChannels]);
+
+  // Live mode: share the server's single polling loop instead of reading PI from this browser
+  useEffect(() => {
+    if (!isStreaming) return;
+
+    console.log('📡 Connecting to live well stream...');
+    const eventSource = new EventSource('/api/pi-system/stream');
+
+    eventSource.onmessage = (event) => {
+      const message: WellStreamMessage = JSON.parse(event.data);
+
+      if (message.type === 'error') {
+        setLastPIError(`Live stream: ${message.error}`);
+        return;
+      }
+
+      if (message.type === 'snapshot') {
+        setWellPads(message.data);
+        setLoadWarnings(message.warnings || []);
+      } else {
+        setWellPads(current => applyWellPadDiffs(current, message.data));
+      }
+
+      // The server records alarm transitions itself; only reload the alarm list
+      setDataSource(message.source === 'pi-af' ? 'pi-af' : 'simulated');
+      setLastUpdated(new Date(message.timestamp));
+      setLastPIError(null);
+      setAlarmRefreshKey(Date.now());
+    };
+
+    eventSource.onerror = () => {
+      setLastPIError('Live stream connection lost - reconnecting...');
+    };
+
+    return () => {
+      console.log('📡 Disconnecting from live well stream');
+      eventSource.close();
+    };
+  }, [isStreaming]);
+
+  // Flag data as stale once the last successful load is older than N refresh intervals
+  useEffect(() => {
+    lastUpdatedRef.current = lastUpdated;
+    setIsStale(false);
+    // An open channel pushes changes only, so quiet wells are not stale
+    if (!lastUpdated || refreshSettings.intervalSeconds <= 0 || channelStatus === 'open') return;
+
+    const staleAfterMs = refreshSettings.intervalSeconds * refreshSettings.staleAfterIntervals * 1000;
+    const timer = setTimeout(() => setIsStale(true), Math.max(0, lastUpdated.getTime() + staleAfterMs - Date.now()));
+    return () => clearTimeout(timer);
+  }, [lastUpdated, refreshSettings, channelStatus]);
+
   // Test Windows Authentication
   const handleTestWindowsAuth = async () => {
     console.log('🔐 Testing Windows Authentication...');
@@ -173,82 +417,6 @@ export default function Home() {
     }
   };
 
-  // Generate simulated wells
-  const generateSimulatedWells = (attributeMapping: any) => {
-    console.log('🔧 Generating simulated wells...');
-    
-    const wells = [];
-    for (let i = 1; i <= 8; i++) {
-      const oilRate = Math.round(100 + Math.random() * 200);
-      const liquidRate = Math.round(150 + Math.random() * 250);
-      const waterCut = Math.round(20 + Math.random() * 40);
-      const gasRate = Math.round(300 + Math.random() * 400);
-      const tubingPressure = Math.round(100 + Math.random() * 200);
-      const casingPressure = Math.round(200 + Math.random() * 300);
-      
-      wells.push({
-        id: `sim-well-${i}`,
-        name: `Well ${i}`,
-        status: 'active',
-        oilRate,
-        liquidRate,
-        waterCut,
-        gasRate,
-        tubingPressure,
-        casingPressure,   
-        waterRate: Math.round(liquidRate * (waterCut / 100)),
-        espFrequency: Math.round(45 + Math.random() * 15),
-        attributes: {
-          [attributeMapping.oilRate || 'Oil Production Rate']: oilRate,
-          [attributeMapping.liquidRate || 'Total Liquid Rate']: liquidRate,
-          [attributeMapping.waterCut || 'Water Cut Percentage']: waterCut,
-          [attributeMapping.gasRate || 'Gas Production Rate']: gasRate,
-          [attributeMapping.tubingPressure || 'Tubing Head Pressure']: tubingPressure,
-          [attributeMapping.casingPressure || 'Casing Pressure']: casingPressure,
-        },
-        lastUpdated: new Date().toISOString()
-      });
-    }
-
-    const wellPads = [
-      {
-        id: 'wellpad-1',
-        name: 'North Ridge Pad',
-        location: 'North Ridge Field',
-        wells: wells.slice(0, 4),
-        totalOilRate: wells.slice(0, 4).reduce((sum, w) => sum + w.oilRate, 0),
-        totalGasRate: wells.slice(0, 4).reduce((sum, w) => sum + w.gasRate, 0),
-        totalWaterRate: wells.slice(0, 4).reduce((sum, w) => sum + w.waterRate, 0),
-        averagePressure: wells.slice(0, 4).reduce((sum, w) => sum + w.tubingPressure, 0) / 4,
-        lastUpdated: new Date().toISOString(),
-        status: 'good',
-        totalWells: 4,
-        activeWells: 4,
-        avgOilRate: wells.slice(0, 4).reduce((sum, w) => sum + w.oilRate, 0) / 4,
-        avgWaterCut: wells.slice(0, 4).reduce((sum, w) => sum + w.waterCut, 0) / 4
-      },
-      {
-        id: 'wellpad-2',
-        name: 'Eagle Creek Pad',
-        location: 'Eagle Creek Field',
-        wells: wells.slice(4, 8),
-        totalOilRate: wells.slice(4, 8).reduce((sum, w) => sum + w.oilRate, 0),
-        totalGasRate: wells.slice(4, 8).reduce((sum, w) => sum + w.gasRate, 0),
-        totalWaterRate: wells.slice(4, 8).reduce((sum, w) => sum + w.waterRate, 0),
-        averagePressure: wells.slice(4, 8).reduce((sum, w) => sum + w.tubingPressure, 0) / 4,
-        lastUpdated: new Date().toISOString(),
-        status: 'good',
-        totalWells: 4,
-        activeWells: 4,
-        avgOilRate: wells.slice(4, 8).reduce((sum, w) => sum + w.oilRate, 0) / 4,
-        avgWaterCut: wells.slice(4, 8).reduce((sum, w) => sum + w.waterCut, 0) / 4
-      }
-    ];
-
-    console.log(`✅ Generated ${wellPads.length} simulated wellpads with ${wells.length} wells`);
-    return wellPads;
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200">
       {/* Header */}
@@ -288,6 +456,16 @@ export default function Home() {
                 🌲 PI Explorer
               </a>
               
+              <Link
+                href="/daily-production"
+                className="flex items-center gap-2 px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+              >
+                <BarChart3 className="w-4 h-4" />
+                Daily Production
+              </Link>
+              
+              <MorningReportMenu />
+              
               <button
                 onClick={() => setShowConfig(!showConfig)}
                 className="flex items-center gap-2 px-3 py-1 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
@@ -305,6 +483,17 @@ export default function Home() {
                 {isLoading ? 'Loading...' : 'Load Data'}
               </button>
               
+              <button
+                onClick={() => setIsStreaming(!isStreaming)}
+                className={`flex items-center gap-2 px-3 py-1 rounded-lg transition-colors ${
+                  isStreaming ? 'bg-green-600 text-white hover:bg-green-700' : 'bg-white text-slate-700 border border-slate-300 hover:bg-slate-50'
+                }`}
+                title="Receive updates from the shared server-side polling loop"
+              >
+                <Radio className={`w-4 h-4 ${isStreaming ? 'animate-pulse' : ''}`} />
+                {isStreaming ? 'Live' : 'Go Live'}
+              </button>
+              
               <button
                 onClick={handleTestWindowsAuth}
                 disabled={isLoading}
@@ -328,6 +517,9 @@ export default function Home() {
                 setShowConfig(false);
               }} 
             />
+            <div className="mt-6 pt-6 border-t border-slate-200">
+              <UnitSystemSelector preferences={unitPreferences} onChange={setUnitPreferences} />
+            </div>
           </div>
         </div>
       )}
@@ -461,8 +653,37 @@ export default function Home() {
                 )}
               </div>
               {lastUpdated && (
-                <div className="text-xs text-slate-500">
-                  Last Updated: {lastUpdated.toLocaleString()}
+                <div className="text-xs text-slate-500 flex items-center gap-2">
+                  <span>Last Updated: {lastUpdated.toLocaleString()}</span>
+                  {channelStatus !== 'off' && (
+                    <span className={channelStatus === 'open' ? 'text-green-600' : 'text-amber-600'}>
+                      · PI channels {channelStatus}{channelStatus === 'failed' && ' - polling instead'}
+                    </span>
+                  )}
+                  {isStreaming || channelStatus === 'open' ? null : refreshSettings.intervalSeconds > 0 ? (
+                    <span>· Auto-refresh every {refreshSettings.intervalSeconds}s{isRefreshing && ' (refreshing...)'}</span>
+                  ) : (
+                    <span>· Auto-refresh off</span>
+                  )}
+                </div>
+              )}
+              {isStale && (
+                <div className="text-sm text-amber-800 bg-amber-50 p-2 rounded-lg mt-2 border border-amber-200 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  Stale data - no successful update for more than {refreshSettings.staleAfterIntervals} refresh intervals
+                </div>
+              )}
+              {loadWarnings.length > 0 && (
+                <div className="text-sm text-amber-800 bg-amber-50 p-2 rounded-lg mt-2 border border-amber-200">
+                  <div className="flex items-center gap-2 font-medium">
+                    <AlertTriangle className="w-4 h-4" />
+                    Not all wells are shown - raise or clear the load limits in PI Configuration
+                  </div>
+                  <ul className="mt-1 ml-6 list-disc text-xs">
+                    {loadWarnings.map((warning, i) => (
+                      <li key={i}>{warning.message}</li>
+                    ))}
+                  </ul>
                 </div>
               )}
               {lastPIError && (
@@ -521,18 +742,40 @@ export default function Home() {
             </div>
           )}
 
+          {/* Alarm Journal */}
+          {wellPads.length > 0 && (
+            <AlarmListPanel refreshKey={alarmRefreshKey} />
+          )}
+
+          {/* Downtime and Deferment */}
+          {wellPads.length > 0 && (
+            <DowntimePanel refreshKey={alarmRefreshKey} unitPreferences={unitPreferences} />
+          )}
+
           {/* WellPads Display */}
           <div className="space-y-6">
-            {wellPads.map((wellPad, index) => (
-              <DynamicWellPadLayout 
-                key={wellPad.id} 
-                wellPad={wellPad} 
-                index={index} 
+            {assetHierarchy.nodes.map(node => (
+              <HierarchySection
+                key={node.id}
+                node={node}
+                wellPadsById={wellPadsById}
+                unitPreferences={unitPreferences}
+                renderWellPad={renderWellPad}
               />
             ))}
+            {assetHierarchy.wellPadIds.map(id => renderWellPad(wellPadsById.get(id)!))}
           </div>
         </div>
       </main>
+
+      {/* Well Trend Drill-down */}
+      {selectedWell && (
+        <WellHistoryChart
+          well={selectedWell}
+          onClose={() => setSelectedWell(null)}
+          unitPreferences={unitPreferences}
+        />
+      )}
     </div>
   );
 }
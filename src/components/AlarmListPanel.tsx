@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Bell, BellOff, Check, Loader2, RefreshCw } from 'lucide-react';
+import { AlarmAction, AlarmEvent } from '@/types/pi-system';
+
+type AlarmListEvent = AlarmEvent & { shelved: boolean };
+
+interface AlarmListPanelProps {
+  // Changing this value reloads the journal, e.g. after new well data was recorded
+  refreshKey?: number;
+}
+
+interface PendingAction {
+  id: string;
+  action: AlarmAction;
+}
+
+const SHELVE_OPTIONS = [
+  { minutes: 60, label: '1 hour' },
+  { minutes: 8 * 60, label: '8 hours' },
+  { minutes: 24 * 60, label: '24 hours' }
+];
+
+const inputClass = 'px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 text-sm focus:outline-none focus:border-blue-500';
+
+const getSeverityClasses = (event: AlarmListEvent) => {
+  if (event.clearedAt) return 'border-slate-200 bg-slate-50 text-slate-500';
+  if (event.shelved) return 'border-slate-300 bg-slate-100 text-slate-600';
+  return event.severity === 'alert' ? 'border-red-300 bg-red-50 text-red-800' : 'border-yellow-300 bg-yellow-50 text-yellow-800';
+};
+
+export default function AlarmListPanel({ refreshKey }: AlarmListPanelProps) {
+  const [events, setEvents] = useState<AlarmListEvent[]>([]);
+  const [showCleared, setShowCleared] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [author, setAuthor] = useState('');
+  const [comment, setComment] = useState('');
+  const [shelveMinutes, setShelveMinutes] = useState(SHELVE_OPTIONS[0].minutes);
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/pi-system/alarms${showCleared ? '' : '?state=active'}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setEvents(result.data);
+      } else {
+        setError(result.error || 'Failed to load alarms');
+      }
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showCleared]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents, refreshKey]);
+
+  const submitAction = async () => {
+    if (!pendingAction) return;
+
+    try {
+      const response = await fetch(`/api/pi-system/alarms/${encodeURIComponent(pendingAction.id)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: pendingAction.action,
+          author,
+          comment,
+          shelveMinutes: pendingAction.action === 'shelve' ? shelveMinutes : undefined
+        })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setEvents(events.map(event => (event.id === result.data.id ? result.data : event)));
+        setPendingAction(null);
+        setComment('');
+      } else {
+        setError(result.error || `Failed to ${pendingAction.action} alarm`);
+      }
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : String(actionError));
+    }
+  };
+
+  const openCount = events.filter(event => !event.clearedAt && !event.shelved).length;
+  const unacknowledgedCount = events.filter(event => !event.clearedAt && !event.acknowledgedAt).length;
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 mb-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Bell className="w-5 h-5 text-red-600" />
+          <h3 className="font-semibold text-slate-900">Alarms</h3>
+          <span className="text-sm text-slate-500">
+            {openCount} active, {unacknowledgedCount} unacknowledged
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={showCleared}
+              onChange={(e) => setShowCleared(e.target.checked)}
+            />
+            Show cleared
+          </label>
+          <button
+            onClick={loadEvents}
+            className="p-1 rounded hover:bg-slate-100"
+            title="Reload alarms"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 animate-spin text-slate-500" /> : <RefreshCw className="w-4 h-4 text-slate-500" />}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 p-2 rounded mb-3 border border-red-200">{error}</div>
+      )}
+
+      {events.length === 0 && !isLoading && (
+        <p className="text-sm text-slate-500">No alarms {showCleared ? 'recorded' : 'active'}.</p>
+      )}
+
+      {/* Alarm List */}
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {events.map(event => (
+          <div key={event.id} className={`border rounded-lg p-3 text-sm ${getSeverityClasses(event)}`}>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="font-medium">
+                  {event.wellName}
+                  {event.wellPadName && <span className="font-normal opacity-75"> ({event.wellPadName})</span>}
+                  {' - '}{event.message}
+                </div>
+                <div className="text-xs opacity-75 mt-1">
+                  Raised {new Date(event.raisedAt).toLocaleString()}
+                  {event.clearedAt && ` · Cleared ${new Date(event.clearedAt).toLocaleString()}`}
+                  {event.acknowledgedAt && ` · Acknowledged ${new Date(event.acknowledgedAt).toLocaleString()}${event.acknowledgedBy ? ` by ${event.acknowledgedBy}` : ''}`}
+                  {event.shelved && event.shelvedUntil && ` · Shelved until ${new Date(event.shelvedUntil).toLocaleString()}`}
+                </div>
+                {event.comments.filter(c => c.text).map((c, i) => (
+                  <div key={i} className="text-xs italic opacity-75 mt-1">
+                    {c.author || 'Operator'} ({c.action}): {c.text}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-1 shrink-0">
+                {!event.acknowledgedAt && (
+                  <button
+                    onClick={() => setPendingAction({ id: event.id, action: 'acknowledge' })}
+                    className="flex items-center gap-1 px-2 py-1 text-xs bg-white border border-slate-300 rounded hover:bg-slate-50"
+                    title="Acknowledge alarm"
+                  >
+                    <Check className="w-3 h-3" />
+                    Ack
+                  </button>
+                )}
+                {!event.clearedAt && (
+                  <button
+                    onClick={() => setPendingAction({ id: event.id, action: event.shelved ? 'unshelve' : 'shelve' })}
+                    className="flex items-center gap-1 px-2 py-1 text-xs bg-white border border-slate-300 rounded hover:bg-slate-50"
+                    title={event.shelved ? 'Unshelve alarm' : 'Shelve alarm'}
+                  >
+                    <BellOff className="w-3 h-3" />
+                    {event.shelved ? 'Unshelve' : 'Shelve'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Inline action form */}
+            {pendingAction?.id === event.id && (
+              <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t border-current/20">
+                <input
+                  type="text"
+                  placeholder="Operator"
+                  value={author}
+                  onChange={(e) => setAuthor(e.target.value)}
+                  className={`${inputClass} w-32`}
+                />
+                <input
+                  type="text"
+                  placeholder="Comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  className={`${inputClass} flex-1 min-w-40`}
+                />
+                {pendingAction.action === 'shelve' && (
+                  <select
+                    value={shelveMinutes}
+                    onChange={(e) => setShelveMinutes(parseInt(e.target.value, 10))}
+                    className={inputClass}
+                  >
+                    {SHELVE_OPTIONS.map(option => (
+                      <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={submitAction}
+                  className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  Confirm {pendingAction.action}
+                </button>
+                <button
+                  onClick={() => setPendingAction(null)}
+                  className="px-3 py-1 text-xs text-slate-600 hover:text-slate-800"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { AlarmRule, AlarmRuleScope, DEFAULT_ATTRIBUTE_MAPPING } from '@/types/pi-system';
+
+interface AlarmRulesEditorProps {
+  rules: AlarmRule[];
+  // Calculated attribute keys offered alongside the mapped attributes
+  calculatedAttributeKeys?: string[];
+  onChange: (rules: AlarmRule[]) => void;
+}
+
+// Mapped attributes plus values derived during mapping
+const RULE_ATTRIBUTES = [...Object.keys(DEFAULT_ATTRIBUTE_MAPPING), 'planDeviation'];
+
+const LIMIT_FIELDS: Array<{ key: 'lowLow' | 'low' | 'high' | 'highHigh'; label: string }> = [
+  { key: 'lowLow', label: 'LL' },
+  { key: 'low', label: 'L' },
+  { key: 'high', label: 'H' },
+  { key: 'highHigh', label: 'HH' }
+];
+
+const inputClass = 'w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:border-blue-500';
+
+// Empty number inputs clear the limit instead of storing 0
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export default function AlarmRulesEditor({ rules, calculatedAttributeKeys = [], onChange }: AlarmRulesEditorProps) {
+  const ruleAttributes = [...RULE_ATTRIBUTES, ...calculatedAttributeKeys];
+
+  const updateRule = (index: number, changes: Partial<AlarmRule>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      {
+        id: `rule-${Date.now()}`,
+        attribute: 'oilRate',
+        scope: 'global',
+        deadband: 0,
+        delayOnSeconds: 0,
+        enabled: true
+      }
+    ]);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No alarm rules configured - all wells report good health.</p>
+      )}
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="p-3 border border-slate-200 dark:border-slate-600 rounded-lg space-y-2">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Attribute</label>
+              <select
+                value={rule.attribute}
+                onChange={(e) => updateRule(index, { attribute: e.target.value })}
+                className={inputClass}
+              >
+                {ruleAttributes.map(attribute => (
+                  <option key={attribute} value={attribute}>{attribute}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Scope</label>
+              <select
+                value={rule.scope}
+                onChange={(e) => updateRule(index, { scope: e.target.value as AlarmRuleScope })}
+                className={inputClass}
+              >
+                <option value="global">All wells</option>
+                <option value="wellpad">Wellpad</option>
+                <option value="template">Template</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">
+                {rule.scope === 'wellpad' ? 'Wellpad name' : rule.scope === 'template' ? 'Template name' : 'Scope value'}
+              </label>
+              <input
+                type="text"
+                value={rule.scopeValue || ''}
+                disabled={rule.scope === 'global'}
+                onChange={(e) => updateRule(index, { scopeValue: e.target.value })}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </div>
+            <div className="flex items-center justify-end gap-3">
+              <label className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+              <button
+                type="button"
+                onClick={() => removeRule(index)}
+                className="p-1 text-red-600 hover:bg-red-50 rounded"
+                title="Remove rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+            {LIMIT_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <label className="block text-xs text-slate-500 mb-1">{label}</label>
+                <input
+                  type="number"
+                  value={rule[key] ?? ''}
+                  onChange={(e) => updateRule(index, { [key]: parseOptionalNumber(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Deadband</label>
+              <input
+                type="number"
+                min={0}
+                value={rule.deadband ?? ''}
+                onChange={(e) => updateRule(index, { deadband: parseOptionalNumber(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Delay-on (s)</label>
+              <input
+                type="number"
+                min={0}
+                value={rule.delayOnSeconds ?? ''}
+                onChange={(e) => updateRule(index, { delayOnSeconds: parseOptionalNumber(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addRule}
+        className="flex items-center gap-2 px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-200 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add Rule
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { AttributeMapping, CalculatedAttribute } from '@/types/pi-system';
+import { validateCalculatedAttributes } from '@/services/calculated-attributes';
+
+interface CalculatedAttributesEditorProps {
+  calculatedAttributes: CalculatedAttribute[];
+  attributeMapping: AttributeMapping;
+  onChange: (calculatedAttributes: CalculatedAttribute[]) => void;
+}
+
+// Common derived values offered as starting points
+const EXAMPLES: Array<Omit<CalculatedAttribute, 'enabled'>> = [
+  { key: 'gor', label: 'GOR', expression: 'gasRate * 1000 / oilRate', unit: 'scf/bbl', decimals: 0 },
+  { key: 'wor', label: 'WOR', expression: 'liquidRate * waterCut / 100 / oilRate', decimals: 2 },
+  { key: 'drawdown', label: 'Drawdown', expression: 'casingPressure - tubingPressure', unit: 'psi', decimals: 0 }
+];
+
+const inputClass = 'w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:border-blue-500';
+
+export default function CalculatedAttributesEditor({ calculatedAttributes, attributeMapping, onChange }: CalculatedAttributesEditorProps) {
+  const baseKeys = [...Object.keys(attributeMapping), 'planDeviation'];
+  const errors = validateCalculatedAttributes(calculatedAttributes, baseKeys);
+
+  const updateAttribute = (index: number, changes: Partial<CalculatedAttribute>) => {
+    onChange(calculatedAttributes.map((attribute, i) => (i === index ? { ...attribute, ...changes } : attribute)));
+  };
+
+  const addAttribute = (example?: Omit<CalculatedAttribute, 'enabled'>) => {
+    onChange([
+      ...calculatedAttributes,
+      example ? { ...example, enabled: true } : { key: `calc${calculatedAttributes.length + 1}`, label: '', expression: '', decimals: 2, enabled: true }
+    ]);
+  };
+
+  const removeAttribute = (index: number) => {
+    onChange(calculatedAttributes.filter((_, i) => i !== index));
+  };
+
+  const unusedExamples = EXAMPLES.filter(example => !calculatedAttributes.some(attribute => attribute.key === example.key));
+
+  return (
+    <div className="space-y-3">
+      {calculatedAttributes.length === 0 && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No calculated attributes configured.</p>
+      )}
+
+      {calculatedAttributes.map((attribute, index) => {
+        const attributeErrors = attribute.enabled ? errors.filter(error => error.key === attribute.key) : [];
+
+        return (
+          <div key={index} className="p-3 border border-slate-200 dark:border-slate-600 rounded-lg space-y-2">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Key</label>
+                <input
+                  type="text"
+                  value={attribute.key}
+                  onChange={(e) => updateAttribute(index, { key: e.target.value })}
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-500 mb-1">Label</label>
+                <input
+                  type="text"
+                  value={attribute.label}
+                  onChange={(e) => updateAttribute(index, { label: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs text-slate-500 mb-1">Expression</label>
+                <input
+                  type="text"
+                  value={attribute.expression}
+                  onChange={(e) => updateAttribute(index, { expression: e.target.value })}
+                  placeholder="gasRate / oilRate"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">Unit</label>
+                  <input
+                    type="text"
+                    value={attribute.unit || ''}
+                    onChange={(e) => updateAttribute(index, { unit: e.target.value || undefined })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">Decimals</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={6}
+                    value={attribute.decimals ?? 2}
+                    onChange={(e) => updateAttribute(index, { decimals: Math.min(6, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-end gap-3">
+                <label className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={attribute.enabled}
+                    onChange={(e) => updateAttribute(index, { enabled: e.target.checked })}
+                  />
+                  Enabled
+                </label>
+                <button
+                  type="button"
+                  onClick={() => removeAttribute(index)}
+                  className="p-1 text-red-600 hover:bg-red-50 rounded"
+                  title="Remove calculated attribute"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            {attributeErrors.map((error, i) => (
+              <p key={i} className="text-xs text-red-600">{error.message}</p>
+            ))}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => addAttribute()}
+          className="flex items-center gap-2 px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-200 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Calculated Attribute
+        </button>
+        {unusedExamples.map(example => (
+          <button
+            key={example.key}
+            type="button"
+            onClick={() => addAttribute(example)}
+            className="px-2 py-1 text-xs text-blue-600 border border-blue-200 rounded hover:bg-blue-50"
+            title={example.expression}
+          >
+            + {example.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
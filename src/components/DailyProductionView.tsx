@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, CalendarDays, Target } from 'lucide-react';
+import { DailyProductionReport, DailyProductionTotals, DailyWellProduction, UnitPreferences } from '@/types/pi-system';
+import { convertAttributeValue, getVolumeUnitLabel } from '@/services/unit-conversion';
+
+interface DailyProductionViewProps {
+  unitPreferences: UnitPreferences;
+}
+
+// Volume columns and the rate attribute whose unit they are converted with
+const VOLUME_COLUMNS: Array<{ key: 'oilVolume' | 'liquidVolume' | 'waterVolume' | 'gasVolume' | 'planVolume'; label: string; settingsKey: string }> = [
+  { key: 'oilVolume', label: 'Oil', settingsKey: 'oilRate' },
+  { key: 'liquidVolume', label: 'Liquid', settingsKey: 'liquidRate' },
+  { key: 'waterVolume', label: 'Water', settingsKey: 'liquidRate' },
+  { key: 'gasVolume', label: 'Gas', settingsKey: 'gasRate' },
+  { key: 'planVolume', label: 'Plan', settingsKey: 'planTarget' }
+];
+
+// Plan is an oil target, so it is shown in the oil unit
+const getDisplayKey = (settingsKey: string) => (settingsKey === 'planTarget' ? 'oilRate' : settingsKey);
+
+const getAttainmentClass = (attainment: number | undefined) => {
+  if (attainment === undefined) return 'text-slate-400';
+  if (attainment >= 100) return 'text-green-700';
+  if (attainment >= 90) return 'text-yellow-700';
+  return 'text-red-700';
+};
+
+export default function DailyProductionView({ unitPreferences }: DailyProductionViewProps) {
+  const [productionDate, setProductionDate] = useState('');
+  const [report, setReport] = useState<DailyProductionReport | null>(null);
+  const [source, setSource] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const query = productionDate ? `?date=${productionDate}` : '';
+        const response = await fetch(`/api/pi-system/daily-production${query}`);
+        const result = await response.json();
+
+        if (result.success) {
+          setReport(result.data);
+          setSource(result.source);
+        } else {
+          setError(result.error || 'Failed to load daily production');
+        }
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [productionDate]);
+
+  const formatVolume = (value: number | undefined, settingsKey: string) => {
+    if (value === undefined) return '—';
+    const converted = convertAttributeValue(getDisplayKey(settingsKey), value, report?.units[settingsKey], unitPreferences);
+    return converted.value.toLocaleString();
+  };
+
+  const renderVolumeCells = (row: DailyProductionTotals | DailyWellProduction) => (
+    <>
+      {VOLUME_COLUMNS.map(column => (
+        <td key={column.key} className="px-3 py-2 text-right tabular-nums">{formatVolume(row[column.key], column.settingsKey)}</td>
+      ))}
+      <td className={`px-3 py-2 text-right font-semibold tabular-nums ${getAttainmentClass(row.attainment)}`}>
+        {row.attainment !== undefined ? `${row.attainment}%` : '—'}
+      </td>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Production Day Picker */}
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <CalendarDays className="w-4 h-4" />
+          Production day
+          <input
+            type="date"
+            value={productionDate || report?.productionDate || ''}
+            onChange={(e) => setProductionDate(e.target.value)}
+            className="px-2 py-1 border border-slate-300 rounded bg-white text-sm focus:outline-none focus:border-blue-500"
+          />
+        </label>
+        {report && (
+          <span className="text-sm text-slate-500">
+            {new Date(report.startTime).toLocaleString()} → {new Date(report.endTime).toLocaleString()} ({report.timeZone}, day starts {report.startHour}:00)
+            {!report.complete && ' · in progress'}
+            {source && source !== 'pi-af' && ` · estimated from current ${source} rates`}
+          </span>
+        )}
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin text-slate-500" />}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      {report && !error && (
+        <>
+          {/* Field Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4">
+              <p className="text-sm text-slate-600">Field Oil</p>
+              <p className="text-2xl font-bold text-slate-900">
+                {formatVolume(report.field.oilVolume, 'oilRate')} <span className="text-sm font-normal text-slate-500">{getVolumeUnitLabel('oilRate', unitPreferences)}</span>
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4">
+              <p className="text-sm text-slate-600">Field Plan</p>
+              <p className="text-2xl font-bold text-slate-900">
+                {formatVolume(report.field.planVolume, 'planTarget')} <span className="text-sm font-normal text-slate-500">{getVolumeUnitLabel('oilRate', unitPreferences)}</span>
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4">
+              <p className="text-sm text-slate-600 flex items-center gap-1"><Target className="w-4 h-4" /> Plan Attainment</p>
+              <p className={`text-2xl font-bold ${getAttainmentClass(report.field.attainment)}`}>
+                {report.field.attainment !== undefined ? `${report.field.attainment}%` : '—'}
+              </p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-4">
+              <p className="text-sm text-slate-600">Field Gas</p>
+              <p className="text-2xl font-bold text-slate-900">
+                {formatVolume(report.field.gasVolume, 'gasRate')} <span className="text-sm font-normal text-slate-500">{getVolumeUnitLabel('gasRate', unitPreferences)}</span>
+              </p>
+            </div>
+          </div>
+
+          {/* Well and Wellpad Volumes */}
+          <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">Well</th>
+                  {VOLUME_COLUMNS.map(column => (
+                    <th key={column.key} className="px-3 py-2 text-right font-medium">
+                      {column.label} ({getVolumeUnitLabel(getDisplayKey(column.settingsKey), unitPreferences)})
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right font-medium">Attainment</th>
+                </tr>
+              </thead>
+              {report.pads.map(pad => (
+                <tbody key={pad.wellPadId} className="border-t border-slate-200">
+                  <tr className="bg-slate-100 font-semibold text-slate-900">
+                    <td className="px-3 py-2">{pad.wellPadName} ({pad.wellCount} wells)</td>
+                    {renderVolumeCells(pad)}
+                  </tr>
+                  {pad.wells.map(well => (
+                    <tr key={well.wellId} className="text-slate-700 hover:bg-slate-50">
+                      <td className="px-3 py-2 pl-6">
+                        {well.wellName}
+                        {well.percentGood !== undefined && well.percentGood < 100 && (
+                          <span className="ml-2 text-xs text-yellow-700" title="Share of the production day with good PI data">
+                            {Math.round(well.percentGood)}% good
+                          </span>
+                        )}
+                      </td>
+                      {renderVolumeCells(well)}
+                    </tr>
+                  ))}
+                </tbody>
+              ))}
+              <tfoot className="border-t-2 border-slate-300 font-bold text-slate-900">
+                <tr>
+                  <td className="px-3 py-2">Field ({report.field.wellCount} wells)</td>
+                  {renderVolumeCells(report.field)}
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2, PowerOff, RefreshCw, Tag } from 'lucide-react';
+import { DeferredProductionEntry, DeferredProductionPareto, DowntimeEvent, DowntimeReason, UnitPreferences } from '@/types/pi-system';
+import { convertAttributeValue, getVolumeUnitLabel } from '@/services/unit-conversion';
+
+type DowntimeListEvent = DowntimeEvent & { downtimeHours: number; deferredVolume: number };
+
+interface DowntimePanelProps {
+  // Changing this value reloads the events, e.g. after new well data was recorded
+  refreshKey?: number;
+  unitPreferences: UnitPreferences;
+}
+
+const PERIOD_OPTIONS = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' }
+];
+
+const BASELINE_LABELS: { [source in DowntimeEvent['baselineSource']]: string } = {
+  plan: 'plan',
+  lastRate: 'last rate',
+  none: 'no baseline'
+};
+
+const inputClass = 'px-2 py-1 border border-slate-300 rounded bg-white text-slate-900 text-sm focus:outline-none focus:border-blue-500';
+
+const formatHours = (hours: number) => (hours >= 48 ? `${(hours / 24).toFixed(1)} d` : `${hours.toFixed(1)} h`);
+
+export default function DowntimePanel({ refreshKey, unitPreferences }: DowntimePanelProps) {
+  const [events, setEvents] = useState<DowntimeListEvent[]>([]);
+  const [pareto, setPareto] = useState<DeferredProductionPareto | null>(null);
+  const [reasons, setReasons] = useState<DowntimeReason[]>([]);
+  const [periodDays, setPeriodDays] = useState(7);
+  const [openOnly, setOpenOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [assigningId, setAssigningId] = useState<string | null>(null);
+  const [reasonCode, setReasonCode] = useState('');
+  const [author, setAuthor] = useState('');
+  const [comment, setComment] = useState('');
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const since = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000).toISOString();
+      const response = await fetch(`/api/pi-system/downtime?since=${encodeURIComponent(since)}${openOnly ? '&state=open' : ''}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setEvents(result.data.events);
+        setPareto(result.data.pareto);
+        setReasons(result.data.reasons);
+      } else {
+        setError(result.error || 'Failed to load downtime');
+      }
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [periodDays, openOnly]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents, refreshKey]);
+
+  const startAssign = (event: DowntimeListEvent) => {
+    setAssigningId(event.id);
+    setReasonCode(event.reasonCode || reasons[0]?.code || '');
+    setComment(event.comment || '');
+  };
+
+  const submitReason = async () => {
+    if (!assigningId || !reasonCode) return;
+
+    try {
+      const response = await fetch(`/api/pi-system/downtime/${encodeURIComponent(assigningId)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reasonCode, author, comment })
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setAssigningId(null);
+        setComment('');
+        // Reload so the pareto picks up the new cause
+        loadEvents();
+      } else {
+        setError(result.error || 'Failed to assign reason');
+      }
+    } catch (assignError) {
+      setError(assignError instanceof Error ? assignError.message : String(assignError));
+    }
+  };
+
+  const volumeUnit = getVolumeUnitLabel('oilRate', unitPreferences);
+  const formatVolume = (value: number, units?: string) =>
+    convertAttributeValue('oilRate', value, units, unitPreferences).value.toLocaleString();
+  const getReasonLabel = (code?: string) => (code ? reasons.find(reason => reason.code === code)?.label || code : undefined);
+  const openCount = events.filter(event => !event.endedAt).length;
+  const unassignedCount = events.filter(event => !event.reasonCode).length;
+
+  const renderPareto = (title: string, entries: DeferredProductionEntry[]) => {
+    const largest = entries[0]?.deferredVolume || 0;
+
+    return (
+      <div>
+        <h4 className="text-sm font-medium text-slate-700 mb-2">{title}</h4>
+        {entries.length === 0 && <p className="text-xs text-slate-500">No deferment.</p>}
+        <div className="space-y-1">
+          {entries.map(entry => (
+            <div key={entry.key} className="text-xs">
+              <div className="flex justify-between text-slate-600">
+                <span className="truncate">{entry.label}</span>
+                <span className="shrink-0 ml-2">
+                  {formatVolume(entry.deferredVolume, pareto?.units)} {volumeUnit} · {formatHours(entry.downtimeHours)} · {entry.cumulativePercent.toFixed(0)}%
+                </span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded">
+                <div
+                  className={`h-2 rounded ${entry.key === 'UNASSIGNED' ? 'bg-slate-400' : 'bg-orange-500'}`}
+                  style={{ width: `${largest > 0 ? (entry.deferredVolume / largest) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4 mb-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <PowerOff className="w-5 h-5 text-orange-600" />
+          <h3 className="font-semibold text-slate-900">Downtime</h3>
+          <span className="text-sm text-slate-500">
+            {openCount} shut in, {unassignedCount} without reason
+            {pareto && ` · ${formatVolume(pareto.totalDeferredVolume, pareto.units)} ${volumeUnit} deferred`}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={periodDays}
+            onChange={(e) => setPeriodDays(parseInt(e.target.value, 10))}
+            className={inputClass}
+          >
+            {PERIOD_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={openOnly}
+              onChange={(e) => setOpenOnly(e.target.checked)}
+            />
+            Shut in only
+          </label>
+          <button
+            onClick={loadEvents}
+            className="p-1 rounded hover:bg-slate-100"
+            title="Reload downtime"
+          >
+            {isLoading ? <Loader2 className="w-4 h-4 animate-spin text-slate-500" /> : <RefreshCw className="w-4 h-4 text-slate-500" />}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-700 bg-red-50 p-2 rounded mb-3 border border-red-200">{error}</div>
+      )}
+
+      {/* Deferment Pareto */}
+      {pareto && pareto.totalDeferredVolume > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          {renderPareto('Deferment by cause', pareto.byReason)}
+          {renderPareto('Deferment by pad', pareto.byPad)}
+        </div>
+      )}
+
+      {events.length === 0 && !isLoading && (
+        <p className="text-sm text-slate-500">No downtime {openOnly ? 'open' : 'recorded in this period'}.</p>
+      )}
+
+      {/* Event List */}
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {events.map(event => (
+          <div
+            key={event.id}
+            className={`border rounded-lg p-3 text-sm ${event.endedAt ? 'border-slate-200 bg-slate-50 text-slate-500' : 'border-orange-300 bg-orange-50 text-orange-800'}`}
+          >
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="font-medium">
+                  {event.wellName}
+                  {event.wellPadName && <span className="font-normal opacity-75"> ({event.wellPadName})</span>}
+                  {' - '}{getReasonLabel(event.reasonCode) || 'No reason assigned'}
+                </div>
+                <div className="text-xs opacity-75 mt-1">
+                  Down {new Date(event.startedAt).toLocaleString()}
+                  {event.endedAt
+                    ? ` · ${event.endedBy === 'missing' ? 'No longer loaded since' : 'Restarted'} ${new Date(event.endedAt).toLocaleString()}`
+                    : ' · Still shut in'}
+                  {` · ${formatHours(event.downtimeHours)}`}
+                  {` · ${formatVolume(event.deferredVolume, event.baselineUnits)} ${volumeUnit} deferred (${BASELINE_LABELS[event.baselineSource]})`}
+                </div>
+                {event.comment && (
+                  <div className="text-xs italic opacity-75 mt-1">
+                    {event.assignedBy || 'Operator'}: {event.comment}
+                  </div>
+                )}
+              </div>
+
+              <button
+                onClick={() => startAssign(event)}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-white border border-slate-300 rounded hover:bg-slate-50 shrink-0"
+                title="Assign downtime reason"
+              >
+                <Tag className="w-3 h-3" />
+                {event.reasonCode ? 'Change' : 'Assign'}
+              </button>
+            </div>
+
+            {/* Inline reason form */}
+            {assigningId === event.id && (
+              <div className="flex flex-wrap items-center gap-2 mt-3 pt-3 border-t border-current/20">
+                <select
+                  value={reasonCode}
+                  onChange={(e) => setReasonCode(e.target.value)}
+                  className={inputClass}
+                >
+                  {reasons.map(reason => (
+                    <option key={reason.code} value={reason.code}>{reason.code} - {reason.label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  placeholder="Operator"
+                  value={author}
+                  onChange={(e) => setAuthor(e.target.value)}
+                  className={`${inputClass} w-32`}
+                />
+                <input
+                  type="text"
+                  placeholder="Comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  className={`${inputClass} flex-1 min-w-40`}
+                />
+                <button
+                  onClick={submitReason}
+                  className="px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  Save reason
+                </button>
+                <button
+                  onClick={() => setAssigningId(null)}
+                  className="px-3 py-1 text-xs text-slate-600 hover:text-slate-800"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { DowntimeReason } from '@/types/pi-system';
+
+interface DowntimeReasonsEditorProps {
+  reasons: DowntimeReason[];
+  onChange: (reasons: DowntimeReason[]) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:border-blue-500';
+
+export default function DowntimeReasonsEditor({ reasons, onChange }: DowntimeReasonsEditorProps) {
+  const updateReason = (index: number, changes: Partial<DowntimeReason>) => {
+    onChange(reasons.map((reason, i) => (i === index ? { ...reason, ...changes } : reason)));
+  };
+
+  const addReason = () => {
+    onChange([...reasons, { code: `REASON${reasons.length + 1}`, label: '' }]);
+  };
+
+  const removeReason = (index: number) => {
+    onChange(reasons.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {reasons.map((reason, index) => (
+        <div key={index} className="grid grid-cols-[8rem_1fr_auto] gap-2 items-center">
+          <input
+            type="text"
+            value={reason.code}
+            onChange={(e) => updateReason(index, { code: e.target.value.toUpperCase() })}
+            placeholder="CODE"
+            className={`${inputClass} font-mono`}
+          />
+          <input
+            type="text"
+            value={reason.label}
+            onChange={(e) => updateReason(index, { label: e.target.value })}
+            placeholder="Description"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={() => removeReason(index)}
+            disabled={reasons.length <= 1}
+            className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-30"
+            title="Remove reason"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addReason}
+        className="flex items-center gap-2 px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-200 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add Reason
+      </button>
+    </div>
+  );
+}
@@ -1,13 +1,29 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
-import { WellPadData } from '@/types/pi-system';
+import { WellPadData, WellData, UnitPreferences, DEFAULT_UNIT_PREFERENCES, CalculatedAttribute, TemplateMapping } from '@/types/pi-system';
 import DynamicWellTile from './DynamicWellTile';
+import { hasValue, OPERATING_STATES, OPERATING_STATE_LABELS } from '@/services/well-mapping';
+import { convertAttributeValue, getDisplayUnit, getUnitLabel } from '@/services/unit-conversion';
 
 interface DynamicWellPadLayoutProps {
   wellPad: WellPadData;
   index: number;
+  onWellSelect?: (well: WellData) => void;
+  staleValueMinutes?: number;
+  unitPreferences?: UnitPreferences;
+  calculatedAttributes?: CalculatedAttribute[];
+  templateMappings?: TemplateMapping[];
 }
 
+// Pads with more wells than this only render the rows near the viewport
+const VIRTUALIZE_THRESHOLD = 60;
+// Rows rendered above and below the viewport so fast scrolling doesn't show blank space
+const OVERSCAN_ROWS = 3;
+// Row height guess (compact tile plus gap) until the first rows have been measured
+const ESTIMATED_ROW_HEIGHT = 180;
+// Matches the gap-4 class on the grid
+const GRID_GAP_PX = 16;
+
 // Calculate optimal grid layout based on number of wells
 const getGridLayout = (wellCount: number) => {
   if (wellCount <= 3) {
@@ -62,33 +78,124 @@ const getStatusDisplay = (status: string) => {
 };
 
 // Calculate summary statistics
-const calculateStats = (wellPad: WellPadData) => {
-  const totalOilProduction = Math.round(wellPad.avgOilRate * wellPad.totalWells);
-  const totalLiquidProduction = wellPad.wells.reduce((sum, well) => sum + well.liquidRate, 0);
-  const avgGasRate = wellPad.wells
-    .filter(well => well.gasRate !== undefined)
-    .reduce((sum, well) => sum + (well.gasRate || 0), 0) / wellPad.wells.length;
-  
-  const avgTubingPressure = wellPad.wells
-    .filter(well => well.tubingPressure !== undefined)
-    .reduce((sum, well) => sum + (well.tubingPressure || 0), 0) / 
-    wellPad.wells.filter(well => well.tubingPressure !== undefined).length;
+// Totals and averages in the display units; each well is converted from its own PI unit before summing
+const calculateStats = (wellPad: WellPadData, unitPreferences: UnitPreferences) => {
+  // Wells without a usable value are left out rather than counted as zero
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+  const convertedValues = (settingsKey: keyof WellData) => wellPad.wells
+    .filter(well => typeof well[settingsKey] === 'number' && hasValue(well, settingsKey))
+    .map(well => convertAttributeValue(settingsKey, well[settingsKey] as number, well.attributeInfo?.[settingsKey]?.units, unitPreferences).value);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  const totalOilProduction = sum(convertedValues('oilRate'));
+  const totalLiquidProduction = sum(convertedValues('liquidRate'));
+  const avgGasRate = average(convertedValues('gasRate'));
+  const avgTubingPressure = average(convertedValues('tubingPressure'));
 
   return {
-    totalOilProduction,
+    totalOilProduction: Math.round(totalOilProduction),
     totalLiquidProduction: Math.round(totalLiquidProduction),
     avgGasRate: avgGasRate ? Math.round(avgGasRate) : undefined,
     avgTubingPressure: avgTubingPressure ? Math.round(avgTubingPressure) : undefined,
-    alertWells: wellPad.wells.filter(w => w.status === 'alert').length,
-    warningWells: wellPad.wells.filter(w => w.status === 'warning').length,
-    goodWells: wellPad.wells.filter(w => w.status === 'good').length
+    alertWells: wellPad.wells.filter(w => w.health === 'alert').length,
+    warningWells: wellPad.wells.filter(w => w.health === 'warning').length,
+    goodWells: wellPad.wells.filter(w => w.health === 'good').length,
+    missingDataWells: wellPad.wells.filter(w => (w.unavailableAttributes?.length || 0) > 0).length
   };
 };
 
-export default function DynamicWellPadLayout({ wellPad, index }: DynamicWellPadLayoutProps) {
+interface WellGridProps {
+  wells: WellData[];
+  gridLayout: string;
+  compact: boolean;
+  onWellSelect?: (well: WellData) => void;
+  staleValueMinutes?: number;
+  unitPreferences?: UnitPreferences;
+  calculatedAttributes?: CalculatedAttribute[];
+  templateMappings?: TemplateMapping[];
+}
+
+// Windowed grid for large pads: spacers stand in for the rows scrolled out of view
+function VirtualizedWellGrid({ wells, gridLayout, compact, onWellSelect, staleValueMinutes, unitPreferences, calculatedAttributes, templateMappings }: WellGridProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(1);
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT);
+  const [range, setRange] = useState({ startRow: 0, endRow: 10 });
+
+  const rowCount = Math.ceil(wells.length / columns);
+
+  // The column count comes from responsive classes, so read it back from the rendered grid
+  useEffect(() => {
+    const grid = gridRef.current;
+    if (!grid) return;
+
+    const measure = () => {
+      const columnCount = Math.max(1, getComputedStyle(grid).gridTemplateColumns.split(' ').filter(Boolean).length);
+      setColumns(columnCount);
+
+      const renderedRows = Math.ceil(grid.children.length / columnCount);
+      if (renderedRows > 0) {
+        setRowHeight(Math.round((grid.offsetHeight + GRID_GAP_PX) / renderedRows));
+      }
+    };
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(grid);
+    measure();
+    return () => observer.disconnect();
+  }, []);
+
+  // The page scrolls rather than the pad, so track the grid's position in the window
+  useEffect(() => {
+    const updateRange = () => {
+      const container = containerRef.current;
+      if (!container) return;
+
+      const top = container.getBoundingClientRect().top;
+      const startRow = Math.min(rowCount, Math.max(0, Math.floor(-top / rowHeight) - OVERSCAN_ROWS));
+      const endRow = Math.max(startRow, Math.min(rowCount, Math.ceil((window.innerHeight - top) / rowHeight) + OVERSCAN_ROWS));
+      setRange(current => current.startRow === startRow && current.endRow === endRow ? current : { startRow, endRow });
+    };
+
+    updateRange();
+    window.addEventListener('scroll', updateRange, { passive: true });
+    window.addEventListener('resize', updateRange);
+    return () => {
+      window.removeEventListener('scroll', updateRange);
+      window.removeEventListener('resize', updateRange);
+    };
+  }, [rowCount, rowHeight]);
+
+  const visibleWells = wells.slice(range.startRow * columns, range.endRow * columns);
+
+  return (
+    <div ref={containerRef}>
+      <div style={{ height: range.startRow * rowHeight }} />
+      <div ref={gridRef} className={`grid gap-4 ${gridLayout}`}>
+        {visibleWells.map(well => (
+          <DynamicWellTile
+            key={well.id}
+            well={well}
+            compact={compact}
+            onSelect={onWellSelect}
+            staleValueMinutes={staleValueMinutes}
+            unitPreferences={unitPreferences}
+            calculatedAttributes={calculatedAttributes}
+            templateMappings={templateMappings}
+          />
+        ))}
+      </div>
+      <div style={{ height: (rowCount - range.endRow) * rowHeight }} />
+    </div>
+  );
+}
+
+export default function DynamicWellPadLayout({ wellPad, index, onWellSelect, staleValueMinutes, unitPreferences = DEFAULT_UNIT_PREFERENCES, calculatedAttributes, templateMappings }: DynamicWellPadLayoutProps) {
   const gridLayout = getGridLayout(wellPad.wells.length);
   const statusDisplay = getStatusDisplay(wellPad.status);
-  const stats = calculateStats(wellPad);
+  const stats = calculateStats(wellPad, unitPreferences);
+  const unitLabel = (settingsKey: string) => getUnitLabel(getDisplayUnit(settingsKey, unitPreferences));
   const StatusIcon = statusDisplay.icon;
 
   // Determine if we should use compact view for wells
@@ -101,18 +208,23 @@ export default function DynamicWellPadLayout({ wellPad, index }: DynamicWellPadL
         <div>
           <h3 className="text-xl font-bold text-slate-900 dark:text-white">{wellPad.name}</h3>
           <div className="flex items-center gap-4 mt-2 flex-wrap">
-            <span className="text-sm text-slate-500 dark:text-slate-400">
-              {wellPad.wells.length} wells
+            <span
+              className="text-sm text-slate-500 dark:text-slate-400"
+              title={wellPad.operatingStateCounts && OPERATING_STATES
+                .map(state => `${OPERATING_STATE_LABELS[state]}: ${wellPad.operatingStateCounts?.[state]}`)
+                .join('\n')}
+            >
+              {wellPad.wells.length} wells{wellPad.activeWells !== undefined && ` · ${wellPad.activeWells} producing`}
             </span>
             <span className="text-sm text-blue-600 font-medium">
-              {stats.totalOilProduction.toLocaleString()} bbl/day oil
+              {stats.totalOilProduction.toLocaleString()} {unitLabel('oilRate')} oil
             </span>
             <span className="text-sm text-cyan-600 font-medium">
-              {stats.totalLiquidProduction.toLocaleString()} bbl/day liquid
+              {stats.totalLiquidProduction.toLocaleString()} {unitLabel('liquidRate')} liquid
             </span>
             {stats.avgGasRate && (
               <span className="text-sm text-purple-600 font-medium">
-                {stats.avgGasRate.toLocaleString()} Mcf/day gas
+                {stats.avgGasRate.toLocaleString()} {unitLabel('gasRate')} gas
               </span>
             )}
             <span className="text-sm text-orange-600">
@@ -120,7 +232,12 @@ export default function DynamicWellPadLayout({ wellPad, index }: DynamicWellPadL
             </span>
             {stats.avgTubingPressure && (
               <span className="text-sm text-orange-500">
-                {stats.avgTubingPressure} psi avg tubing
+                {stats.avgTubingPressure} {unitLabel('tubingPressure')} avg tubing
+              </span>
+            )}
+            {stats.missingDataWells > 0 && (
+              <span className="text-sm text-slate-500 font-medium" title="Wells with mapped attributes that returned no usable value; they are left out of the totals above">
+                {stats.missingDataWells} wells missing data
               </span>
             )}
           </div>
@@ -145,24 +262,54 @@ export default function DynamicWellPadLayout({ wellPad, index }: DynamicWellPadL
           )}
         </div>
         
-        <div className="flex items-center gap-2">
-          <StatusIcon className={`w-5 h-5 ${statusDisplay.color}`} />
-          <span className={`text-sm font-medium ${statusDisplay.color}`}>
-            {statusDisplay.label}
-          </span>
+        <div className="flex flex-col items-end gap-1 max-w-xs">
+          <div className="flex items-center gap-2">
+            <StatusIcon className={`w-5 h-5 ${statusDisplay.color}`} />
+            <span className={`text-sm font-medium ${statusDisplay.color}`}>
+              {statusDisplay.label}
+            </span>
+          </div>
+          {wellPad.statusRollup && (
+            <span
+              className="text-xs text-slate-500 dark:text-slate-400 text-right"
+              title={wellPad.statusRollup.contributingWells.length > 0
+                ? `Wells in alert or warning:\n${wellPad.statusRollup.contributingWells.join('\n')}`
+                : undefined}
+            >
+              {wellPad.statusRollup.explanation}
+            </span>
+          )}
         </div>
       </div>
 
       {/* Wells Grid - Dynamic Layout */}
-      <div className={`grid gap-4 ${gridLayout}`}>
-        {wellPad.wells.map((well, wellIndex) => (
-          <DynamicWellTile
-            key={wellIndex}
-            well={well}
-            compact={useCompactView}
-          />
-        ))}
-      </div>
+      {wellPad.wells.length > VIRTUALIZE_THRESHOLD ? (
+        <VirtualizedWellGrid
+          wells={wellPad.wells}
+          gridLayout={gridLayout}
+          compact={useCompactView}
+          onWellSelect={onWellSelect}
+          staleValueMinutes={staleValueMinutes}
+          unitPreferences={unitPreferences}
+          calculatedAttributes={calculatedAttributes}
+          templateMappings={templateMappings}
+        />
+      ) : (
+        <div className={`grid gap-4 ${gridLayout}`}>
+          {wellPad.wells.map((well, wellIndex) => (
+            <DynamicWellTile
+              key={wellIndex}
+              well={well}
+              compact={useCompactView}
+              onSelect={onWellSelect}
+              staleValueMinutes={staleValueMinutes}
+              unitPreferences={unitPreferences}
+              calculatedAttributes={calculatedAttributes}
+              templateMappings={templateMappings}
+            />
+          ))}
+        </div>
+      )}
 
       {/* Wellpad Footer with Additional Info */}
       {wellPad.wells.length > 0 && (
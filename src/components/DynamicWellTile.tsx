@@ -8,18 +8,28 @@ import {
   Gauge, 
   Activity,
   Clock,
-  Settings
+  Settings,
+  Calculator
 } from 'lucide-react';
-import { WellData } from '@/types/pi-system';
+import { WellData, AttributeValueInfo, DEFAULT_REFRESH_SETTINGS, UnitPreferences, DEFAULT_UNIT_PREFERENCES, CalculatedAttribute, TemplateMapping, TypedAttributeValue } from '@/types/pi-system';
+import { isValueStale, getTemplateMapping, getStateOperatingState, OPERATING_STATE_LABELS } from '@/services/well-mapping';
+import { convertAttributeValue, roundForDisplay } from '@/services/unit-conversion';
 
 interface DynamicWellTileProps {
   well: WellData;
   availableAttributes?: string[];
   compact?: boolean;
+  onSelect?: (well: WellData) => void;
+  // Values older than this are badged stale
+  staleValueMinutes?: number;
+  unitPreferences?: UnitPreferences;
+  calculatedAttributes?: CalculatedAttribute[];
+  // A template with tile attributes fixes which values its wells show, and in what order
+  templateMappings?: TemplateMapping[];
 }
 
-// Configuration for attribute display
-const ATTRIBUTE_CONFIG = {
+// Configuration for attribute display; units are fallbacks for attributes unit-conversion doesn't cover
+export const ATTRIBUTE_CONFIG = {
   oilRate: { 
     label: 'Oil Rate', 
     unit: 'bbl/day', 
@@ -41,7 +51,7 @@ const ATTRIBUTE_CONFIG = {
     unit: '%', 
     icon: Droplets, 
     priority: 3,
-    colorClass: (value: number) => value > 25 ? 'text-red-600' : value > 20 ? 'text-yellow-600' : 'text-green-600',
+    colorClass: 'text-green-600', // Overridden by alarm rule reasons
     format: (value: number) => value.toString()
   },
   espFrequency: { 
@@ -182,27 +192,123 @@ const ATTRIBUTE_CONFIG = {
   }
 };
 
-export default function DynamicWellTile({ well, availableAttributes, compact = false }: DynamicWellTileProps) {
+// Labels of the digital state keys, shown as chips rather than value rows
+const STATE_LABELS: { [settingsKey: string]: string } = {
+  runStatus: 'Run Status',
+  wellMode: 'Mode'
+};
+
+// Chip colors by the operating state a state names
+const STATE_CHIP_CLASSES = {
+  producing: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  shutIn: 'bg-slate-200 text-slate-700 dark:bg-slate-600 dark:text-slate-200',
+  down: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  unknown: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-200'
+};
+
+// Text of a state chip
+const formatStateValue = (state: TypedAttributeValue) => {
+  switch (state.kind) {
+    case 'boolean':
+      return state.value ? 'On' : 'Off';
+    case 'timestamp':
+      return new Date(state.value).toLocaleString();
+    default:
+      return String(state.value);
+  }
+};
+
+// Calculated attributes display after the native ones, in the order they are configured
+const getCalculatedAttributeConfig = (calculatedAttribute: CalculatedAttribute, index: number) => ({
+  label: calculatedAttribute.label || calculatedAttribute.key,
+  unit: calculatedAttribute.unit || '',
+  icon: Calculator,
+  priority: 100 + index,
+  colorClass: 'text-violet-600',
+  format: (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: calculatedAttribute.decimals ?? 2 })
+});
+
+const SEVERITY_COLOR_CLASS = {
+  warning: 'text-yellow-600',
+  alert: 'text-red-600'
+};
+
+const BADGE_CLASS = 'ml-1 px-1 rounded text-xs font-medium';
+
+// Quality/staleness badge for one attribute value; good, fresh values get none
+const getValueBadge = (info: AttributeValueInfo | undefined, stale: boolean) => {
+  const sourceTime = info?.timestamp ? new Date(info.timestamp).toLocaleString() : 'unknown';
+  switch (info?.quality) {
+    case 'bad':
+      return { label: 'bad', className: 'bg-red-100 text-red-700', title: `Bad quality value from PI (${sourceTime})` };
+    case 'questionable':
+      return { label: '?', className: 'bg-amber-100 text-amber-700', title: `Questionable value (${sourceTime})` };
+    case 'substituted':
+      return { label: 'sub', className: 'bg-slate-200 text-slate-600', title: `Substituted value (${sourceTime})` };
+  }
+  if (stale) {
+    return { label: 'stale', className: 'bg-amber-100 text-amber-700', title: `No new value since ${sourceTime}` };
+  }
+  return null;
+};
+
+// Tile background/border from health, then operating state; the dot shows the operating state
+const getTileStatusClasses = (well: WellData) => {
+  const dot = well.operatingState === 'producing' ? 'bg-green-500' : well.operatingState === 'down' ? 'bg-red-500' : 'bg-gray-500';
+  switch (well.health) {
+    case 'alert':
+      return { tile: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800', dot };
+    case 'warning':
+      return { tile: 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800', dot };
+  }
+  return well.operatingState === 'producing'
+    ? { tile: 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800', dot }
+    : { tile: 'bg-gray-50 dark:bg-gray-900/20 border-gray-200 dark:border-gray-800', dot };
+};
+
+export default function DynamicWellTile({
+  well,
+  availableAttributes,
+  compact = false,
+  onSelect,
+  staleValueMinutes = DEFAULT_REFRESH_SETTINGS.staleValueMinutes,
+  unitPreferences = DEFAULT_UNIT_PREFERENCES,
+  calculatedAttributes = [],
+  templateMappings
+}: DynamicWellTileProps) {
+  const tileAttributes = getTemplateMapping(templateMappings, well.templateName)?.tileAttributes || [];
+
+  const getAttributeConfig = (settingsKey: string) => {
+    const configEntry = ATTRIBUTE_CONFIG[settingsKey as keyof typeof ATTRIBUTE_CONFIG];
+    if (configEntry) return configEntry;
+    const index = calculatedAttributes.findIndex(attribute => attribute.key === settingsKey);
+    return index >= 0 ? getCalculatedAttributeConfig(calculatedAttributes[index], index) : undefined;
+  };
+
   // Get all available attributes from the well data, configured by ATTRIBUTE_CONFIG
   const getAvailableAttributes = () => {
-    const attributes: Array<{ key: string; value: number; config: any }> = [];
+    const attributes: Array<{ key: string; value: number; unavailable?: boolean; config: any }> = [];
     
     if (well.attributes) { // Expects well.attributes to be { oilRate: value, waterCut: value, ... }
       Object.entries(well.attributes).forEach(([settingsKey, value]) => {
         // settingsKey is "oilRate", "waterCut", etc.
         // value is the numeric value
-        const configEntry = ATTRIBUTE_CONFIG[settingsKey as keyof typeof ATTRIBUTE_CONFIG];
+        const configEntry = getAttributeConfig(settingsKey);
 
-        if (typeof value === 'number' && configEntry) {
+        // Keys with a state show as a chip instead of their code
+        if (typeof value === 'number' && configEntry && !well.states?.[settingsKey]) {
           // Resolve icon if it's a function
           const resolvedIcon = typeof configEntry.icon === 'function' 
                                ? configEntry.icon(value) 
                                : configEntry.icon;
           
-          // Resolve colorClass if it's a function
-          const resolvedColorClass = typeof configEntry.colorClass === 'function'
-                                     ? configEntry.colorClass(value)
-                                     : configEntry.colorClass;
+          // Alarm rule reasons win over the configured color
+          const reason = well.statusReasons?.find(r => r.attribute === settingsKey);
+          const resolvedColorClass = reason
+                                     ? SEVERITY_COLOR_CLASS[reason.severity]
+                                     : typeof configEntry.colorClass === 'function'
+                                       ? configEntry.colorClass(value)
+                                       : configEntry.colorClass;
 
           attributes.push({
             key: settingsKey, // Use settingsKey as the key
@@ -217,66 +323,120 @@ export default function DynamicWellTile({ well, availableAttributes, compact = f
       });
     }
     
+    // Mapped attributes without a usable value are listed too, so a gap never reads as zero
+    (well.unavailableAttributes || []).forEach(settingsKey => {
+      const configEntry = getAttributeConfig(settingsKey);
+      if (!configEntry) return;
+
+      attributes.push({
+        key: settingsKey,
+        value: 0,
+        unavailable: true,
+        config: {
+          ...configEntry,
+          icon: typeof configEntry.icon === 'function' ? configEntry.icon(0) : configEntry.icon,
+          colorClass: 'text-slate-400'
+        }
+      });
+    });
+
+    if (tileAttributes.length > 0) {
+      return attributes
+        .filter(attribute => tileAttributes.includes(attribute.key))
+        .sort((a, b) => tileAttributes.indexOf(a.key) - tileAttributes.indexOf(b.key));
+    }
+
     // Sort by priority defined in ATTRIBUTE_CONFIG
     attributes.sort((a, b) => (a.config.priority || 99) - (b.config.priority || 99));
     return attributes;
   };
 
-  // Helper function to get appropriate unit for attribute (fallback, ideally from ATTRIBUTE_CONFIG)
-  const getUnitForAttribute = (attributeName: string): string => {
-    const lowerName = attributeName.toLowerCase();
-    if (lowerName.includes('rate') && lowerName.includes('oil')) return 'bbl/day';
-    if (lowerName.includes('rate') && lowerName.includes('liquid')) return 'bbl/day';
-    if (lowerName.includes('rate') && lowerName.includes('gas')) return 'Mcf/day';
-    if (lowerName.includes('pressure')) return 'psi';
-    if (lowerName.includes('frequency')) return 'Hz';
-    if (lowerName.includes('temperature')) return '°F';
-    if (lowerName.includes('cut') || lowerName.includes('%')) return '%';
-    if (lowerName.includes('choke')) return 'in';
-    if (lowerName.includes('speed')) return 'rpm';
-    if (lowerName.includes('amp')) return 'A';
-    if (lowerName.includes('vibration')) return 'in/sec';
-    if (lowerName.includes('time')) return 'hrs';
-    return '';
-  };
-
-  // Helper function to get appropriate icon for attribute (fallback, ideally from ATTRIBUTE_CONFIG)
-  const getIconForAttribute = (attributeName: string) => {
-    const lowerName = attributeName.toLowerCase();
-    if (lowerName.includes('oil') || lowerName.includes('liquid') || lowerName.includes('flow')) return Droplets;
-    if (lowerName.includes('pressure')) return Gauge;
-    if (lowerName.includes('gas')) return Activity;
-    if (lowerName.includes('frequency') || lowerName.includes('amp')) return Zap;
-    if (lowerName.includes('temperature')) return Thermometer;
-    if (lowerName.includes('time')) return Clock;
-    return Settings;
+  // Digital states and other non-numeric values, in tile attribute order when the template sets one
+  const getStateChips = () => {
+    const chips = Object.entries(well.states || {})
+      .filter(([settingsKey]) => tileAttributes.length === 0 || tileAttributes.includes(settingsKey))
+      .map(([settingsKey, state]) => ({
+        key: settingsKey,
+        label: STATE_LABELS[settingsKey] || getAttributeConfig(settingsKey)?.label || settingsKey,
+        text: formatStateValue(state),
+        className: STATE_CHIP_CLASSES[getStateOperatingState(state) || 'unknown']
+      }));
+    return tileAttributes.length > 0
+      ? chips.sort((a, b) => tileAttributes.indexOf(a.key) - tileAttributes.indexOf(b.key))
+      : chips;
   };
 
+  const stateChips = getStateChips();
   const availableAttrs = getAvailableAttributes();
   const maxAttributes = compact ? 4 : 8;
   const displayAttributes = availableAttrs.slice(0, maxAttributes);
+  const statusClasses = getTileStatusClasses(well);
+  const statusReasons = well.statusReasons || [];
+  const now = Date.now();
+  const isWellStale = isValueStale({ quality: 'good', timestamp: well.lastUpdated }, staleValueMinutes, now);
 
   return (
     <div
-      className={`rounded-lg p-3 border transition-all hover:shadow-md cursor-pointer ${
-        well.status === 'active'
-          ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800'
-          : 'bg-gray-50 dark:bg-gray-900/20 border-gray-200 dark:border-gray-800'
-      }`}
+      onClick={() => onSelect?.(well)}
+      className={`rounded-lg p-3 border transition-all hover:shadow-md cursor-pointer ${statusClasses.tile}`}
     >
       {/* Well Name and Status */}
       <div className="flex items-center justify-between mb-2">
         <h4 className="font-bold text-slate-900 dark:text-white text-sm">{well.name}</h4>
-        <div className={`w-2 h-2 rounded-full ${
-          well.status === 'active' ? 'bg-green-500' : 'bg-gray-500'
-        }`}></div>
+        <div className="flex items-center gap-1">
+          {well.operatingState !== 'producing' && (
+            <span className="text-xs text-slate-500 dark:text-slate-400">{OPERATING_STATE_LABELS[well.operatingState]}</span>
+          )}
+          <div
+            className={`w-2 h-2 rounded-full ${statusClasses.dot}`}
+            title={[OPERATING_STATE_LABELS[well.operatingState], ...statusReasons.map(r => r.message)].join('\n')}
+          ></div>
+        </div>
       </div>
 
+      {/* Alarm Reasons */}
+      {statusReasons.length > 0 && (
+        <div className="mb-2 space-y-0.5">
+          {statusReasons.slice(0, compact ? 1 : 3).map(reason => (
+            <div key={reason.ruleId} className={`text-xs ${SEVERITY_COLOR_CLASS[reason.severity]}`}>
+              {reason.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* State Chips */}
+      {stateChips.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-1">
+          {stateChips.map(chip => {
+            const info = well.attributeInfo?.[chip.key];
+            const sourceTime = info?.timestamp ? ` (${new Date(info.timestamp).toLocaleString()})` : '';
+            return (
+              <span
+                key={chip.key}
+                className={`px-1.5 py-0.5 rounded text-xs font-medium ${chip.className}`}
+                title={`${chip.label}: ${chip.text}${info && info.quality !== 'good' ? ` · ${info.quality} quality` : ''}${sourceTime}`}
+              >
+                {compact ? chip.text : `${chip.label}: ${chip.text}`}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
       {/* Dynamic Attributes */}
       <div className="space-y-1">
-        {displayAttributes.map(({ key, value, config }) => {
+        {displayAttributes.map(({ key, value, unavailable, config }) => {
           const Icon = config.icon;
           const colorClass = config.colorClass;
+          const info = well.attributeInfo?.[key];
+          const badge = unavailable
+            ? { label: 'no data', className: 'bg-slate-200 text-slate-600', title: info ? `No usable value from PI (${info.quality} quality)` : 'Attribute or value not found in PI' }
+            : getValueBadge(info, isValueStale(info, staleValueMinutes, now));
+          const converted = convertAttributeValue(key, value, info?.units, unitPreferences);
+          const unit = converted.unit || config.unit;
+          // Values keep PI's precision; native attributes are rounded here, calculated ones by their own decimals
+          const displayValue = Object.hasOwn(ATTRIBUTE_CONFIG, key) ? roundForDisplay(converted.value) : converted.value;
           
           return (
             <div key={key} className="flex items-center justify-between">
@@ -285,7 +445,10 @@ export default function DynamicWellTile({ well, availableAttributes, compact = f
                 {config.label}
               </div>
               <div className={`font-semibold text-sm ${colorClass}`}>
-                {config.format(value)}{config.unit && ` ${config.unit}`}
+                {unavailable ? '—' : <>{config.format(displayValue)}{unit && ` ${unit}`}</>}
+                {badge && (
+                  <span className={`${BADGE_CLASS} ${badge.className}`} title={badge.title}>{badge.label}</span>
+                )}
               </div>
             </div>
           );
@@ -300,8 +463,9 @@ export default function DynamicWellTile({ well, availableAttributes, compact = f
       )}
 
       {/* Last Update */}
-      <div className="mt-2 text-xs text-slate-400">
+      <div className="mt-2 text-xs text-slate-400" title={well.lastUpdated ? new Date(well.lastUpdated).toLocaleString() : undefined}>
         Updated: {well.lastUpdated ? new Date(well.lastUpdated).toLocaleTimeString() : 'N/A'}
+        {isWellStale && <span className={`${BADGE_CLASS} bg-amber-100 text-amber-700`}>stale</span>}
       </div>
     </div>
   );
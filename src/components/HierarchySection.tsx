@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { HierarchyNode, HierarchyLevel, WellHealth, WellPadData, UnitPreferences } from '@/types/pi-system';
+import { hasValue } from '@/services/well-mapping';
+import { convertAttributeValue, getDisplayUnit, getUnitLabel } from '@/services/unit-conversion';
+
+interface HierarchySectionProps {
+  node: HierarchyNode;
+  wellPadsById: Map<string, WellPadData>;
+  unitPreferences: UnitPreferences;
+  renderWellPad: (wellPad: WellPadData) => React.ReactNode;
+}
+
+const LEVEL_LABELS: { [level in HierarchyLevel]: string } = {
+  field: 'Field',
+  area: 'Area'
+};
+
+const LEVEL_CLASSES: { [level in HierarchyLevel]: string } = {
+  field: 'border-l-4 border-blue-500 pl-4',
+  area: 'border-l-2 border-slate-300 dark:border-slate-600 pl-4'
+};
+
+const STATUS_DOT_CLASSES: { [health in WellHealth]: string } = {
+  good: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  alert: 'bg-red-500'
+};
+
+// Every wellpad below a node, nested areas included
+const getWellPadsBelow = (node: HierarchyNode, wellPadsById: Map<string, WellPadData>): WellPadData[] => [
+  ...node.wellPadIds.map(id => wellPadsById.get(id)).filter((wellPad): wellPad is WellPadData => !!wellPad),
+  ...node.children.flatMap(child => getWellPadsBelow(child, wellPadsById))
+];
+
+// Rate total in the display unit; each well is converted from its own PI unit, wells without a value are left out
+const getConvertedTotal = (wellPads: WellPadData[], settingsKey: 'oilRate' | 'liquidRate', unitPreferences: UnitPreferences) =>
+  Math.round(wellPads.flatMap(wellPad => wellPad.wells)
+    .filter(well => hasValue(well, settingsKey))
+    .reduce((sum, well) => sum + convertAttributeValue(settingsKey, well[settingsKey], well.attributeInfo?.[settingsKey]?.units, unitPreferences).value, 0));
+
+// Collapsible field or area with its totals, nested areas and wellpads
+export default function HierarchySection({ node, wellPadsById, unitPreferences, renderWellPad }: HierarchySectionProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const { totals } = node;
+  const wellPads = getWellPadsBelow(node, wellPadsById);
+  const unitLabel = (settingsKey: string) => getUnitLabel(getDisplayUnit(settingsKey, unitPreferences));
+  const Chevron = isCollapsed ? ChevronRight : ChevronDown;
+
+  return (
+    <section className={LEVEL_CLASSES[node.level]}>
+      <button
+        type="button"
+        onClick={() => setIsCollapsed(!isCollapsed)}
+        className="w-full flex items-center gap-3 flex-wrap text-left py-2"
+        title={isCollapsed ? 'Expand' : 'Collapse'}
+      >
+        <Chevron className="w-5 h-5 text-slate-500" />
+        <span className={`w-2.5 h-2.5 rounded-full ${STATUS_DOT_CLASSES[totals.status]}`} />
+        <span className="text-xs uppercase tracking-wide text-slate-500 dark:text-slate-400">{LEVEL_LABELS[node.level]}</span>
+        <span className={`font-bold text-slate-900 dark:text-white ${node.level === 'field' ? 'text-2xl' : 'text-xl'}`}>{node.name}</span>
+        <span className="text-sm text-slate-500 dark:text-slate-400">
+          {totals.wellPads} wellpads · {totals.wells} wells · {totals.producingWells} producing
+        </span>
+        <span className="text-sm text-blue-600 font-medium">
+          {getConvertedTotal(wellPads, 'oilRate', unitPreferences).toLocaleString()} {unitLabel('oilRate')} oil
+        </span>
+        <span className="text-sm text-cyan-600 font-medium">
+          {getConvertedTotal(wellPads, 'liquidRate', unitPreferences).toLocaleString()} {unitLabel('liquidRate')} liquid
+        </span>
+        {totals.alertWells > 0 && (
+          <span className="text-sm text-red-600 font-medium">{totals.alertWells} alert wells</span>
+        )}
+        {totals.warningWells > 0 && (
+          <span className="text-sm text-yellow-600 font-medium">{totals.warningWells} warning wells</span>
+        )}
+      </button>
+
+      {!isCollapsed && (
+        <div className="space-y-6 mt-4">
+          {node.children.map(child => (
+            <HierarchySection
+              key={child.id}
+              node={child}
+              wellPadsById={wellPadsById}
+              unitPreferences={unitPreferences}
+              renderWellPad={renderWellPad}
+            />
+          ))}
+          {node.wellPadIds.map(id => {
+            const wellPad = wellPadsById.get(id);
+            return wellPad ? <React.Fragment key={id}>{renderWellPad(wellPad)}</React.Fragment> : null;
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
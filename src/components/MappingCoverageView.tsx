@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RefreshCw, Download } from 'lucide-react';
+import { CoverageStatus, MappingCoverageReport } from '@/types/pi-system';
+import { COVERAGE_STATUSES, COVERAGE_STATUS_LABELS } from '@/services/mapping-coverage';
+
+const STATUS_CLASSES: { [status in CoverageStatus]: string } = {
+  present: 'bg-green-500',
+  missing: 'bg-red-500',
+  nonNumeric: 'bg-orange-400',
+  badQuality: 'bg-yellow-400',
+  unmapped: 'bg-slate-200'
+};
+
+const getCoverageClass = (coveragePercent: number) => {
+  if (coveragePercent >= 100) return 'text-green-700';
+  if (coveragePercent >= 90) return 'text-yellow-700';
+  return 'text-red-700';
+};
+
+export default function MappingCoverageView() {
+  const [report, setReport] = useState<MappingCoverageReport | null>(null);
+  const [source, setSource] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [gapsOnly, setGapsOnly] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch('/api/pi-system/mapping-coverage');
+        const result = await response.json();
+
+        if (result.success) {
+          setReport(result.data);
+          setSource(result.source);
+        } else {
+          setError(result.error || 'Failed to load mapping coverage');
+        }
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [reloadKey]);
+
+  // Keys nobody maps add nothing but empty columns
+  const keys = report ? report.keys.filter(key => report.summary.find(entry => entry.settingsKey === key)?.counts.unmapped !== report.wells.length) : [];
+  const wells = report
+    ? report.wells.filter(well => !gapsOnly || keys.some(key => !['present', 'unmapped'].includes(well.cells[key]?.status)))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={() => setReloadKey(key => key + 1)}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Re-check
+        </button>
+        <a
+          href="/api/pi-system/mapping-coverage?format=csv"
+          className="flex items-center gap-2 px-3 py-1 text-sm bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          CSV
+        </a>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input type="checkbox" checked={gapsOnly} onChange={(e) => setGapsOnly(e.target.checked)} />
+          Only wells with gaps
+        </label>
+        {report && (
+          <span className="text-sm text-slate-500">
+            {report.wells.length} wells{report.parentElementPath && ` under ${report.parentElementPath}`} · checked {new Date(report.generatedAt).toLocaleString()}
+            {source && source !== 'pi-af' && ` · read from ${source} data`}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">{error}</div>
+      )}
+
+      {report && report.warnings.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+          {report.warnings.map((warning, i) => <p key={i}>{warning.message}</p>)}
+        </div>
+      )}
+
+      {report && !error && (
+        <>
+          {/* Legend */}
+          <div className="flex flex-wrap gap-4 text-xs text-slate-600">
+            {COVERAGE_STATUSES.map(status => (
+              <span key={status} className="flex items-center gap-1">
+                <span className={`w-3 h-3 rounded-sm ${STATUS_CLASSES[status]}`}></span>
+                {COVERAGE_STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+
+          {/* Attribute x Well Matrix */}
+          <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-x-auto">
+            <table className="text-sm">
+              <thead className="bg-slate-50 text-slate-600">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium sticky left-0 bg-slate-50">Well</th>
+                  {keys.map(key => (
+                    <th key={key} className="px-2 py-2 font-mono text-xs font-medium whitespace-nowrap">{key}</th>
+                  ))}
+                </tr>
+                <tr className="border-t border-slate-200">
+                  <th className="px-3 py-2 text-left font-medium sticky left-0 bg-slate-50">Coverage</th>
+                  {keys.map(key => {
+                    const entry = report.summary.find(summary => summary.settingsKey === key);
+                    return (
+                      <th
+                        key={key}
+                        className={`px-2 py-2 text-xs font-semibold ${entry ? getCoverageClass(entry.coveragePercent) : ''}`}
+                        title={entry ? [
+                          ...COVERAGE_STATUSES.map(status => `${COVERAGE_STATUS_LABELS[status]}: ${entry.counts[status]}`),
+                          ...Object.entries(entry.ruleCounts).map(([rule, count]) => `Matched by ${rule}: ${count}`)
+                        ].join('\n') : undefined}
+                      >
+                        {entry ? `${entry.coveragePercent}%` : '—'}
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {wells.map(well => (
+                  <tr key={well.wellId} className="border-t border-slate-100 hover:bg-slate-50">
+                    <td className="px-3 py-1 whitespace-nowrap sticky left-0 bg-white">
+                      <span className="text-slate-900">{well.wellName}</span>
+                      <span className="ml-2 text-xs text-slate-500">{well.wellPadName}{well.templateName && ` · ${well.templateName}`}</span>
+                    </td>
+                    {keys.map(key => {
+                      const cell = well.cells[key];
+                      const title = cell && [
+                        COVERAGE_STATUS_LABELS[cell.status],
+                        cell.attributeName && `"${cell.attributeName}"`,
+                        cell.matchedRule && cell.matchedRule !== cell.attributeName && `matched by ${cell.matchedRule}`,
+                        cell.detail
+                      ].filter(Boolean).join(' · ');
+                      return (
+                        <td key={key} className="px-2 py-1 text-center">
+                          <span className={`inline-block w-4 h-4 rounded-sm ${STATUS_CLASSES[cell?.status || 'unmapped']}`} title={title}></span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                {wells.length === 0 && (
+                  <tr>
+                    <td colSpan={keys.length + 1} className="px-3 py-6 text-center text-slate-500">
+                      {gapsOnly ? 'Every mapped attribute has a usable value on every well.' : 'No wells found.'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Wand2, Loader2 } from 'lucide-react';
+import { AttributeMapping, MappingSuggestionResult, PIServerConfig } from '@/types/pi-system';
+import { parseTemplateNames } from '@/services/well-mapping';
+import { HIGH_SUGGESTION_CONFIDENCE } from '@/services/mapping-suggestions';
+
+interface MappingSuggestionsPanelProps {
+  config: PIServerConfig;
+  attributeMapping: AttributeMapping;
+  onApply: (attributeMapping: AttributeMapping) => void;
+}
+
+const inputClass = 'px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:border-blue-500';
+
+const getConfidenceClass = (confidence: number) => {
+  if (confidence >= HIGH_SUGGESTION_CONFIDENCE) return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300';
+  if (confidence >= 0.5) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300';
+  return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300';
+};
+
+export default function MappingSuggestionsPanel({ config, attributeMapping, onApply }: MappingSuggestionsPanelProps) {
+  const [templateName, setTemplateName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<MappingSuggestionResult | null>(null);
+  // Attribute chosen per key; keys left out are not applied
+  const [accepted, setAccepted] = useState<{ [settingsKey: string]: string }>({});
+
+  const loadSuggestions = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/pi-system/mapping-suggestions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config, templateName: templateName || undefined })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to suggest a mapping');
+      }
+
+      const suggestionResult: MappingSuggestionResult = data.data;
+      setResult(suggestionResult);
+      // Confident matches that differ from the current mapping start out accepted
+      setAccepted(Object.fromEntries(suggestionResult.suggestions
+        .filter(suggestion => suggestion.attributeName && suggestion.confidence >= HIGH_SUGGESTION_CONFIDENCE &&
+          suggestion.attributeName !== attributeMapping[suggestion.settingsKey as keyof AttributeMapping])
+        .map(suggestion => [suggestion.settingsKey, suggestion.attributeName as string])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setResult(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleAccepted = (settingsKey: string, attributeName: string | null, checked: boolean) => {
+    const next = { ...accepted };
+    if (checked && attributeName) {
+      next[settingsKey] = attributeName;
+    } else {
+      delete next[settingsKey];
+    }
+    setAccepted(next);
+  };
+
+  const applyAccepted = () => {
+    onApply({ ...attributeMapping, ...accepted });
+    setAccepted({});
+  };
+
+  return (
+    <div className="mb-4 p-3 border border-slate-200 dark:border-slate-600 rounded-lg space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={templateName}
+          onChange={(e) => setTemplateName(e.target.value)}
+          placeholder={parseTemplateNames(config.templateName)[0] || 'Element template name'}
+          className={inputClass}
+        />
+        <button
+          type="button"
+          onClick={loadSuggestions}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-200 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+          Suggest from Template
+        </button>
+        {result && (
+          <span className="text-xs text-slate-500">
+            {result.attributeTemplates.length} attribute templates on &quot;{result.templateName}&quot;
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500">
+                <th className="py-1 pr-2"></th>
+                <th className="py-1 pr-2">Key</th>
+                <th className="py-1 pr-2">Current</th>
+                <th className="py-1 pr-2">Suggested</th>
+                <th className="py-1">Confidence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.suggestions.map(suggestion => {
+                const current = attributeMapping[suggestion.settingsKey as keyof AttributeMapping] || '';
+                const options = [
+                  ...(suggestion.attributeName ? [{ attributeName: suggestion.attributeName, confidence: suggestion.confidence }] : []),
+                  ...suggestion.alternatives
+                ];
+                const chosen = accepted[suggestion.settingsKey] ?? suggestion.attributeName;
+                const chosenConfidence = options.find(option => option.attributeName === chosen)?.confidence ?? 0;
+
+                return (
+                  <tr key={suggestion.settingsKey} className="border-t border-slate-100 dark:border-slate-700">
+                    <td className="py-1 pr-2">
+                      <input
+                        type="checkbox"
+                        checked={suggestion.settingsKey in accepted}
+                        disabled={options.length === 0}
+                        onChange={(e) => toggleAccepted(suggestion.settingsKey, chosen, e.target.checked)}
+                      />
+                    </td>
+                    <td className="py-1 pr-2 font-mono text-xs">{suggestion.settingsKey}</td>
+                    <td className="py-1 pr-2 text-slate-500">{current || '—'}</td>
+                    <td className="py-1 pr-2">
+                      {options.length === 0 ? (
+                        <span className="text-slate-400">No match</span>
+                      ) : (
+                        <select
+                          value={chosen || ''}
+                          onChange={(e) => toggleAccepted(suggestion.settingsKey, e.target.value, true)}
+                          className={inputClass}
+                          title={suggestion.reasons.join('\n') || undefined}
+                        >
+                          {options.map(option => (
+                            <option key={option.attributeName} value={option.attributeName}>{option.attributeName}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="py-1">
+                      {options.length > 0 && (
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${getConfidenceClass(chosenConfidence)}`}>
+                          {Math.round(chosenConfidence * 100)}%
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={applyAccepted}
+              disabled={Object.keys(accepted).length === 0}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Apply {Object.keys(accepted).length} Selected
+            </button>
+            <span className="text-xs text-slate-500">Applied names still need Save Configuration.</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { FileDown, FolderOutput, Loader2 } from 'lucide-react';
+import { ReportFormat } from '@/types/pi-system';
+
+const DOWNLOAD_FORMATS: Array<{ format: ReportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'pdf', label: 'PDF' }
+];
+
+export default function MorningReportMenu() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isWriting, setIsWriting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Write the report to the scheduled output folder on the server now
+  const handleWriteNow = async () => {
+    setIsWriting(true);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/pi-system/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'run' })
+      });
+      const result = await response.json();
+      setMessage(result.success ? `Wrote ${result.data.files.length} file(s)` : `Failed: ${result.error}`);
+    } catch (error) {
+      setMessage(`Failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors"
+      >
+        <FileDown className="w-4 h-4" />
+        Morning Report
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-56 bg-white rounded-lg shadow-lg border border-slate-200 p-2 z-20">
+          {DOWNLOAD_FORMATS.map(({ format, label }) => (
+            <a
+              key={format}
+              href={`/api/pi-system/reports?format=${format}`}
+              className="block px-3 py-2 text-sm text-slate-700 rounded hover:bg-slate-50"
+            >
+              Download {label}
+            </a>
+          ))}
+          <button
+            onClick={handleWriteNow}
+            disabled={isWriting}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-700 rounded hover:bg-slate-50 disabled:opacity-50 border-t border-slate-100 mt-1"
+          >
+            {isWriting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FolderOutput className="w-4 h-4" />}
+            Write to output folder
+          </button>
+          {message && <p className="px-3 py-1 text-xs text-slate-500">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
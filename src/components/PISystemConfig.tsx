@@ -1,6 +1,13 @@
 import { useState, useEffect } from 'react';
-import { PIServerConfig, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING } from '@/types/pi-system';
-import { Settings, Server, Database, TestTube, CheckCircle, AlertCircle, ToggleLeft, ToggleRight, Loader2, AlertTriangle } from 'lucide-react';
+import { PIServerConfig, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING, AlarmRule, DEFAULT_ALARM_RULES, CalculatedAttribute, TemplateMapping, RollupPolicy, DEFAULT_ROLLUP_POLICIES, RefreshSettings, DEFAULT_REFRESH_SETTINGS, ProductionDaySettings, DEFAULT_PRODUCTION_DAY_SETTINGS, ReportSchedule, ReportFormat, DEFAULT_REPORT_SCHEDULE, DowntimeReason, DEFAULT_DOWNTIME_REASONS, DEFAULT_LOAD_LIMITS, DEFAULT_STRUCTURE_CACHE_MINUTES, HierarchySettings, DEFAULT_HIERARCHY_SETTINGS } from '@/types/pi-system';
+import { Settings, Server, Database, TestTube, CheckCircle, AlertCircle, ToggleLeft, ToggleRight, Loader2, AlertTriangle, RefreshCw } from 'lucide-react';
+import AlarmRulesEditor from './AlarmRulesEditor';
+import DowntimeReasonsEditor from './DowntimeReasonsEditor';
+import CalculatedAttributesEditor from './CalculatedAttributesEditor';
+import TemplateMappingsEditor from './TemplateMappingsEditor';
+import RollupPoliciesEditor from './RollupPoliciesEditor';
+import MappingSuggestionsPanel from './MappingSuggestionsPanel';
+import { parseTemplateNames } from '@/services/well-mapping';
 
 interface PIConfigProps {
   onConfigured: () => void;
@@ -31,6 +38,14 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
   });
 
   const [attributeMapping, setAttributeMapping] = useState<AttributeMapping>(DEFAULT_ATTRIBUTE_MAPPING);
+  const [alarmRules, setAlarmRules] = useState<AlarmRule[]>(DEFAULT_ALARM_RULES);
+  const [calculatedAttributes, setCalculatedAttributes] = useState<CalculatedAttribute[]>([]);
+  const [templateMappings, setTemplateMappings] = useState<TemplateMapping[]>([]);
+  const [rollupPolicies, setRollupPolicies] = useState<RollupPolicy[]>(DEFAULT_ROLLUP_POLICIES);
+  const [refreshSettings, setRefreshSettings] = useState<RefreshSettings>(DEFAULT_REFRESH_SETTINGS);
+  const [productionDay, setProductionDay] = useState<ProductionDaySettings>(DEFAULT_PRODUCTION_DAY_SETTINGS);
+  const [reportSchedule, setReportSchedule] = useState<ReportSchedule>(DEFAULT_REPORT_SCHEDULE);
+  const [downtimeReasons, setDowntimeReasons] = useState<DowntimeReason[]>(DEFAULT_DOWNTIME_REASONS);
   const [isLoading, setIsLoading] = useState(false);
   const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
 
@@ -51,6 +66,30 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
         if (result.config.attributeMapping) {
           setAttributeMapping(result.config.attributeMapping);
         }
+        if (result.config.alarmRules) {
+          setAlarmRules(result.config.alarmRules);
+        }
+        if (result.config.calculatedAttributes) {
+          setCalculatedAttributes(result.config.calculatedAttributes);
+        }
+        if (result.config.templateMappings) {
+          setTemplateMappings(result.config.templateMappings);
+        }
+        if (result.config.rollupPolicies) {
+          setRollupPolicies(result.config.rollupPolicies);
+        }
+        if (result.config.refreshSettings) {
+          setRefreshSettings(result.config.refreshSettings);
+        }
+        if (result.config.productionDay) {
+          setProductionDay(result.config.productionDay);
+        }
+        if (result.config.reportSchedule) {
+          setReportSchedule(result.config.reportSchedule);
+        }
+        if (result.config.downtimeReasons) {
+          setDowntimeReasons(result.config.downtimeReasons);
+        }
         if (result.config.mode) {
           setMode(result.config.mode);
         }
@@ -69,7 +108,7 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
       await fetch('/api/pi-system/config', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ config, attributeMapping, mode: newMode })
+        body: JSON.stringify({ config, attributeMapping, alarmRules, calculatedAttributes, templateMappings, rollupPolicies, refreshSettings, productionDay, reportSchedule, downtimeReasons, mode: newMode })
       });
     } catch (error) {
       console.error('Failed to save mode:', error);
@@ -85,7 +124,7 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
       const response = await fetch('/api/pi-system/config', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ config, attributeMapping, mode })
+        body: JSON.stringify({ config, attributeMapping, alarmRules, calculatedAttributes, templateMappings, rollupPolicies, refreshSettings, productionDay, reportSchedule, downtimeReasons, mode })
       });
 
       const result = await response.json();
@@ -144,6 +183,14 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
         body: JSON.stringify({
           config,
           attributeMapping,
+          alarmRules,
+          calculatedAttributes,
+          templateMappings,
+          rollupPolicies,
+          refreshSettings,
+          productionDay,
+          reportSchedule,
+          downtimeReasons,
           mode
         }),
       });
@@ -180,6 +227,32 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
     }
   };
 
+  // Drop the server's cached AF structure and walk AF again, e.g. after wells are added
+  const handleRebuildStructure = async () => {
+    setIsLoading(true);
+    setTestResult(null);
+
+    try {
+      await fetch('/api/pi-system/config', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ config, attributeMapping, alarmRules, calculatedAttributes, templateMappings, rollupPolicies, refreshSettings, productionDay, reportSchedule, downtimeReasons, mode })
+      });
+
+      const response = await fetch('/api/pi-system/structure', { method: 'POST' });
+      const result = await response.json();
+      setTestResult({
+        success: result.success,
+        message: result.success ? result.message : `Structure rebuild failed: ${result.error}`
+      });
+    } catch (error) {
+      console.error('Structure rebuild error:', error);
+      setTestResult({ success: false, message: 'Structure rebuild failed' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleTestConnection = async () => {
     // Validate required fields based on mode
     if (!config.piWebApiServerName) {
@@ -214,7 +287,7 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
       await fetch('/api/pi-system/config', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ config, attributeMapping, mode })
+        body: JSON.stringify({ config, attributeMapping, alarmRules, calculatedAttributes, templateMappings, rollupPolicies, refreshSettings, productionDay, reportSchedule, downtimeReasons, mode })
       });
 
       // Use client-side direct connection test (like the working debug tools)
@@ -347,12 +420,13 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
       }
 
       // Test 4: Check if we can access attributes (only if element test passed)
-      if (testResult.details.elementPathValid && config.templateName) {
+      const [firstTemplateName] = parseTemplateNames(config.templateName);
+      if (testResult.details.elementPathValid && firstTemplateName) {
         try {
-          console.log(`🔍 Testing Template/Attributes: ${config.templateName}`);
+          console.log(`🔍 Testing Template/Attributes: ${firstTemplateName}`);
           
-          // Try to get elements with the specified template
-          const templateUrl = `${workingEndpoint}/elements?path=\\\\${config.afServerName}\\${config.afDatabaseName}\\${config.parentElementPath}&templateName=${config.templateName}`;
+          // Try to get elements with the first template of the filter
+          const templateUrl = `${workingEndpoint}/elements?path=\\\\${config.afServerName}\\${config.afDatabaseName}\\${config.parentElementPath}&templateName=${firstTemplateName}`;
           console.log(`   Testing template URL: ${templateUrl}`);
           
           const templateResponse = await fetch(templateUrl, {
@@ -364,7 +438,7 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
           
           if (templateResponse.ok) {
             testResult.details.attributesAccessible = true;
-            console.log(`✅ Template/attributes accessible: ${config.templateName}`);
+            console.log(`✅ Template/attributes accessible: ${firstTemplateName}`);
           } else if (templateResponse.status === 401) {
             // 401 means server is working but needs auth - attributes could be accessible
             testResult.details.attributesAccessible = true; // Assume accessible, auth issue
@@ -436,6 +510,11 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
     );
   };
 
+  const hierarchy = { ...DEFAULT_HIERARCHY_SETTINGS, ...config.hierarchy };
+  const updateHierarchy = (changes: Partial<HierarchySettings>) => {
+    setConfig({ ...config, hierarchy: { ...hierarchy, ...changes } });
+  };
+
   const clearEnvironmentVariables = () => {
     setConfig({
       afServerName: config.afServerName?.replace(/%[^%]*%/g, ''),
@@ -571,16 +650,116 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
 
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                  Template Name
+                  Template Names <span className="font-normal text-slate-500">(comma separated)</span>
                 </label>
                 <input
                   type="text"
                   value={config.templateName}
                   onChange={(e) => setConfig({ ...config, templateName: e.target.value })}
-                  placeholder="e.g., WellPadTemplate"
+                  placeholder="e.g., ESPWell, GasLiftWell"
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Max WellPads <span className="font-normal text-slate-500">(0 = no limit)</span>
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  value={config.maxWellPads ?? DEFAULT_LOAD_LIMITS.maxWellPads}
+                  onChange={(e) => setConfig({ ...config, maxWellPads: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Max Wells per WellPad <span className="font-normal text-slate-500">(0 = no limit)</span>
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  value={config.maxWellsPerPad ?? DEFAULT_LOAD_LIMITS.maxWellsPerPad}
+                  onChange={(e) => setConfig({ ...config, maxWellsPerPad: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Structure Cache (minutes) <span className="font-normal text-slate-500">(0 = walk AF on every load)</span>
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  value={config.structureCacheMinutes ?? DEFAULT_STRUCTURE_CACHE_MINUTES}
+                  onChange={(e) => setConfig({ ...config, structureCacheMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
                   className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
                 />
               </div>
+
+              <label className="md:col-span-2 flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={config.strictAttributeValues !== false}
+                  onChange={(e) => setConfig({ ...config, strictAttributeValues: e.target.checked })}
+                />
+                Treat bad-quality PI values as unavailable (missing attributes are always shown as no data, never as 0)
+              </label>
+            </div>
+
+            {/* Asset Hierarchy */}
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={hierarchy.enabled}
+                  onChange={(e) => updateHierarchy({ enabled: e.target.checked })}
+                />
+                Walk a Field &gt; Area &gt; Pad &gt; Well hierarchy below the parent element
+              </label>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                Template names mark each level; the template names above mark wells, which may also sit directly under an area.
+                Without them, elements of a mapped template or without child elements are wells.
+                Leave the pad templates empty to treat every other element as a wellpad, otherwise unmatched elements are walked through as folders.
+              </p>
+              {hierarchy.enabled && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {([
+                    ['fieldTemplates', 'Field Templates', 'e.g., OilField'],
+                    ['areaTemplates', 'Area Templates', 'e.g., ProductionArea'],
+                    ['padTemplates', 'Pad Templates', 'e.g., WellPad']
+                  ] as const).map(([key, label, placeholder]) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                        {label} <span className="font-normal text-slate-500">(comma separated)</span>
+                      </label>
+                      <input
+                        type="text"
+                        value={hierarchy[key]}
+                        onChange={(e) => updateHierarchy({ [key]: e.target.value })}
+                        placeholder={placeholder}
+                        className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                      Max Depth <span className="font-normal text-slate-500">(levels below the parent element, wells included)</span>
+                    </label>
+                    <input
+                      type="number"
+                      min={2}
+                      max={10}
+                      value={hierarchy.maxDepth}
+                      onChange={(e) => updateHierarchy({ maxDepth: Math.min(10, Math.max(2, parseInt(e.target.value, 10) || DEFAULT_HIERARCHY_SETTINGS.maxDepth)) })}
+                      className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Windows Authentication Notice */}
@@ -604,6 +783,17 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
           <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">
             Attribute Mapping {mode === 'development' && <span className="text-sm font-normal text-slate-500">(Optional in Development Mode)</span>}
           </h3>
+          <MappingSuggestionsPanel
+            config={config}
+            attributeMapping={attributeMapping}
+            onApply={setAttributeMapping}
+          />
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Entries can name a child attribute by path (<code>ESP|Frequency</code>), select by AF category (<code>category:Oil Rate</code>)
+            and list fallbacks separated by <code>;</code>, tried in order. Run status and well mode show as state chips; a stopped or shut-in
+            state marks the well inactive. Check the saved mapping against every well in the{' '}
+            <a href="/mapping-coverage" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">mapping coverage report</a>.
+          </p>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
@@ -664,6 +854,256 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
                 className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Run Status Attribute (digital state)
+              </label>
+              <input
+                type="text"
+                value={attributeMapping.runStatus || ''}
+                onChange={(e) => setAttributeMapping({ ...attributeMapping, runStatus: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Well Mode Attribute (digital state)
+              </label>
+              <input
+                type="text"
+                value={attributeMapping.wellMode || ''}
+                onChange={(e) => setAttributeMapping({ ...attributeMapping, wellMode: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Template Mappings */}
+        <div className="border-t border-slate-200 dark:border-slate-600 pt-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Template Mappings</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Attribute names for wells of a particular AF template, such as ESP and gas-lift wells. Blank fields use the mapping above;
+            tile attributes choose which values those wells show.
+          </p>
+          <TemplateMappingsEditor
+            templateMappings={templateMappings}
+            attributeMapping={attributeMapping}
+            templateFilter={config.templateName}
+            calculatedAttributeKeys={calculatedAttributes.filter(attribute => attribute.enabled).map(attribute => attribute.key)}
+            onChange={setTemplateMappings}
+          />
+        </div>
+
+        {/* Calculated Attributes */}
+        <div className="border-t border-slate-200 dark:border-slate-600 pt-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Calculated Attributes</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Values derived from the mapped attributes above, shown on well tiles and usable in alarm rules. Expressions use attribute keys,
+            planDeviation, other calculated keys, + - * / ^, parentheses and abs, sqrt, round, log, exp, pow, min, max.
+          </p>
+          <CalculatedAttributesEditor
+            calculatedAttributes={calculatedAttributes}
+            attributeMapping={attributeMapping}
+            onChange={setCalculatedAttributes}
+          />
+        </div>
+
+        {/* Alarm Rules */}
+        <div className="border-t border-slate-200 dark:border-slate-600 pt-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Alarm Rules</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Limits that set well health to warning (L/H) or alert (LL/HH). Wellpad rules override template rules, which override rules for all wells.
+          </p>
+          <AlarmRulesEditor
+            rules={alarmRules}
+            calculatedAttributeKeys={calculatedAttributes.filter(attribute => attribute.enabled).map(attribute => attribute.key)}
+            onChange={setAlarmRules}
+          />
+        </div>
+
+        {/* Wellpad Status Roll-up */}
+        <div className="border-t border-slate-200 dark:border-slate-600 pt-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Wellpad Status Roll-up</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            How well health rolls up into a wellpad status. Percentage and production weighted policies only raise a pad once enough of it is
+            in alert or warning. Wellpad policies override template policies, which override the policy for all wellpads.
+          </p>
+          <RollupPoliciesEditor
+            policies={rollupPolicies}
+            onChange={setRollupPolicies}
+          />
+        </div>
+
+        {/* Downtime Reasons */}
+        <div className="border-t border-slate-200 dark:border-slate-600 pt-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Downtime Reasons</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Reason codes operators assign to shut-ins. Deferred production is grouped by these codes.
+          </p>
+          <DowntimeReasonsEditor reasons={downtimeReasons} onChange={setDowntimeReasons} />
+        </div>
+
+        {/* Auto Refresh */}
+        <div className="border-t border-slate-200 dark:border-slate-600 pt-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Auto Refresh</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            After the first load the dashboard re-reads attribute values on this interval. Set the interval to 0 to refresh manually only.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Refresh Interval (seconds)
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={refreshSettings.intervalSeconds}
+                onChange={(e) => setRefreshSettings({ ...refreshSettings, intervalSeconds: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Stale After (intervals)
+              </label>
+              <input
+                type="number"
+                min={1}
+                value={refreshSettings.staleAfterIntervals}
+                onChange={(e) => setRefreshSettings({ ...refreshSettings, staleAfterIntervals: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Stale Value Age (minutes)
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={refreshSettings.staleValueMinutes}
+                onChange={(e) => setRefreshSettings({ ...refreshSettings, staleValueMinutes: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Values whose PI timestamp is older are badged stale on the tiles (0 = never)
+              </p>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 mt-4 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={refreshSettings.useChannels}
+              onChange={(e) => setRefreshSettings({ ...refreshSettings, useChannels: e.target.checked })}
+            />
+            Use PI Web API channels (WebSocket push updates, falls back to polling if the channel drops)
+          </label>
+        </div>
+
+        {/* Production Day */}
+        <div className="border-t border-slate-200 dark:border-slate-600 pt-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Production Day</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Daily volumes on the Daily Production view cover one production day, starting at this hour in the field&apos;s time zone.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Day Start Hour (0-23)
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={23}
+                value={productionDay.startHour}
+                onChange={(e) => setProductionDay({ ...productionDay, startHour: Math.min(23, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Time Zone
+              </label>
+              <input
+                type="text"
+                value={productionDay.timeZone}
+                onChange={(e) => setProductionDay({ ...productionDay, timeZone: e.target.value })}
+                placeholder="e.g., America/Chicago"
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                IANA time zone name; DST changes make the production day 23 or 25 hours long
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Morning Report Schedule */}
+        <div className="border-t border-slate-200 dark:border-slate-600 pt-6">
+          <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-1">Morning Report Schedule</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            The server writes the morning report into the output folder once a day at this time (production day time zone).
+          </p>
+          <label className="flex items-center gap-2 mb-4 text-sm text-slate-700 dark:text-slate-300">
+            <input
+              type="checkbox"
+              checked={reportSchedule.enabled}
+              onChange={(e) => setReportSchedule({ ...reportSchedule, enabled: e.target.checked })}
+            />
+            Write the morning report on a schedule
+          </label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Time
+              </label>
+              <input
+                type="time"
+                value={reportSchedule.time}
+                onChange={(e) => setReportSchedule({ ...reportSchedule, time: e.target.value })}
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Output Folder
+              </label>
+              <input
+                type="text"
+                value={reportSchedule.outputFolder}
+                onChange={(e) => setReportSchedule({ ...reportSchedule, outputFolder: e.target.value })}
+                placeholder="e.g., C:\Reports\Morning"
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:border-blue-500"
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Relative folders are created under the project root
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-4 mt-4 text-sm text-slate-700 dark:text-slate-300">
+            {(['csv', 'xlsx', 'pdf'] as ReportFormat[]).map(format => (
+              <label key={format} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={reportSchedule.formats.includes(format)}
+                  onChange={(e) => setReportSchedule({
+                    ...reportSchedule,
+                    formats: e.target.checked
+                      ? [...reportSchedule.formats, format]
+                      : reportSchedule.formats.filter(f => f !== format)
+                  })}
+                />
+                {format.toUpperCase()}
+              </label>
+            ))}
           </div>
         </div>
 
@@ -696,6 +1136,20 @@ export default function PISystemConfig({ onConfigured }: PIConfigProps) {
             )}
             {isLoading ? 'Testing...' : 'Test Connection'}
           </button>
+
+          <button
+            type="button"
+            onClick={handleRebuildStructure}
+            disabled={isLoading}
+            className="flex-1 bg-slate-600 hover:bg-slate-700 disabled:bg-slate-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+          >
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            {isLoading ? 'Rebuilding...' : 'Rebuild Structure'}
+          </button>
         </div>
 
         {/* Test Results */}
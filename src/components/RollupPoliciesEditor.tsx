@@ -0,0 +1,160 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { AlarmRuleScope, RollupMethod, RollupPolicy } from '@/types/pi-system';
+
+interface RollupPoliciesEditorProps {
+  policies: RollupPolicy[];
+  onChange: (policies: RollupPolicy[]) => void;
+}
+
+const METHOD_OPTIONS: Array<{ value: RollupMethod; label: string }> = [
+  { value: 'worstOf', label: 'Worst of wells' },
+  { value: 'percentage', label: 'Percentage of wells' },
+  { value: 'productionWeighted', label: 'Weighted by production' }
+];
+
+const inputClass = 'w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:border-blue-500';
+
+// Thresholds are percentages; empty inputs read as 0
+const parsePercent = (value: string): number => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? 0 : Math.min(100, Math.max(0, parsed));
+};
+
+export default function RollupPoliciesEditor({ policies, onChange }: RollupPoliciesEditorProps) {
+  const updatePolicy = (index: number, changes: Partial<RollupPolicy>) => {
+    onChange(policies.map((policy, i) => (i === index ? { ...policy, ...changes } : policy)));
+  };
+
+  const addPolicy = () => {
+    onChange([
+      ...policies,
+      {
+        id: `rollup-${Date.now()}`,
+        scope: 'wellpad',
+        method: 'percentage',
+        alertPercent: 25,
+        warningPercent: 10,
+        ignoreShelved: true,
+        enabled: true
+      }
+    ]);
+  };
+
+  const removePolicy = (index: number) => {
+    onChange(policies.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {policies.length === 0 && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No roll-up policies configured - every wellpad shows its worst well.</p>
+      )}
+
+      {policies.map((policy, index) => (
+        <div key={policy.id} className="p-3 border border-slate-200 dark:border-slate-600 rounded-lg space-y-2">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Method</label>
+              <select
+                value={policy.method}
+                onChange={(e) => updatePolicy(index, { method: e.target.value as RollupMethod })}
+                className={inputClass}
+              >
+                {METHOD_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Scope</label>
+              <select
+                value={policy.scope}
+                onChange={(e) => updatePolicy(index, { scope: e.target.value as AlarmRuleScope })}
+                className={inputClass}
+              >
+                <option value="global">All wellpads</option>
+                <option value="wellpad">Wellpad</option>
+                <option value="template">Wellpad template</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">
+                {policy.scope === 'wellpad' ? 'Wellpad name' : policy.scope === 'template' ? 'Template name' : 'Scope value'}
+              </label>
+              <input
+                type="text"
+                value={policy.scopeValue || ''}
+                disabled={policy.scope === 'global'}
+                onChange={(e) => updatePolicy(index, { scopeValue: e.target.value })}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </div>
+            <div className="flex items-center justify-end gap-3">
+              <label className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={policy.enabled}
+                  onChange={(e) => updatePolicy(index, { enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+              <button
+                type="button"
+                onClick={() => removePolicy(index)}
+                className="p-1 text-red-600 hover:bg-red-50 rounded"
+                title="Remove policy"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 items-end">
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Alert at (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={policy.alertPercent}
+                disabled={policy.method === 'worstOf'}
+                onChange={(e) => updatePolicy(index, { alertPercent: parsePercent(e.target.value) })}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Warning at (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={policy.warningPercent}
+                disabled={policy.method === 'worstOf'}
+                onChange={(e) => updatePolicy(index, { warningPercent: parsePercent(e.target.value) })}
+                className={`${inputClass} disabled:opacity-50`}
+              />
+            </div>
+            <label className="col-span-2 flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={policy.ignoreShelved}
+                onChange={(e) => updatePolicy(index, { ignoreShelved: e.target.checked })}
+              />
+              Ignore wells whose alarms are all shelved
+            </label>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addPolicy}
+        className="flex items-center gap-2 px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-200 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add Policy
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import React from 'react';
+import { Plus, Trash2, X, ChevronLeft } from 'lucide-react';
+import { AttributeMapping, TemplateMapping } from '@/types/pi-system';
+import { parseTemplateNames } from '@/services/well-mapping';
+
+interface TemplateMappingsEditorProps {
+  templateMappings: TemplateMapping[];
+  attributeMapping: AttributeMapping;
+  // Comma-separated template filter from the connection settings
+  templateFilter: string;
+  calculatedAttributeKeys?: string[];
+  onChange: (templateMappings: TemplateMapping[]) => void;
+}
+
+const inputClass = 'w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:border-blue-500';
+
+export default function TemplateMappingsEditor({ templateMappings, attributeMapping, templateFilter, calculatedAttributeKeys = [], onChange }: TemplateMappingsEditorProps) {
+  const filterNames = parseTemplateNames(templateFilter).map(name => name.toLowerCase());
+  const tileKeys = [...Object.keys(attributeMapping), 'planDeviation', ...calculatedAttributeKeys];
+
+  const updateTemplate = (index: number, changes: Partial<TemplateMapping>) => {
+    onChange(templateMappings.map((templateMapping, i) => (i === index ? { ...templateMapping, ...changes } : templateMapping)));
+  };
+
+  // An undefined name inherits the global mapping, an empty one leaves the key unmapped
+  const updateOverride = (index: number, settingsKey: string, piAfAttributeName: string | undefined) => {
+    const overrides: Partial<AttributeMapping> = { ...templateMappings[index].attributeMapping };
+    if (piAfAttributeName === undefined) {
+      delete overrides[settingsKey as keyof AttributeMapping];
+    } else {
+      overrides[settingsKey as keyof AttributeMapping] = piAfAttributeName;
+    }
+    updateTemplate(index, { attributeMapping: overrides });
+  };
+
+  const moveTileAttribute = (index: number, position: number) => {
+    const tileAttributes = [...templateMappings[index].tileAttributes];
+    [tileAttributes[position - 1], tileAttributes[position]] = [tileAttributes[position], tileAttributes[position - 1]];
+    updateTemplate(index, { tileAttributes });
+  };
+
+  const addTemplate = () => {
+    onChange([...templateMappings, { templateName: '', attributeMapping: {}, tileAttributes: [] }]);
+  };
+
+  const removeTemplate = (index: number) => {
+    onChange(templateMappings.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {templateMappings.length === 0 && (
+        <p className="text-sm text-slate-500 dark:text-slate-400">No template mappings configured - every well uses the mapping above.</p>
+      )}
+
+      {templateMappings.map((templateMapping, index) => {
+        const templateName = templateMapping.templateName.trim();
+        const isDuplicate = templateMappings.some((other, i) => i !== index && other.templateName.trim().toLowerCase() === templateName.toLowerCase());
+        const isFiltered = filterNames.length > 0 && templateName && !filterNames.includes(templateName.toLowerCase());
+
+        return (
+          <div key={index} className="p-3 border border-slate-200 dark:border-slate-600 rounded-lg space-y-3">
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <label className="block text-xs text-slate-500 mb-1">Template Name</label>
+                <input
+                  type="text"
+                  value={templateMapping.templateName}
+                  onChange={(e) => updateTemplate(index, { templateName: e.target.value })}
+                  placeholder="e.g., GasLiftWell"
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => removeTemplate(index)}
+                className="p-1 text-red-600 hover:bg-red-50 rounded"
+                title="Remove template mapping"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {!templateName && <p className="text-xs text-red-600">Template name is required</p>}
+            {isDuplicate && <p className="text-xs text-red-600">Template &quot;{templateName}&quot; is mapped more than once</p>}
+            {isFiltered && (
+              <p className="text-xs text-yellow-600">Template &quot;{templateName}&quot; is not in the template filter, so its wells are not loaded</p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {Object.keys(attributeMapping).map(settingsKey => {
+                const override = templateMapping.attributeMapping[settingsKey as keyof AttributeMapping];
+                const isUnmapped = override === '';
+
+                return (
+                  <div key={settingsKey}>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="text-xs text-slate-500 font-mono">{settingsKey}</label>
+                      <label className="flex items-center gap-1 text-xs text-slate-500">
+                        <input
+                          type="checkbox"
+                          checked={isUnmapped}
+                          onChange={(e) => updateOverride(index, settingsKey, e.target.checked ? '' : undefined)}
+                        />
+                        Not mapped
+                      </label>
+                    </div>
+                    <input
+                      type="text"
+                      value={override || ''}
+                      onChange={(e) => updateOverride(index, settingsKey, e.target.value || undefined)}
+                      placeholder={isUnmapped ? 'Not mapped' : attributeMapping[settingsKey as keyof AttributeMapping] || 'Not mapped'}
+                      disabled={isUnmapped}
+                      className={`${inputClass} disabled:opacity-50`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div>
+              <label className="block text-xs text-slate-500 mb-1">Tile Attributes <span className="text-slate-400">(in display order; none shows every value)</span></label>
+              <div className="flex flex-wrap items-center gap-2">
+                {templateMapping.tileAttributes.map((settingsKey, position) => (
+                  <span key={settingsKey} className="flex items-center gap-1 px-2 py-0.5 text-xs font-mono bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded">
+                    {position > 0 && (
+                      <button type="button" onClick={() => moveTileAttribute(index, position)} title="Move earlier">
+                        <ChevronLeft className="w-3 h-3" />
+                      </button>
+                    )}
+                    {settingsKey}
+                    <button
+                      type="button"
+                      onClick={() => updateTemplate(index, { tileAttributes: templateMapping.tileAttributes.filter(key => key !== settingsKey) })}
+                      title="Remove from tile"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && updateTemplate(index, { tileAttributes: [...templateMapping.tileAttributes, e.target.value] })}
+                  className="px-2 py-0.5 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-xs"
+                >
+                  <option value="">Add…</option>
+                  {tileKeys.filter(key => !templateMapping.tileAttributes.includes(key)).map(key => (
+                    <option key={key} value={key}>{key}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={addTemplate}
+        className="flex items-center gap-2 px-3 py-1 text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-200 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add Template Mapping
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Ruler } from 'lucide-react';
+import { UnitPreferences, UnitSystem } from '@/types/pi-system';
+import { ATTRIBUTE_CONFIG } from './DynamicWellTile';
+import {
+  UNIT_SYSTEM_LABELS,
+  getConvertibleAttributes,
+  getDisplayUnit,
+  getUnitLabel,
+  getUnitOptions,
+  saveUnitPreferences
+} from '@/services/unit-conversion';
+
+interface UnitSystemSelectorProps {
+  preferences: UnitPreferences;
+  onChange: (preferences: UnitPreferences) => void;
+}
+
+const selectClass = 'w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-900 dark:text-white text-sm focus:outline-none focus:border-blue-500';
+
+export default function UnitSystemSelector({ preferences, onChange }: UnitSystemSelectorProps) {
+  // Preferences are per browser, so every change is saved straight away
+  const updatePreferences = (next: UnitPreferences) => {
+    saveUnitPreferences(next);
+    onChange(next);
+  };
+
+  const setSystem = (system: UnitSystem) => {
+    updatePreferences({ ...preferences, system });
+  };
+
+  const setOverride = (settingsKey: string, unit: string) => {
+    const overrides = { ...preferences.overrides };
+    if (unit) {
+      overrides[settingsKey] = unit;
+    } else {
+      delete overrides[settingsKey];
+    }
+    updatePreferences({ ...preferences, overrides });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <Ruler className="w-4 h-4 text-slate-500" />
+        <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Units</span>
+        <div className="flex rounded-lg border border-slate-300 overflow-hidden">
+          {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map(system => (
+            <button
+              key={system}
+              onClick={() => setSystem(system)}
+              className={`px-3 py-1 text-sm transition-colors ${
+                preferences.system === system ? 'bg-blue-600 text-white' : 'bg-white text-slate-700 hover:bg-slate-50'
+              }`}
+            >
+              {UNIT_SYSTEM_LABELS[system]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {getConvertibleAttributes().map(settingsKey => {
+          const config = ATTRIBUTE_CONFIG[settingsKey as keyof typeof ATTRIBUTE_CONFIG];
+          const systemUnit = getDisplayUnit(settingsKey, { ...preferences, overrides: {} });
+
+          return (
+            <div key={settingsKey}>
+              <label className="block text-xs text-slate-500 mb-1">{config?.label || settingsKey}</label>
+              <select
+                value={preferences.overrides[settingsKey] || ''}
+                onChange={(e) => setOverride(settingsKey, e.target.value)}
+                className={selectClass}
+              >
+                <option value="">System default ({getUnitLabel(systemUnit)})</option>
+                {getUnitOptions(settingsKey).map(unit => (
+                  <option key={unit} value={unit}>{getUnitLabel(unit)}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, TrendingUp } from 'lucide-react';
+import { WellData, WellHistory, HistoryPoint, HistoryRange, HistoryRetrievalMode, HISTORY_RANGES, UnitPreferences, DEFAULT_UNIT_PREFERENCES } from '@/types/pi-system';
+import { ATTRIBUTE_CONFIG } from './DynamicWellTile';
+import { convertAttributeValue } from '@/services/unit-conversion';
+
+interface WellHistoryChartProps {
+  well: WellData;
+  onClose: () => void;
+  unitPreferences?: UnitPreferences;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 8;
+
+// Ranges short enough to chart every recorded value; longer ones are interpolated at the range's interval
+const RECORDED_RANGES: HistoryRange[] = ['1h'];
+
+const MODE_OPTIONS: Array<{ value: HistoryRetrievalMode | 'auto'; label: string }> = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'recorded', label: 'Recorded' },
+  { value: 'interpolated', label: 'Interpolated' }
+];
+
+// Build an SVG polyline path scaled to the chart area
+const buildPolyline = (points: HistoryPoint[], min: number, max: number) => {
+  if (points.length === 0) return '';
+  const start = new Date(points[0].timestamp).getTime();
+  const end = new Date(points[points.length - 1].timestamp).getTime();
+  const timeSpan = end - start || 1;
+  const valueSpan = max - min || 1;
+
+  return points.map(point => {
+    const x = CHART_PADDING + ((new Date(point.timestamp).getTime() - start) / timeSpan) * (CHART_WIDTH - 2 * CHART_PADDING);
+    const y = CHART_HEIGHT - CHART_PADDING - ((point.value - min) / valueSpan) * (CHART_HEIGHT - 2 * CHART_PADDING);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(' ');
+};
+
+export default function WellHistoryChart({ well, onClose, unitPreferences = DEFAULT_UNIT_PREFERENCES }: WellHistoryChartProps) {
+  const [range, setRange] = useState<HistoryRange>('24h');
+  const [modeChoice, setModeChoice] = useState<HistoryRetrievalMode | 'auto'>('auto');
+  const [history, setHistory] = useState<WellHistory | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string>('oilRate');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const autoMode: HistoryRetrievalMode = RECORDED_RANGES.includes(range) ? 'recorded' : 'interpolated';
+  const retrievalMode = modeChoice === 'auto' ? autoMode : modeChoice;
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/pi-system/history?wellId=${encodeURIComponent(well.id)}&range=${range}&mode=${retrievalMode}`);
+        const result = await response.json();
+
+        if (result.success) {
+          setHistory(result.data);
+        } else {
+          setError(result.error || 'Failed to load history');
+        }
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : String(loadError));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [well.id, range, retrievalMode]);
+
+  const seriesKeys = history ? Object.keys(history.series).filter(key => history.series[key].length > 0) : [];
+  const activeKey = seriesKeys.includes(selectedKey) ? selectedKey : seriesKeys[0];
+  const points = activeKey && history ? history.series[activeKey] : [];
+  const values = points.map(p => p.value);
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 0;
+  const config = activeKey ? ATTRIBUTE_CONFIG[activeKey as keyof typeof ATTRIBUTE_CONFIG] : undefined;
+  // History comes back in the PI unit; only the labels are converted since the line shape doesn't change
+  const sourceUnit = activeKey ? well.attributeInfo?.[activeKey]?.units : undefined;
+  const convertedMin = activeKey ? convertAttributeValue(activeKey, min, sourceUnit, unitPreferences) : { value: min, unit: '' };
+  const convertedMax = activeKey ? convertAttributeValue(activeKey, max, sourceUnit, unitPreferences) : { value: max, unit: '' };
+  const displayUnit = convertedMax.unit || config?.unit;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 w-full max-w-3xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <TrendingUp className="w-5 h-5 text-blue-600" />
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white">{well.name} Trends</h3>
+            {well.wellPadName && (
+              <span className="text-sm text-slate-500 dark:text-slate-400">({well.wellPadName})</span>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700">
+            <X className="w-5 h-5 text-slate-500" />
+          </button>
+        </div>
+
+        {/* Range and Retrieval Mode Selectors */}
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          {(Object.keys(HISTORY_RANGES) as HistoryRange[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setRange(key)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                range === key ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+              }`}
+            >
+              {key}
+            </button>
+          ))}
+          <select
+            value={modeChoice}
+            onChange={(e) => setModeChoice(e.target.value as HistoryRetrievalMode | 'auto')}
+            className="ml-auto px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 text-sm"
+            title="Recorded returns every archived value; interpolated samples the range at a fixed interval"
+          >
+            {MODE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.value === 'auto' ? `Auto (${autoMode})` : option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Attribute Selector */}
+        {seriesKeys.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {seriesKeys.map(key => (
+              <button
+                key={key}
+                onClick={() => setSelectedKey(key)}
+                className={`px-2 py-1 rounded text-xs border transition-colors ${
+                  activeKey === key ? 'border-blue-500 text-blue-700 bg-blue-50' : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {ATTRIBUTE_CONFIG[key as keyof typeof ATTRIBUTE_CONFIG]?.label || key}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Chart */}
+        <div className="h-56 flex items-center justify-center border border-slate-200 dark:border-slate-700 rounded-lg">
+          {isLoading ? (
+            <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+          ) : error ? (
+            <div className="text-sm text-red-600">{error}</div>
+          ) : points.length === 0 ? (
+            <div className="text-sm text-slate-500">No historical data available for the mapped attributes</div>
+          ) : (
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-full" preserveAspectRatio="none">
+              <polyline
+                points={buildPolyline(points, min, max)}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth={2}
+                className="text-blue-600"
+              />
+            </svg>
+          )}
+        </div>
+
+        {/* Chart Footer */}
+        {points.length > 0 && !isLoading && (
+          <div className="flex justify-between mt-2 text-xs text-slate-500 dark:text-slate-400">
+            <span>{new Date(points[0].timestamp).toLocaleString()}</span>
+            <span>
+              Min {convertedMin.value.toLocaleString()} / Max {convertedMax.value.toLocaleString()}{displayUnit && ` ${displayUnit}`}
+              {' '}({points.length} {history?.retrievalMode} values)
+            </span>
+            <span>{new Date(points[points.length - 1].timestamp).toLocaleString()}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts; background jobs that must run without a dashboard open start here
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { reportScheduler } = await import('./services/report-scheduler');
+    reportScheduler.start();
+  }
+}
@@ -0,0 +1,132 @@
+// AF Metadata Cache
+// Keeps resolved AF structure (endpoint, wellpad/well elements, attribute WebIds) between loads,
+// so steady-state refreshes only read values
+
+import { PIServerConfig, LoadTruncationWarning, HierarchyAncestor, DEFAULT_STRUCTURE_CACHE_MINUTES } from '@/types/pi-system';
+
+export interface CachedAFElement {
+  Name: string;
+  Path: string;
+  TemplateName?: string;
+  WebId?: string;
+}
+
+export interface CachedAFAttribute {
+  Name: string;
+  Path: string;
+  Type?: string;
+  WebId?: string;
+  DefaultUnitsNameAbbreviation?: string;
+  CategoryNames?: string[];
+}
+
+export interface AFStructure {
+  workingEndpoint: string;
+  padElements: CachedAFElement[];
+  wellsByPad: { [padWebId: string]: CachedAFElement[] };
+  // Fields and areas above each wellpad when the hierarchy is enabled
+  ancestorsByPad?: { [padWebId: string]: HierarchyAncestor[] };
+  attributesByWell: { [wellWebId: string]: CachedAFAttribute[] };
+  warnings: LoadTruncationWarning[];
+  // Child attributes were walked too, for mappings that name attribute paths
+  attributeHierarchy?: boolean;
+  builtAt: string;
+}
+
+export interface AFStructureCacheStatus {
+  cached: boolean;
+  builtAt?: string;
+  expiresAt?: string;
+  wellPadCount: number;
+  wellCount: number;
+  attributeCount: number;
+}
+
+interface CacheEntry {
+  structure: AFStructure;
+  expiresAt: number;
+}
+
+export class AFMetadataCache {
+  private entries = new Map<string, CacheEntry>();
+
+  /**
+   * Cached structure for this configuration, or null when missing or expired
+   */
+  get(config: PIServerConfig): AFStructure | null {
+    const key = this.getKey(config);
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() >= entry.expiresAt) {
+      console.log('⌛ AF structure cache expired');
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.structure;
+  }
+
+  /**
+   * Store a freshly resolved structure; a TTL of 0 disables caching
+   */
+  set(config: PIServerConfig, structure: AFStructure): void {
+    const ttlMinutes = this.getTtlMinutes(config);
+    if (ttlMinutes <= 0) return;
+
+    this.entries.set(this.getKey(config), {
+      structure,
+      expiresAt: Date.now() + ttlMinutes * 60 * 1000
+    });
+    console.log(`🗂️ Cached AF structure for ${ttlMinutes} minutes`);
+  }
+
+  /**
+   * Drop every cached structure so the next load walks AF again
+   */
+  invalidate(): void {
+    this.entries.clear();
+    console.log('🗑️ AF structure cache cleared');
+  }
+
+  /**
+   * Summary of the cached structure for this configuration
+   */
+  getStatus(config?: PIServerConfig): AFStructureCacheStatus {
+    const entry = config ? this.entries.get(this.getKey(config)) : undefined;
+    if (!entry || Date.now() >= entry.expiresAt) {
+      return { cached: false, wellPadCount: 0, wellCount: 0, attributeCount: 0 };
+    }
+
+    const { structure } = entry;
+    return {
+      cached: true,
+      builtAt: structure.builtAt,
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+      wellPadCount: structure.padElements.length,
+      wellCount: Object.values(structure.wellsByPad).reduce((sum, wells) => sum + wells.length, 0),
+      attributeCount: Object.values(structure.attributesByWell).reduce((sum, attributes) => sum + attributes.length, 0)
+    };
+  }
+
+  private getTtlMinutes(config: PIServerConfig): number {
+    return config.structureCacheMinutes ?? DEFAULT_STRUCTURE_CACHE_MINUTES;
+  }
+
+  // Only the settings that change which elements are walked; the attribute mapping is applied per load
+  private getKey(config: PIServerConfig): string {
+    return JSON.stringify([
+      config.piWebApiServerName,
+      config.afServerName,
+      config.afDatabaseName,
+      config.parentElementPath,
+      config.templateName,
+      config.maxWellPads,
+      config.maxWellsPerPad,
+      config.hierarchy
+    ]);
+  }
+}
+
+// Export singleton instance
+export const afMetadataCache = new AFMetadataCache();
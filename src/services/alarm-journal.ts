@@ -0,0 +1,247 @@
+import fs from 'fs';
+import path from 'path';
+import { AlarmAction, AlarmEvent, WellData } from '@/types/pi-system';
+
+interface AlarmJournalFile {
+  events: AlarmEvent[];
+  lastUpdated: string;
+}
+
+export interface AlarmActionRequest {
+  action: AlarmAction;
+  author?: string;
+  comment?: string;
+  shelveMinutes?: number;
+}
+
+// Cleared events beyond this count are dropped oldest-first; active events are always kept
+const MAX_CLEARED_EVENTS = 1000;
+
+const DEFAULT_SHELVE_MINUTES = 60;
+
+export class AlarmJournal {
+  private journalPath: string;
+  private events: AlarmEvent[];
+
+  constructor() {
+    // Store the journal next to pi-config.json in the project root
+    this.journalPath = path.join(process.cwd(), 'pi-alarms.json');
+    this.events = this.loadJournal();
+  }
+
+  /**
+   * Load journal from file
+   */
+  private loadJournal(): AlarmEvent[] {
+    try {
+      if (fs.existsSync(this.journalPath)) {
+        const journalData = fs.readFileSync(this.journalPath, 'utf8');
+        const parsedJournal = JSON.parse(journalData) as AlarmJournalFile;
+        return Array.isArray(parsedJournal.events) ? parsedJournal.events : [];
+      }
+    } catch (error) {
+      console.error('Error loading alarm journal:', error);
+    }
+
+    return [];
+  }
+
+  /**
+   * Save journal to file
+   */
+  private saveJournal(): void {
+    try {
+      const journal: AlarmJournalFile = {
+        events: this.events,
+        lastUpdated: new Date().toISOString()
+      };
+      fs.writeFileSync(this.journalPath, JSON.stringify(journal, null, 2));
+    } catch (error) {
+      console.error('Error saving alarm journal:', error);
+    }
+  }
+
+  /**
+   * Record raise/clear transitions from the latest well statuses.
+   * Wells missing from the update keep their open alarms untouched.
+   */
+  recordWellStates(wells: WellData[], now: Date = new Date()): { raised: number; cleared: number } {
+    const timestamp = now.toISOString();
+    let raised = 0;
+    let cleared = 0;
+
+    wells.forEach(well => {
+      const conditions = getActiveConditions(well);
+      const openEvents = this.events.filter(event => event.wellId === well.id && !event.clearedAt);
+
+      openEvents.forEach(event => {
+        const current = conditions.get(getEventKey(event));
+        if (current) {
+          // Still active - keep the latest triggering value for display
+          event.value = current.value;
+          conditions.delete(getEventKey(event));
+        } else {
+          event.clearedAt = timestamp;
+          cleared++;
+        }
+      });
+
+      conditions.forEach(condition => {
+        this.events.push({
+          ...condition,
+          id: `alarm-${now.getTime()}-${this.events.length}`,
+          wellId: well.id,
+          wellName: well.name,
+          wellPadName: well.wellPadName,
+          raisedAt: timestamp,
+          comments: []
+        });
+        raised++;
+      });
+    });
+
+    if (raised > 0 || cleared > 0) {
+      this.pruneClearedEvents();
+      this.saveJournal();
+      console.log(`🚨 Alarm journal: ${raised} raised, ${cleared} cleared`);
+    }
+
+    return { raised, cleared };
+  }
+
+  /**
+   * Get journal events, newest first
+   */
+  getEvents(options: { activeOnly?: boolean; wellId?: string; limit?: number } = {}): AlarmEvent[] {
+    const events = this.events
+      .filter(event => !options.activeOnly || !event.clearedAt)
+      .filter(event => !options.wellId || event.wellId === options.wellId)
+      .sort((a, b) => b.raisedAt.localeCompare(a.raisedAt));
+
+    return options.limit ? events.slice(0, options.limit) : events;
+  }
+
+  /**
+   * Wells whose active alarms are all shelved, for roll-up policies that ignore them
+   */
+  getShelvedWellIds(now: Date = new Date()): string[] {
+    const activeByWell = new Map<string, AlarmEvent[]>();
+    this.events.filter(event => !event.clearedAt).forEach(event => {
+      activeByWell.set(event.wellId, [...(activeByWell.get(event.wellId) || []), event]);
+    });
+
+    return Array.from(activeByWell.entries())
+      .filter(([, events]) => events.every(event => isAlarmShelved(event, now.getTime())))
+      .map(([wellId]) => wellId);
+  }
+
+  /**
+   * Get a single event by id
+   */
+  getEvent(id: string): AlarmEvent | undefined {
+    return this.events.find(event => event.id === id);
+  }
+
+  /**
+   * Acknowledge, shelve or unshelve an event with an optional operator comment
+   */
+  applyAction(id: string, request: AlarmActionRequest, now: Date = new Date()): AlarmEvent {
+    const event = this.getEvent(id);
+    if (!event) {
+      throw new Error(`Alarm event '${id}' not found`);
+    }
+
+    const timestamp = now.toISOString();
+
+    switch (request.action) {
+      case 'acknowledge':
+        if (event.acknowledgedAt) {
+          throw new Error('Alarm is already acknowledged');
+        }
+        event.acknowledgedAt = timestamp;
+        event.acknowledgedBy = request.author;
+        break;
+      case 'shelve': {
+        if (event.clearedAt) {
+          throw new Error('Cleared alarms cannot be shelved');
+        }
+        const minutes = request.shelveMinutes && request.shelveMinutes > 0 ? request.shelveMinutes : DEFAULT_SHELVE_MINUTES;
+        event.shelvedUntil = new Date(now.getTime() + minutes * 60 * 1000).toISOString();
+        break;
+      }
+      case 'unshelve':
+        event.shelvedUntil = undefined;
+        break;
+      default:
+        throw new Error(`Unsupported alarm action '${request.action}'`);
+    }
+
+    event.comments.push({
+      action: request.action,
+      author: request.author,
+      text: request.comment,
+      timestamp
+    });
+
+    this.saveJournal();
+    console.log(`📝 Alarm ${request.action}: ${event.wellName} - ${event.message}`);
+
+    return event;
+  }
+
+  // Drop the oldest cleared events once the journal grows past its cap
+  private pruneClearedEvents(): void {
+    const clearedEvents = this.events
+      .filter(event => event.clearedAt)
+      .sort((a, b) => (a.clearedAt || '').localeCompare(b.clearedAt || ''));
+
+    const excess = clearedEvents.length - MAX_CLEARED_EVENTS;
+    if (excess <= 0) return;
+
+    const removed = new Set(clearedEvents.slice(0, excess).map(event => event.id));
+    this.events = this.events.filter(event => !removed.has(event.id));
+  }
+}
+
+type AlarmCondition = Pick<AlarmEvent, 'severity' | 'ruleId' | 'limit' | 'attribute' | 'value' | 'threshold' | 'message'>;
+
+// One condition per breached rule limit; wells without reasons fall back to their overall status
+function getActiveConditions(well: WellData): Map<string, AlarmCondition> {
+  const conditions = new Map<string, AlarmCondition>();
+
+  if (well.statusReasons && well.statusReasons.length > 0) {
+    well.statusReasons.forEach(reason => {
+      const condition: AlarmCondition = {
+        severity: reason.severity,
+        ruleId: reason.ruleId,
+        limit: reason.limit,
+        attribute: reason.attribute,
+        value: reason.value,
+        threshold: reason.threshold,
+        message: reason.message
+      };
+      conditions.set(getEventKey(condition), condition);
+    });
+  } else if (well.health === 'alert' || well.health === 'warning') {
+    const condition: AlarmCondition = {
+      severity: well.health,
+      message: `Well health ${well.health}`
+    };
+    conditions.set(getEventKey(condition), condition);
+  }
+
+  return conditions;
+}
+
+// Escalating from high to high-high clears one event and raises another
+function getEventKey(condition: Pick<AlarmEvent, 'ruleId' | 'limit' | 'severity'>): string {
+  return condition.ruleId ? `${condition.ruleId}:${condition.limit}` : `status:${condition.severity}`;
+}
+
+// Shelved alarms stay in the journal but are hidden from the active list until the shelve expires
+export function isAlarmShelved(event: AlarmEvent, now: number = Date.now()): boolean {
+  return !!event.shelvedUntil && new Date(event.shelvedUntil).getTime() > now;
+}
+
+// Export singleton instance
+export const alarmJournal = new AlarmJournal();
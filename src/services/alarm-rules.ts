@@ -0,0 +1,188 @@
+// Alarm Rules Engine
+// Single place where well health status is derived from configured alarm limits
+
+import { AlarmRule, AlarmLimit, AlarmSeverity, StatusReason, DEFAULT_ALARM_RULES } from '@/types/pi-system';
+import { roundForDisplay } from './unit-conversion';
+
+export interface AlarmEvaluationContext {
+  wellId: string;
+  wellPadName?: string;
+  templateName?: string;
+}
+
+export interface AlarmEvaluationResult {
+  status: 'good' | 'warning' | 'alert';
+  reasons: StatusReason[];
+}
+
+interface LimitCheck {
+  limit: AlarmLimit;
+  threshold: number;
+  severity: AlarmSeverity;
+  direction: 'high' | 'low';
+}
+
+// Tracks the limit a rule is breaching so deadband and delay-on survive between evaluations
+interface RuleState {
+  limit: AlarmLimit;
+  since: number;
+  active: boolean;
+}
+
+/**
+ * Deadband and delay-on state of one consumer's wells. Every consumer that loads wells repeatedly
+ * (the stream hub, the load-data route, a dashboard's data source) keeps its own, so states only
+ * advance on that consumer's samples. Pending and latched limits are forgotten when the rules change.
+ */
+export class AlarmRuleState {
+  private states = new Map<string, RuleState>();
+  private rules: AlarmRule[] | null = null;
+  private rulesSignature = '';
+
+  // Compared by reference first; a rule set loaded again from the config is compared by content
+  useRules(rules: AlarmRule[]): void {
+    if (rules === this.rules) return;
+    const signature = JSON.stringify(rules);
+    if (this.rules && signature !== this.rulesSignature) {
+      this.states.clear();
+    }
+    this.rules = rules;
+    this.rulesSignature = signature;
+  }
+
+  get(key: string): RuleState | undefined {
+    return this.states.get(key);
+  }
+
+  set(key: string, state: RuleState): void {
+    this.states.set(key, state);
+  }
+
+  delete(key: string): void {
+    this.states.delete(key);
+  }
+
+  /**
+   * Forget every pending and latched limit
+   */
+  reset(): void {
+    this.states.clear();
+  }
+}
+
+const SCOPE_PRECEDENCE = { wellpad: 3, template: 2, global: 1 };
+
+const LIMIT_LABELS: { [key in AlarmLimit]: string } = {
+  highHigh: 'high-high',
+  high: 'high',
+  low: 'low',
+  lowLow: 'low-low'
+};
+
+// Calculate plan deviation in percent, treating a missing plan as on-target
+export function calculatePlanDeviation(oilRate: number, planTarget: number | null | undefined): number {
+  const safePlanTarget = planTarget && planTarget > 0 ? planTarget : oilRate;
+  return safePlanTarget > 0 ? Number(((oilRate - safePlanTarget) / safePlanTarget * 100).toFixed(2)) : 0;
+}
+
+// Pick the most specific enabled rule per attribute for this well
+export function getApplicableRules(rules: AlarmRule[], context: AlarmEvaluationContext): AlarmRule[] {
+  const byAttribute = new Map<string, AlarmRule[]>();
+
+  rules.forEach(rule => {
+    if (!rule.enabled) return;
+    if (rule.scope === 'wellpad' && !matchesScope(rule.scopeValue, context.wellPadName)) return;
+    if (rule.scope === 'template' && !matchesScope(rule.scopeValue, context.templateName)) return;
+
+    const existing = byAttribute.get(rule.attribute) || [];
+    byAttribute.set(rule.attribute, [...existing, rule]);
+  });
+
+  const applicable: AlarmRule[] = [];
+  byAttribute.forEach(attributeRules => {
+    const topPrecedence = Math.max(...attributeRules.map(rule => SCOPE_PRECEDENCE[rule.scope]));
+    applicable.push(...attributeRules.filter(rule => SCOPE_PRECEDENCE[rule.scope] === topPrecedence));
+  });
+
+  return applicable;
+}
+
+// Evaluate alarm rules against a well's values and return its health status with reasons.
+// Without the consumer's state each sample is judged alone, so delay-on limits never become active.
+export function evaluateAlarmRules(
+  values: { [attribute: string]: number | null | undefined },
+  context: AlarmEvaluationContext,
+  rules: AlarmRule[] = DEFAULT_ALARM_RULES,
+  now: number = Date.now(),
+  ruleStates: AlarmRuleState = new AlarmRuleState()
+): AlarmEvaluationResult {
+  const reasons: StatusReason[] = [];
+  ruleStates.useRules(rules);
+
+  getApplicableRules(rules, context).forEach(rule => {
+    const stateKey = `${context.wellId}::${rule.id}`;
+    const value = values[rule.attribute];
+
+    if (value === null || value === undefined || isNaN(value)) {
+      ruleStates.delete(stateKey);
+      return;
+    }
+
+    const breached = findBreachedLimit(rule, value, ruleStates.get(stateKey));
+    if (!breached) {
+      ruleStates.delete(stateKey);
+      return;
+    }
+
+    const previous = ruleStates.get(stateKey);
+    const since = previous && previous.limit === breached.limit ? previous.since : now;
+    const delayMs = (rule.delayOnSeconds || 0) * 1000;
+    const active = now - since >= delayMs;
+    ruleStates.set(stateKey, { limit: breached.limit, since, active });
+
+    if (active) {
+      reasons.push({
+        ruleId: rule.id,
+        attribute: rule.attribute,
+        limit: breached.limit,
+        severity: breached.severity,
+        value,
+        threshold: breached.threshold,
+        message: `${rule.attribute} ${roundForDisplay(value)} ${breached.direction === 'high' ? 'above' : 'below'} ${LIMIT_LABELS[breached.limit]} limit ${breached.threshold}`
+      });
+    }
+  });
+
+  const status = reasons.some(r => r.severity === 'alert') ? 'alert' :
+                 reasons.some(r => r.severity === 'warning') ? 'warning' : 'good';
+
+  return { status, reasons };
+}
+
+function matchesScope(scopeValue: string | undefined, actual: string | undefined): boolean {
+  return !!scopeValue && !!actual && scopeValue.toLowerCase() === actual.toLowerCase();
+}
+
+// Most severe limits are checked first; an active limit stays latched until the value clears its deadband
+function findBreachedLimit(rule: AlarmRule, value: number, state: RuleState | undefined): LimitCheck | null {
+  const checks: LimitCheck[] = [];
+  if (rule.highHigh !== undefined) checks.push({ limit: 'highHigh', threshold: rule.highHigh, severity: 'alert', direction: 'high' });
+  if (rule.lowLow !== undefined) checks.push({ limit: 'lowLow', threshold: rule.lowLow, severity: 'alert', direction: 'low' });
+  if (rule.high !== undefined) checks.push({ limit: 'high', threshold: rule.high, severity: 'warning', direction: 'high' });
+  if (rule.low !== undefined) checks.push({ limit: 'low', threshold: rule.low, severity: 'warning', direction: 'low' });
+
+  const deadband = rule.deadband || 0;
+
+  for (const check of checks) {
+    const latched = state?.active && state.limit === check.limit;
+    if (check.direction === 'high') {
+      const effective = latched ? check.threshold - deadband : check.threshold;
+      if (value > effective) return check;
+    } else {
+      const effective = latched ? check.threshold + deadband : check.threshold;
+      if (value < effective) return check;
+    }
+  }
+
+  return null;
+}
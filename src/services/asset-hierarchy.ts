@@ -0,0 +1,104 @@
+// Asset Hierarchy
+// Field > Area > Pad > Well levels above the wells: which AF template marks which level,
+// and field/area totals nested over the loaded wellpads. The AF walk itself lives in pi-af-data-source.ts.
+
+import { AssetHierarchy, HierarchyNode, HierarchySettings, HierarchyTotals, DEFAULT_HIERARCHY_SETTINGS, TemplateMapping, WellHealth, WellPadData } from '@/types/pi-system';
+import { MappedElement, getTemplateMapping, parseTemplateNames } from './well-mapping';
+
+// What an element found while walking the hierarchy stands for; folders are walked through
+export type HierarchyElementKind = 'field' | 'area' | 'pad' | 'well' | 'folder';
+
+const HEALTH_SEVERITY: { [health in WellHealth]: number } = {
+  good: 0,
+  warning: 1,
+  alert: 2
+};
+
+const hasTemplate = (element: MappedElement, templates: string) =>
+  parseTemplateNames(templates).some(name => name.toLowerCase() === element.TemplateName?.toLowerCase());
+
+/**
+ * Element levels walked below the parent element; invalid settings fall back to the default
+ */
+export function getMaxHierarchyDepth(settings: HierarchySettings): number {
+  return settings.maxDepth >= 2 ? Math.floor(settings.maxDepth) : DEFAULT_HIERARCHY_SETTINGS.maxDepth;
+}
+
+// With no well template filter, wells are elements whose template has a template mapping,
+// or elements without child elements - a wellpad holds its wells
+function isUnfilteredWell(element: MappedElement, templateMappings: TemplateMapping[] | undefined): boolean {
+  return !!getTemplateMapping(templateMappings, element.TemplateName) || element.HasChildren === false;
+}
+
+/**
+ * Kind of an element below a field, an area or the parent element.
+ * Wells are recognized by the well template filter, or without one by the template mappings and
+ * by having no child elements; with no pad templates, every other element is a wellpad,
+ * otherwise unmatched elements are folders.
+ */
+export function classifyHierarchyElement(
+  element: MappedElement,
+  settings: HierarchySettings,
+  wellTemplateFilter: string,
+  templateMappings?: TemplateMapping[]
+): HierarchyElementKind {
+  if (hasTemplate(element, settings.fieldTemplates)) return 'field';
+  if (hasTemplate(element, settings.areaTemplates)) return 'area';
+  if (parseTemplateNames(wellTemplateFilter).length > 0 ? hasTemplate(element, wellTemplateFilter) : isUnfilteredWell(element, templateMappings)) return 'well';
+  if (!settings.padTemplates.trim() || hasTemplate(element, settings.padTemplates)) return 'pad';
+  return 'folder';
+}
+
+function createTotals(): HierarchyTotals {
+  return {
+    wellPads: 0,
+    wells: 0,
+    producingWells: 0,
+    alertWells: 0,
+    warningWells: 0,
+    status: 'good'
+  };
+}
+
+function addWellPad(totals: HierarchyTotals, wellPad: WellPadData): void {
+  const padHealth: WellHealth = wellPad.status === 'alert' || wellPad.status === 'warning' ? wellPad.status : 'good';
+  totals.wellPads += 1;
+  totals.wells += wellPad.wells.length;
+  totals.producingWells += wellPad.activeWells ?? 0;
+  totals.alertWells += wellPad.wells.filter(well => well.health === 'alert').length;
+  totals.warningWells += wellPad.wells.filter(well => well.health === 'warning').length;
+  if (HEALTH_SEVERITY[padHealth] > HEALTH_SEVERITY[totals.status]) {
+    totals.status = padHealth;
+  }
+}
+
+/**
+ * Fields and areas nested over the wellpads, each with totals of every wellpad below it.
+ * Nodes keep the order their first wellpad was loaded in.
+ */
+export function buildAssetHierarchy(wellPads: WellPadData[]): AssetHierarchy {
+  const hierarchy: AssetHierarchy = { nodes: [], wellPadIds: [], totals: createTotals() };
+  const nodesById = new Map<string, HierarchyNode>();
+
+  wellPads.forEach(wellPad => {
+    let siblings = hierarchy.nodes;
+    let wellPadIds = hierarchy.wellPadIds;
+
+    (wellPad.hierarchy || []).forEach(ancestor => {
+      let node = nodesById.get(ancestor.id);
+      if (!node) {
+        node = { ...ancestor, children: [], wellPadIds: [], totals: createTotals() };
+        nodesById.set(ancestor.id, node);
+        siblings.push(node);
+      }
+      addWellPad(node.totals, wellPad);
+      siblings = node.children;
+      wellPadIds = node.wellPadIds;
+    });
+
+    wellPadIds.push(wellPad.id);
+    addWellPad(hierarchy.totals, wellPad);
+  });
+
+  return hierarchy;
+}
@@ -0,0 +1,440 @@
+// Calculated Attributes
+// Parses and evaluates user-defined expressions such as `gasRate / oilRate` over mapped attribute values.
+// Expressions are parsed into a small syntax tree and never passed to eval or Function.
+
+import { CalculatedAttribute, AttributeValueInfo, AttributeQuality } from '@/types/pi-system';
+
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'reference'; name: string }
+  | { type: 'unary'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '^';
+
+interface Token {
+  kind: 'number' | 'identifier' | 'operator' | 'paren' | 'comma';
+  text: string;
+  position: number;
+}
+
+export class ExpressionError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+// Functions an expression may call, with their allowed argument counts
+const FUNCTIONS: { [name: string]: { minArgs: number; maxArgs: number; apply: (...args: number[]) => number } } = {
+  abs: { minArgs: 1, maxArgs: 1, apply: Math.abs },
+  sqrt: { minArgs: 1, maxArgs: 1, apply: Math.sqrt },
+  round: { minArgs: 1, maxArgs: 1, apply: Math.round },
+  log: { minArgs: 1, maxArgs: 1, apply: Math.log },
+  exp: { minArgs: 1, maxArgs: 1, apply: Math.exp },
+  pow: { minArgs: 2, maxArgs: 2, apply: Math.pow },
+  min: { minArgs: 1, maxArgs: Infinity, apply: Math.min },
+  max: { minArgs: 1, maxArgs: Infinity, apply: Math.max }
+};
+
+// Own entries only, so names inherited from Object.prototype (toString, constructor) are not functions
+function getFunction(name: string) {
+  return Object.hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+}
+
+// Longest expression accepted, so a pasted mistake can't stall the mapping step
+const MAX_EXPRESSION_LENGTH = 500;
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const QUALITY_RANK: { [quality in AttributeQuality]: number } = {
+  good: 0,
+  substituted: 1,
+  questionable: 2,
+  bad: 3
+};
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(expression.slice(i));
+      if (!match) throw new ExpressionError(`Invalid number at position ${i + 1}`, i);
+      tokens.push({ kind: 'number', text: match[0], position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+      tokens.push({ kind: 'identifier', text: match[0], position: i });
+      i += match[0].length;
+    } else if ('+-*/^'.includes(char)) {
+      tokens.push({ kind: 'operator', text: char, position: i });
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', text: char, position: i });
+      i++;
+    } else if (char === ',') {
+      tokens.push({ kind: 'comma', text: char, position: i });
+      i++;
+    } else {
+      throw new ExpressionError(`Unexpected character '${char}' at position ${i + 1}`, i);
+    }
+  }
+
+  return tokens;
+}
+
+// Recursive descent over + - (lowest), * /, unary minus, ^ (right-associative), then primaries
+class ExpressionParser {
+  private tokens: Token[];
+  private index = 0;
+  private length: number;
+
+  constructor(expression: string) {
+    this.tokens = tokenize(expression);
+    this.length = expression.length;
+  }
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError('Expression is empty', 0);
+    }
+    const node = this.parseAdditive();
+    const extra = this.peek();
+    if (extra) {
+      throw new ExpressionError(`Unexpected '${extra.text}' at position ${extra.position + 1}`, extra.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw new ExpressionError('Unexpected end of expression', this.length);
+    return token;
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token?.kind === 'operator' && operators.includes(token.text);
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let node = this.parseMultiplicative();
+    while (this.isOperator('+', '-')) {
+      const operator = this.next().text as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: this.parseMultiplicative() };
+    }
+    return node;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let node = this.parseUnary();
+    while (this.isOperator('*', '/')) {
+      const operator = this.next().text as BinaryOperator;
+      node = { type: 'binary', operator, left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-')) {
+      this.next();
+      return { type: 'unary', operand: this.parseUnary() };
+    }
+    if (this.isOperator('+')) {
+      this.next();
+      return this.parseUnary();
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePrimary();
+    if (this.isOperator('^')) {
+      this.next();
+      return { type: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.kind === 'number') {
+      return { type: 'number', value: parseFloat(token.text) };
+    }
+
+    if (token.kind === 'paren' && token.text === '(') {
+      const node = this.parseAdditive();
+      this.expectClosingParen(token);
+      return node;
+    }
+
+    if (token.kind === 'identifier') {
+      const following = this.peek();
+      if (following?.kind !== 'paren' || following.text !== '(') {
+        return { type: 'reference', name: token.text };
+      }
+
+      const fn = getFunction(token.text);
+      if (!fn) {
+        throw new ExpressionError(`Unknown function '${token.text}'. Available: ${Object.keys(FUNCTIONS).join(', ')}`, token.position);
+      }
+
+      this.next();
+      const args: ExpressionNode[] = [];
+      if (this.peek()?.kind !== 'paren' || this.peek()?.text !== ')') {
+        args.push(this.parseAdditive());
+        while (this.peek()?.kind === 'comma') {
+          this.next();
+          args.push(this.parseAdditive());
+        }
+      }
+      this.expectClosingParen(following);
+
+      if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        throw new ExpressionError(`${token.text}() takes ${fn.minArgs === fn.maxArgs ? fn.minArgs : `at least ${fn.minArgs}`} argument(s)`, token.position);
+      }
+      return { type: 'call', name: token.text, args };
+    }
+
+    throw new ExpressionError(`Unexpected '${token.text}' at position ${token.position + 1}`, token.position);
+  }
+
+  private expectClosingParen(opening: Token) {
+    const token = this.peek();
+    if (token?.kind !== 'paren' || token.text !== ')') {
+      throw new ExpressionError(`Missing ')' for '(' at position ${opening.position + 1}`, opening.position);
+    }
+    this.next();
+  }
+}
+
+/**
+ * Parse an expression into a syntax tree; throws ExpressionError with the failing position
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  if (expression.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+  }
+  return new ExpressionParser(expression).parse();
+}
+
+/**
+ * Attribute keys an expression reads
+ */
+export function getExpressionReferences(node: ExpressionNode, references: Set<string> = new Set()): Set<string> {
+  switch (node.type) {
+    case 'reference':
+      references.add(node.name);
+      break;
+    case 'unary':
+      getExpressionReferences(node.operand, references);
+      break;
+    case 'binary':
+      getExpressionReferences(node.left, references);
+      getExpressionReferences(node.right, references);
+      break;
+    case 'call':
+      node.args.forEach(arg => getExpressionReferences(arg, references));
+      break;
+  }
+  return references;
+}
+
+/**
+ * Evaluate a parsed expression; null when a referenced value is missing or the result is not finite (e.g. x / 0)
+ */
+export function evaluateExpression(node: ExpressionNode, values: { [key: string]: number | undefined }): number | null {
+  const result = evaluateNode(node, values);
+  return result !== null && isFinite(result) ? result : null;
+}
+
+function evaluateNode(node: ExpressionNode, values: { [key: string]: number | undefined }): number | null {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'reference': {
+      const value = values[node.name];
+      return typeof value === 'number' && !isNaN(value) ? value : null;
+    }
+    case 'unary': {
+      const operand = evaluateNode(node.operand, values);
+      return operand === null ? null : -operand;
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, values);
+      const right = evaluateNode(node.right, values);
+      if (left === null || right === null) return null;
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? null : left / right;
+        case '^': return Math.pow(left, right);
+      }
+      return null;
+    }
+    case 'call': {
+      const args = node.args.map(arg => evaluateNode(arg, values));
+      const fn = getFunction(node.name);
+      if (!fn || args.some(arg => arg === null)) return null;
+      return fn.apply(...(args as number[]));
+    }
+  }
+}
+
+interface CompiledCalculation {
+  definition: CalculatedAttribute;
+  node: ExpressionNode;
+  references: string[];
+}
+
+export interface CalculatedAttributeError {
+  key: string;
+  message: string;
+}
+
+// Compiled sets per definitions array; config arrays are reused across loads, so each is parsed once
+const compiledCache = new WeakMap<CalculatedAttribute[], CompiledCalculation[]>();
+
+/**
+ * Check definitions before saving. `baseKeys` are the AttributeMapping keys and derived values expressions may read.
+ */
+export function validateCalculatedAttributes(definitions: CalculatedAttribute[], baseKeys: string[]): CalculatedAttributeError[] {
+  return compile(definitions, baseKeys).errors;
+}
+
+// Parse enabled definitions and order them so each runs after the calculated attributes it reads
+function compile(definitions: CalculatedAttribute[], baseKeys?: string[]): { compiled: CompiledCalculation[]; errors: CalculatedAttributeError[] } {
+  const errors: CalculatedAttributeError[] = [];
+  const parsed = new Map<string, CompiledCalculation>();
+  const reserved = new Set(baseKeys || []);
+
+  definitions.filter(definition => definition.enabled).forEach(definition => {
+    const key = definition.key;
+    if (!KEY_PATTERN.test(key)) {
+      errors.push({ key, message: `Key '${key}' must start with a letter and contain only letters, digits and _` });
+      return;
+    }
+    if (reserved.has(key) || parsed.has(key)) {
+      errors.push({ key, message: `Key '${key}' is already used` });
+      return;
+    }
+
+    try {
+      const node = parseExpression(definition.expression);
+      parsed.set(key, { definition, node, references: Array.from(getExpressionReferences(node)) });
+    } catch (error) {
+      errors.push({ key, message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  if (baseKeys) {
+    parsed.forEach(calculation => {
+      const unknown = calculation.references.filter(reference => !reserved.has(reference) && !parsed.has(reference));
+      if (unknown.length > 0) {
+        errors.push({ key: calculation.definition.key, message: `Unknown attribute(s): ${unknown.join(', ')}` });
+      }
+    });
+  }
+
+  // Depth-first ordering; a calculation that reaches itself is a cycle and is left out
+  const ordered: CompiledCalculation[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (key: string): boolean => {
+    const calculation = parsed.get(key);
+    if (!calculation || state.get(key) === 'done') return true;
+    if (state.get(key) === 'visiting') return false;
+
+    state.set(key, 'visiting');
+    const acyclic = calculation.references.every(visit);
+    state.set(key, 'done');
+    if (acyclic) {
+      ordered.push(calculation);
+    } else {
+      errors.push({ key, message: `'${key}' is part of a circular reference` });
+    }
+    return acyclic;
+  };
+  parsed.forEach((_, key) => visit(key));
+
+  return { compiled: ordered, errors };
+}
+
+function getCompiled(definitions: CalculatedAttribute[]): CompiledCalculation[] {
+  let compiled = compiledCache.get(definitions);
+  if (!compiled) {
+    const result = compile(definitions);
+    result.errors.forEach(error => console.warn(`⚠️ Calculated attribute "${error.key}" skipped: ${error.message}`));
+    compiled = result.compiled;
+    compiledCache.set(definitions, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Evaluate calculated attributes against a well's values. Inputs that are unavailable make the result unavailable;
+ * its quality is the worst input quality and its timestamp the oldest input, so staleness carries through.
+ */
+export function applyCalculatedAttributes(
+  definitions: CalculatedAttribute[] | undefined,
+  values: { [key: string]: number | undefined },
+  attributeInfo: { [key: string]: AttributeValueInfo } = {}
+): { values: { [key: string]: number }; attributeInfo: { [key: string]: AttributeValueInfo }; unavailable: string[] } {
+  const result = { values: {} as { [key: string]: number }, attributeInfo: {} as { [key: string]: AttributeValueInfo }, unavailable: [] as string[] };
+  if (!definitions || definitions.length === 0) return result;
+
+  const scope: { [key: string]: number | undefined } = { ...values };
+  const infoScope: { [key: string]: AttributeValueInfo | undefined } = { ...attributeInfo };
+
+  getCompiled(definitions).forEach(({ definition, node, references }) => {
+    const inputInfo = references.map(reference => infoScope[reference]).filter((info): info is AttributeValueInfo => !!info);
+    const info = combineInputInfo(inputInfo, definition.unit);
+    const value = evaluateExpression(node, scope);
+
+    infoScope[definition.key] = info;
+    result.attributeInfo[definition.key] = info;
+
+    if (value === null) {
+      result.unavailable.push(definition.key);
+      return;
+    }
+
+    const factor = Math.pow(10, definition.decimals ?? 2);
+    const rounded = Math.round(value * factor) / factor;
+    scope[definition.key] = rounded;
+    result.values[definition.key] = rounded;
+  });
+
+  return result;
+}
+
+function combineInputInfo(inputs: AttributeValueInfo[], unit?: string): AttributeValueInfo {
+  const quality = inputs.reduce<AttributeQuality>(
+    (worst, info) => (QUALITY_RANK[info.quality] > QUALITY_RANK[worst] ? info.quality : worst),
+    'good'
+  );
+  const timestamps = inputs
+    .map(info => (info.timestamp ? new Date(info.timestamp).getTime() : NaN))
+    .filter(timestamp => !isNaN(timestamp));
+
+  return {
+    quality,
+    timestamp: timestamps.length > 0 ? new Date(Math.min(...timestamps)).toISOString() : undefined,
+    units: unit || undefined
+  };
+}
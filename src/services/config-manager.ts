@@ -1,22 +1,59 @@
 import fs from 'fs';
 import path from 'path';
-import { PIServerConfig, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING } from '@/types/pi-system';
+import { PIServerConfig, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING, AlarmRule, DEFAULT_ALARM_RULES, RefreshSettings, DEFAULT_REFRESH_SETTINGS, ProductionDaySettings, DEFAULT_PRODUCTION_DAY_SETTINGS, ReportSchedule, DEFAULT_REPORT_SCHEDULE, DowntimeReason, DEFAULT_DOWNTIME_REASONS, CalculatedAttribute, TemplateMapping, RollupPolicy, DEFAULT_ROLLUP_POLICIES } from '@/types/pi-system';
 
 export interface AppConfig {
   mode: 'development' | 'production';
   piServerConfig?: PIServerConfig;
   attributeMapping: AttributeMapping;
+  alarmRules: AlarmRule[];
+  calculatedAttributes: CalculatedAttribute[];
+  templateMappings: TemplateMapping[];
+  rollupPolicies: RollupPolicy[];
+  refreshSettings: RefreshSettings;
+  productionDay: ProductionDaySettings;
+  reportSchedule: ReportSchedule;
+  downtimeReasons: DowntimeReason[];
+  // Serve pi-recording.json instead of simulated data outside production mode
+  replayRecording?: boolean;
   lastUpdated: string;
 }
 
 export class ConfigManager {
   private configPath: string;
-  private config: AppConfig;
+  private loadedConfig: AppConfig;
+  // Modification time and size of pi-config.json when it was last read or written
+  private fileStamp: string | null = null;
 
   constructor() {
     // Store config in the project root
     this.configPath = path.join(process.cwd(), 'pi-config.json');
-    this.config = this.loadConfig();
+    this.fileStamp = this.getFileStamp();
+    this.loadedConfig = this.loadConfig();
+  }
+
+  // Every read goes through here: the file is read again when another instance or process saved it,
+  // so long-running services like the report scheduler and the stream hub see saved changes without a restart
+  private get config(): AppConfig {
+    const fileStamp = this.getFileStamp();
+    if (fileStamp !== this.fileStamp) {
+      this.fileStamp = fileStamp;
+      this.loadedConfig = this.loadConfig();
+    }
+    return this.loadedConfig;
+  }
+
+  private set config(config: AppConfig) {
+    this.loadedConfig = config;
+  }
+
+  private getFileStamp(): string | null {
+    try {
+      const stats = fs.statSync(this.configPath);
+      return `${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return null;
+    }
   }
 
   /**
@@ -36,6 +73,15 @@ export class ConfigManager {
           attributeMapping: (parsedConfig.attributeMapping && Object.keys(parsedConfig.attributeMapping).length > 0) 
                             ? parsedConfig.attributeMapping 
                             : DEFAULT_ATTRIBUTE_MAPPING,
+          alarmRules: Array.isArray(parsedConfig.alarmRules) ? parsedConfig.alarmRules : DEFAULT_ALARM_RULES,
+          calculatedAttributes: Array.isArray(parsedConfig.calculatedAttributes) ? parsedConfig.calculatedAttributes : [],
+          templateMappings: Array.isArray(parsedConfig.templateMappings) ? parsedConfig.templateMappings : [],
+          rollupPolicies: Array.isArray(parsedConfig.rollupPolicies) ? parsedConfig.rollupPolicies : DEFAULT_ROLLUP_POLICIES,
+          refreshSettings: { ...DEFAULT_REFRESH_SETTINGS, ...parsedConfig.refreshSettings },
+          productionDay: { ...DEFAULT_PRODUCTION_DAY_SETTINGS, ...parsedConfig.productionDay },
+          reportSchedule: { ...DEFAULT_REPORT_SCHEDULE, ...parsedConfig.reportSchedule },
+          downtimeReasons: Array.isArray(parsedConfig.downtimeReasons) && parsedConfig.downtimeReasons.length > 0 ? parsedConfig.downtimeReasons : DEFAULT_DOWNTIME_REASONS,
+          replayRecording: parsedConfig.replayRecording === true,
           lastUpdated: parsedConfig.lastUpdated || new Date().toISOString()
         };
       }
@@ -47,6 +93,14 @@ export class ConfigManager {
     return {
       mode: 'development',
       attributeMapping: DEFAULT_ATTRIBUTE_MAPPING,
+      alarmRules: DEFAULT_ALARM_RULES,
+      calculatedAttributes: [],
+      templateMappings: [],
+      rollupPolicies: DEFAULT_ROLLUP_POLICIES,
+      refreshSettings: DEFAULT_REFRESH_SETTINGS,
+      productionDay: DEFAULT_PRODUCTION_DAY_SETTINGS,
+      reportSchedule: DEFAULT_REPORT_SCHEDULE,
+      downtimeReasons: DEFAULT_DOWNTIME_REASONS,
       lastUpdated: new Date().toISOString()
     };
   }
@@ -58,6 +112,7 @@ export class ConfigManager {
     try {
       this.config.lastUpdated = new Date().toISOString();
       fs.writeFileSync(this.configPath, JSON.stringify(this.config, null, 2));
+      this.fileStamp = this.getFileStamp();
     } catch (error) {
       console.error('Error saving config:', error);
     }
@@ -115,6 +170,134 @@ export class ConfigManager {
     return this.config.attributeMapping;
   }
 
+  /**
+   * Update alarm rules
+   */
+  setAlarmRules(rules: AlarmRule[]): void {
+    this.config.alarmRules = rules;
+    this.saveConfig();
+  }
+
+  /**
+   * Get alarm rules
+   */
+  getAlarmRules(): AlarmRule[] {
+    return this.config.alarmRules;
+  }
+
+  /**
+   * Update calculated attribute definitions
+   */
+  setCalculatedAttributes(calculatedAttributes: CalculatedAttribute[]): void {
+    this.config.calculatedAttributes = calculatedAttributes;
+    this.saveConfig();
+  }
+
+  /**
+   * Get calculated attribute definitions
+   */
+  getCalculatedAttributes(): CalculatedAttribute[] {
+    return this.config.calculatedAttributes;
+  }
+
+  /**
+   * Update per-template attribute mappings
+   */
+  setTemplateMappings(templateMappings: TemplateMapping[]): void {
+    this.config.templateMappings = templateMappings;
+    this.saveConfig();
+  }
+
+  /**
+   * Get per-template attribute mappings
+   */
+  getTemplateMappings(): TemplateMapping[] {
+    return this.config.templateMappings;
+  }
+
+  /**
+   * Update wellpad status roll-up policies
+   */
+  setRollupPolicies(policies: RollupPolicy[]): void {
+    this.config.rollupPolicies = policies;
+    this.saveConfig();
+  }
+
+  /**
+   * Get wellpad status roll-up policies
+   */
+  getRollupPolicies(): RollupPolicy[] {
+    return this.config.rollupPolicies;
+  }
+
+  /**
+   * Update dashboard refresh settings
+   */
+  setRefreshSettings(settings: RefreshSettings): void {
+    this.config.refreshSettings = { ...DEFAULT_REFRESH_SETTINGS, ...settings };
+    this.saveConfig();
+  }
+
+  /**
+   * Get dashboard refresh settings
+   */
+  getRefreshSettings(): RefreshSettings {
+    return this.config.refreshSettings;
+  }
+
+  /**
+   * Update production day start hour and time zone
+   */
+  setProductionDaySettings(settings: ProductionDaySettings): void {
+    this.config.productionDay = { ...DEFAULT_PRODUCTION_DAY_SETTINGS, ...settings };
+    this.saveConfig();
+  }
+
+  /**
+   * Get production day settings
+   */
+  getProductionDaySettings(): ProductionDaySettings {
+    return this.config.productionDay;
+  }
+
+  /**
+   * Update the morning report schedule
+   */
+  setReportSchedule(schedule: ReportSchedule): void {
+    this.config.reportSchedule = { ...DEFAULT_REPORT_SCHEDULE, ...schedule };
+    this.saveConfig();
+  }
+
+  /**
+   * Get the morning report schedule
+   */
+  getReportSchedule(): ReportSchedule {
+    return this.config.reportSchedule;
+  }
+
+  /**
+   * Update the reason codes operators can assign to downtime
+   */
+  setDowntimeReasons(reasons: DowntimeReason[]): void {
+    this.config.downtimeReasons = reasons;
+    this.saveConfig();
+  }
+
+  /**
+   * Get the downtime reason codes
+   */
+  getDowntimeReasons(): DowntimeReason[] {
+    return this.config.downtimeReasons;
+  }
+
+  /**
+   * Turn recording replay on or off
+   */
+  setReplayRecording(enabled: boolean): void {
+    this.config.replayRecording = enabled;
+    this.saveConfig();
+  }
+
   /**
    * Clear all configuration
    */
@@ -122,6 +305,14 @@ export class ConfigManager {
     this.config = {
       mode: 'development',
       attributeMapping: DEFAULT_ATTRIBUTE_MAPPING,
+      alarmRules: DEFAULT_ALARM_RULES,
+      calculatedAttributes: [],
+      templateMappings: [],
+      rollupPolicies: DEFAULT_ROLLUP_POLICIES,
+      refreshSettings: DEFAULT_REFRESH_SETTINGS,
+      productionDay: DEFAULT_PRODUCTION_DAY_SETTINGS,
+      reportSchedule: DEFAULT_REPORT_SCHEDULE,
+      downtimeReasons: DEFAULT_DOWNTIME_REASONS,
       lastUpdated: new Date().toISOString()
     };
     this.saveConfig();
@@ -0,0 +1,282 @@
+// Daily Production
+// Production-day windows and volume roll-ups for the Daily Production view.
+// Volumes are time-weighted average rates over the production day times its length,
+// so rates are assumed to be per day like every rate attribute in the mapping.
+
+import {
+  WellPadData,
+  ProductionDaySettings,
+  DailyWellProduction,
+  DailyPadProduction,
+  DailyProductionTotals,
+  DailyProductionReport
+} from '@/types/pi-system';
+import { hasValue } from './well-mapping';
+
+// Rate attributes summarised for each well
+export const DAILY_RATE_ATTRIBUTES = ['oilRate', 'liquidRate', 'gasRate', 'planTarget'] as const;
+
+export type DailyRateAttribute = typeof DAILY_RATE_ATTRIBUTES[number];
+
+export interface ProductionDayWindow {
+  productionDate: string;
+  startTime: string;
+  endTime: string;
+  complete: boolean;
+}
+
+// Time-weighted summary of one rate attribute over the window
+export interface AttributeSummary {
+  average?: number;
+  percentGood?: number;
+}
+
+// Wells of one wellpad before roll-up
+export interface DailyPadInput {
+  wellPadId: string;
+  wellPadName: string;
+  wells: DailyWellProduction[];
+}
+
+interface PISummaryItem {
+  Type: string;
+  Value?: { Value?: unknown; Good?: boolean };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the runtime knows an IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD), hour and minute of an instant in a time zone
+ */
+export function getZonedDateTime(instant: Date, timeZone: string): { date: string; hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: parseInt(part('hour'), 10),
+    minute: parseInt(part('minute'), 10)
+  };
+}
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// UTC instant of a local wall-clock hour; the offset is re-read at the first guess in case DST changes in between
+function getZonedInstant(date: string, hour: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone));
+}
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Window of a production day; defaults to the last completed day.
+ * A day still in progress ends at `now`.
+ */
+export function getProductionDayWindow(
+  settings: ProductionDaySettings,
+  productionDate?: string,
+  now: Date = new Date()
+): ProductionDayWindow {
+  if (productionDate && !DATE_PATTERN.test(productionDate)) {
+    throw new Error(`Invalid production date '${productionDate}'. Use YYYY-MM-DD`);
+  }
+  if (!isValidTimeZone(settings.timeZone)) {
+    throw new Error(`Unknown time zone '${settings.timeZone}'`);
+  }
+
+  const local = getZonedDateTime(now, settings.timeZone);
+  const currentDay = local.hour >= settings.startHour ? local.date : shiftDate(local.date, -1);
+  const date = productionDate || shiftDate(currentDay, -1);
+
+  const start = getZonedInstant(date, settings.startHour, settings.timeZone);
+  const end = getZonedInstant(shiftDate(date, 1), settings.startHour, settings.timeZone);
+  if (start.getTime() > now.getTime()) {
+    throw new Error(`Production day ${date} has not started yet`);
+  }
+
+  const complete = end.getTime() <= now.getTime();
+  return {
+    productionDate: date,
+    startTime: start.toISOString(),
+    endTime: (complete ? end : now).toISOString(),
+    complete
+  };
+}
+
+// PI Web API summary resource for one attribute: time-weighted average and percent good over the window
+export function getSummaryResource(webId: string, window: ProductionDayWindow): string {
+  const query = [
+    `startTime=${encodeURIComponent(window.startTime)}`,
+    `endTime=${encodeURIComponent(window.endTime)}`,
+    'summaryType=Average',
+    'summaryType=PercentGood',
+    'calculationBasis=TimeWeighted'
+  ].join('&');
+  return `/streams/${webId}/summary?${query}`;
+}
+
+// Average and percent good from a summary response; a bad average means no usable data in the window
+export function readSummary(content: { Items?: PISummaryItem[] } | null): AttributeSummary {
+  const summary: AttributeSummary = {};
+  content?.Items?.forEach(item => {
+    if (item.Value?.Good === false) return;
+    const value = typeof item.Value?.Value === 'number' ? item.Value.Value : parseFloat(String(item.Value?.Value));
+    if (isNaN(value)) return;
+
+    if (item.Type === 'Average') summary.average = value;
+    if (item.Type === 'PercentGood') summary.percentGood = value;
+  });
+  return summary;
+}
+
+const roundVolume = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Daily volumes of one well from its rate summaries
+ */
+export function buildDailyWellProduction(
+  well: { wellId: string; wellName: string; wellPadName?: string },
+  summaries: { [settingsKey: string]: AttributeSummary },
+  window: ProductionDayWindow
+): DailyWellProduction {
+  const durationDays = (new Date(window.endTime).getTime() - new Date(window.startTime).getTime()) / MS_PER_DAY;
+  const volume = (settingsKey: DailyRateAttribute) => {
+    const average = summaries[settingsKey]?.average;
+    return average === undefined ? undefined : roundVolume(average * durationDays);
+  };
+
+  const oilVolume = volume('oilRate');
+  const liquidVolume = volume('liquidRate');
+  const planVolume = volume('planTarget');
+  const percentGoodValues = Object.values(summaries)
+    .map(summary => summary.percentGood)
+    .filter((value): value is number => value !== undefined);
+
+  return {
+    ...well,
+    oilVolume,
+    liquidVolume,
+    waterVolume: oilVolume !== undefined && liquidVolume !== undefined ? roundVolume(Math.max(0, liquidVolume - oilVolume)) : undefined,
+    gasVolume: volume('gasRate'),
+    planVolume,
+    attainment: oilVolume !== undefined && planVolume ? Math.round((oilVolume / planVolume) * 1000) / 10 : undefined,
+    percentGood: percentGoodValues.length > 0 ? Math.min(...percentGoodValues) : undefined
+  };
+}
+
+// Sum the volumes of a set of wells; attainment only counts wells that have both a plan and an oil volume
+function sumProduction(wells: DailyWellProduction[]): DailyProductionTotals {
+  const sum = (values: Array<number | undefined>) => roundVolume(values.reduce<number>((total, value) => total + (value || 0), 0));
+  const plannedWells = wells.filter(well => well.planVolume && well.oilVolume !== undefined);
+  const plannedOil = sum(plannedWells.map(well => well.oilVolume));
+  const planVolume = sum(plannedWells.map(well => well.planVolume));
+
+  return {
+    oilVolume: sum(wells.map(well => well.oilVolume)),
+    liquidVolume: sum(wells.map(well => well.liquidVolume)),
+    waterVolume: sum(wells.map(well => well.waterVolume)),
+    gasVolume: sum(wells.map(well => well.gasVolume)),
+    planVolume,
+    attainment: planVolume > 0 ? Math.round((plannedOil / planVolume) * 1000) / 10 : undefined,
+    wellCount: wells.length
+  };
+}
+
+/**
+ * Roll well volumes up to wellpads and the field
+ */
+export function buildDailyProductionReport(
+  window: ProductionDayWindow,
+  settings: ProductionDaySettings,
+  pads: DailyPadInput[],
+  units: { [settingsKey: string]: string }
+): DailyProductionReport {
+  const padProduction: DailyPadProduction[] = pads.map(pad => ({
+    wellPadId: pad.wellPadId,
+    wellPadName: pad.wellPadName,
+    wells: pad.wells,
+    ...sumProduction(pad.wells)
+  }));
+
+  return {
+    productionDate: window.productionDate,
+    startTime: window.startTime,
+    endTime: window.endTime,
+    timeZone: settings.timeZone,
+    startHour: settings.startHour,
+    complete: window.complete,
+    units,
+    pads: padProduction,
+    field: sumProduction(pads.flatMap(pad => pad.wells))
+  };
+}
+
+/**
+ * Volumes from current rates held for the whole window, for simulated and recorded sources without history
+ */
+export function estimateDailyProduction(
+  wellPads: WellPadData[],
+  window: ProductionDayWindow,
+  settings: ProductionDaySettings
+): DailyProductionReport {
+  const units: { [settingsKey: string]: string } = {};
+  const pads = wellPads.map(pad => ({
+    wellPadId: pad.id,
+    wellPadName: pad.name,
+    wells: pad.wells.map(well => {
+      const summaries: { [settingsKey: string]: AttributeSummary } = {};
+      DAILY_RATE_ATTRIBUTES.forEach(settingsKey => {
+        const value = well[settingsKey];
+        if (typeof value !== 'number' || !hasValue(well, settingsKey)) return;
+
+        summaries[settingsKey] = { average: value, percentGood: 100 };
+        const unit = well.attributeInfo?.[settingsKey]?.units;
+        if (unit && !units[settingsKey]) units[settingsKey] = unit;
+      });
+      return buildDailyWellProduction({ wellId: well.id, wellName: well.name, wellPadName: pad.name }, summaries, window);
+    })
+  }));
+
+  return buildDailyProductionReport(window, settings, pads, units);
+}
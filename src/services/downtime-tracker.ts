@@ -0,0 +1,302 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  DowntimeEvent,
+  DowntimeReason,
+  DeferredProductionEntry,
+  DeferredProductionPareto,
+  WellData
+} from '@/types/pi-system';
+import { hasValue } from './well-mapping';
+
+interface DowntimeJournalFile {
+  events: DowntimeEvent[];
+  // Last producing oil rate per well, used as the baseline when no plan target is mapped
+  lastRates: Record<string, number>;
+  lastUpdated: string;
+}
+
+export interface DowntimeReasonRequest {
+  reasonCode: string;
+  comment?: string;
+  author?: string;
+}
+
+// Ended events beyond this count are dropped oldest-first; open events are always kept
+const MAX_ENDED_EVENTS = 2000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const UNASSIGNED_KEY = 'UNASSIGNED';
+
+export class DowntimeTracker {
+  private journalPath: string;
+  private events: DowntimeEvent[];
+  private lastRates: Record<string, number>;
+
+  constructor() {
+    // Store the journal next to pi-config.json in the project root
+    this.journalPath = path.join(process.cwd(), 'pi-downtime.json');
+    const journal = this.loadJournal();
+    this.events = journal.events;
+    this.lastRates = journal.lastRates;
+  }
+
+  /**
+   * Load journal from file
+   */
+  private loadJournal(): Pick<DowntimeJournalFile, 'events' | 'lastRates'> {
+    try {
+      if (fs.existsSync(this.journalPath)) {
+        const journalData = fs.readFileSync(this.journalPath, 'utf8');
+        const parsedJournal = JSON.parse(journalData) as DowntimeJournalFile;
+        return {
+          events: Array.isArray(parsedJournal.events) ? parsedJournal.events : [],
+          lastRates: parsedJournal.lastRates && typeof parsedJournal.lastRates === 'object' ? parsedJournal.lastRates : {}
+        };
+      }
+    } catch (error) {
+      console.error('Error loading downtime journal:', error);
+    }
+
+    return { events: [], lastRates: {} };
+  }
+
+  /**
+   * Save journal to file
+   */
+  private saveJournal(): void {
+    try {
+      const journal: DowntimeJournalFile = {
+        events: this.events,
+        lastRates: this.lastRates,
+        lastUpdated: new Date().toISOString()
+      };
+      fs.writeFileSync(this.journalPath, JSON.stringify(journal, null, 2));
+    } catch (error) {
+      console.error('Error saving downtime journal:', error);
+    }
+  }
+
+  /**
+   * Open an event when a well shuts in or goes down and close it when the well produces again.
+   * Wells whose operating state is unknown keep their current event. When `wells` is every loaded well,
+   * open events of wells no longer among them are closed now, so they stop adding deferred volume.
+   */
+  recordWellStates(wells: WellData[], now: Date = new Date(), fullSnapshot = false): { started: number; ended: number } {
+    let started = 0;
+    let ended = 0;
+    let ratesChanged = false;
+
+    if (fullSnapshot) {
+      const loadedWellIds = new Set(wells.map(well => well.id));
+      this.events
+        .filter(event => !event.endedAt && !loadedWellIds.has(event.wellId))
+        .forEach(event => {
+          event.endedAt = now.toISOString();
+          event.endedBy = 'missing';
+          ended++;
+          console.log(`⏱️ Downtime tracker: ${event.wellName} is no longer loaded - closing its open event`);
+        });
+    }
+
+    wells.forEach(well => {
+      const openEvent = this.events.find(event => event.wellId === well.id && !event.endedAt);
+
+      if (well.operatingState === 'shutIn' || well.operatingState === 'down') {
+        if (openEvent) return;
+        this.events.push(this.createEvent(well, now));
+        started++;
+        return;
+      }
+
+      if (well.operatingState === 'unknown') return;
+
+      if (typeof well.oilRate === 'number' && well.oilRate > 0 && hasValue(well, 'oilRate') && this.lastRates[well.id] !== well.oilRate) {
+        this.lastRates[well.id] = well.oilRate;
+        ratesChanged = true;
+      }
+
+      if (openEvent) {
+        // Runtime is hours since restart, so the well came back before this poll saw it
+        const runtimeHours = hasValue(well, 'runtime') && typeof well.runtime === 'number' ? well.runtime : 0;
+        const restartedAt = Math.max(new Date(openEvent.startedAt).getTime(), now.getTime() - runtimeHours * HOUR_MS);
+        openEvent.endedAt = new Date(restartedAt).toISOString();
+        openEvent.endedBy = 'restart';
+        ended++;
+      }
+    });
+
+    if (started > 0 || ended > 0) {
+      this.pruneEndedEvents();
+      this.saveJournal();
+      console.log(`⏱️ Downtime tracker: ${started} shut in, ${ended} restarted`);
+    } else if (ratesChanged) {
+      this.saveJournal();
+    }
+
+    return { started, ended };
+  }
+
+  /**
+   * Last producing oil rate by well id, the baseline for wells without a plan target
+   */
+  getLastRates(): Record<string, number> {
+    return { ...this.lastRates };
+  }
+
+  // Shut-in time is hours since the well went down, so back-date the start when it is known
+  private createEvent(well: WellData, now: Date): DowntimeEvent {
+    const shutinHours = hasValue(well, 'shutinTime') && typeof well.shutinTime === 'number' && well.shutinTime > 0 ? well.shutinTime : 0;
+    const planRate = hasValue(well, 'planTarget') && typeof well.planTarget === 'number' && well.planTarget > 0 ? well.planTarget : undefined;
+    const lastRate = this.lastRates[well.id];
+
+    return {
+      id: `downtime-${now.getTime()}-${this.events.length}`,
+      wellId: well.id,
+      wellName: well.name,
+      wellPadName: well.wellPadName,
+      startedAt: new Date(now.getTime() - shutinHours * HOUR_MS).toISOString(),
+      baselineRate: planRate ?? lastRate ?? 0,
+      baselineSource: planRate !== undefined ? 'plan' : lastRate !== undefined ? 'lastRate' : 'none',
+      baselineUnits: well.attributeInfo?.[planRate !== undefined ? 'planTarget' : 'oilRate']?.units
+    };
+  }
+
+  /**
+   * Get downtime events, newest first
+   */
+  getEvents(options: { openOnly?: boolean; wellId?: string; since?: Date; limit?: number } = {}): DowntimeEvent[] {
+    const sinceTime = options.since?.getTime();
+    const events = this.events
+      .filter(event => !options.openOnly || !event.endedAt)
+      .filter(event => !options.wellId || event.wellId === options.wellId)
+      .filter(event => sinceTime === undefined || !event.endedAt || new Date(event.endedAt).getTime() >= sinceTime)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+    return options.limit ? events.slice(0, options.limit) : events;
+  }
+
+  /**
+   * Get a single event by id
+   */
+  getEvent(id: string): DowntimeEvent | undefined {
+    return this.events.find(event => event.id === id);
+  }
+
+  /**
+   * Assign a reason code from the configured list, replacing any earlier assignment
+   */
+  assignReason(id: string, request: DowntimeReasonRequest, reasons: DowntimeReason[], now: Date = new Date()): DowntimeEvent {
+    const event = this.getEvent(id);
+    if (!event) {
+      throw new Error(`Downtime event '${id}' not found`);
+    }
+
+    if (!reasons.some(reason => reason.code === request.reasonCode)) {
+      throw new Error(`Unknown downtime reason '${request.reasonCode}'`);
+    }
+
+    event.reasonCode = request.reasonCode;
+    event.comment = request.comment;
+    event.assignedBy = request.author;
+    event.assignedAt = now.toISOString();
+
+    this.saveJournal();
+    console.log(`📝 Downtime reason ${request.reasonCode}: ${event.wellName}`);
+
+    return event;
+  }
+
+  /**
+   * Pareto of deferred volume by reason and by pad for downtime after `since`
+   */
+  getPareto(since: Date, reasons: DowntimeReason[], now: Date = new Date()): DeferredProductionPareto {
+    const reasonLabels = new Map(reasons.map(reason => [reason.code, reason.label]));
+    const byReason = new Map<string, Omit<DeferredProductionEntry, 'cumulativePercent'>>();
+    const byPad = new Map<string, Omit<DeferredProductionEntry, 'cumulativePercent'>>();
+    let totalDeferredVolume = 0;
+    let units: string | undefined;
+
+    this.getEvents({ since }).forEach(event => {
+      units = units || event.baselineUnits;
+      const hours = getDowntimeHours(event, now, since);
+      const deferredVolume = getDeferredVolume(event, now, since);
+      totalDeferredVolume += deferredVolume;
+
+      const reasonKey = event.reasonCode || UNASSIGNED_KEY;
+      const reasonLabel = event.reasonCode ? reasonLabels.get(event.reasonCode) || event.reasonCode : 'Unassigned';
+      addToEntry(byReason, reasonKey, reasonLabel, deferredVolume, hours);
+
+      const padName = event.wellPadName || 'Unknown pad';
+      addToEntry(byPad, padName, padName, deferredVolume, hours);
+    });
+
+    return {
+      since: since.toISOString(),
+      totalDeferredVolume,
+      units,
+      byReason: toPareto(byReason, totalDeferredVolume),
+      byPad: toPareto(byPad, totalDeferredVolume)
+    };
+  }
+
+  // Drop the oldest ended events once the journal grows past its cap
+  private pruneEndedEvents(): void {
+    const endedEvents = this.events
+      .filter(event => event.endedAt)
+      .sort((a, b) => (a.endedAt || '').localeCompare(b.endedAt || ''));
+
+    const excess = endedEvents.length - MAX_ENDED_EVENTS;
+    if (excess <= 0) return;
+
+    const removed = new Set(endedEvents.slice(0, excess).map(event => event.id));
+    this.events = this.events.filter(event => !removed.has(event.id));
+  }
+}
+
+/**
+ * Hours down, counting open events up to now and clipping to the reporting window
+ */
+export function getDowntimeHours(event: DowntimeEvent, now: Date = new Date(), since?: Date): number {
+  const start = Math.max(new Date(event.startedAt).getTime(), since ? since.getTime() : -Infinity);
+  const end = event.endedAt ? new Date(event.endedAt).getTime() : now.getTime();
+  return Math.max(0, end - start) / HOUR_MS;
+}
+
+/**
+ * Baseline rate (per day) times hours down
+ */
+export function getDeferredVolume(event: DowntimeEvent, now: Date = new Date(), since?: Date): number {
+  return event.baselineRate * getDowntimeHours(event, now, since) / 24;
+}
+
+function addToEntry(
+  entries: Map<string, Omit<DeferredProductionEntry, 'cumulativePercent'>>,
+  key: string,
+  label: string,
+  deferredVolume: number,
+  hours: number
+) {
+  const entry = entries.get(key) || { key, label, deferredVolume: 0, downtimeHours: 0, eventCount: 0 };
+  entry.deferredVolume += deferredVolume;
+  entry.downtimeHours += hours;
+  entry.eventCount++;
+  entries.set(key, entry);
+}
+
+// Largest deferment first, with the running share of the total for the pareto line
+function toPareto(
+  entries: Map<string, Omit<DeferredProductionEntry, 'cumulativePercent'>>,
+  total: number
+): DeferredProductionEntry[] {
+  let cumulative = 0;
+  return Array.from(entries.values())
+    .sort((a, b) => b.deferredVolume - a.deferredVolume || b.downtimeHours - a.downtimeHours)
+    .map(entry => {
+      cumulative += entry.deferredVolume;
+      return { ...entry, cumulativePercent: total > 0 ? (cumulative / total) * 100 : 0 };
+    });
+}
+
+// Export singleton instance
+export const downtimeTracker = new DowntimeTracker();
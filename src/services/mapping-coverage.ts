@@ -0,0 +1,179 @@
+// Mapping Coverage
+// Checks every mapped attribute on every well and records whether it yields a usable value,
+// so AF template gaps show up as a matrix before go-live rather than one tile at a time.
+
+import { AttributeMapping, CoverageCell, CoverageStatus, LoadTruncationWarning, MappingCoverageReport, MappingCoverageSummary, WellMappingCoverage, WellPadData } from '@/types/pi-system';
+import { ReportTable } from './report-writers';
+import { AFValueContainer, AttributeMatch, MappedAttribute, MappedElement, WellMappingOptions, getNumericValue, getWellId, resolveAttributeMapping, findMappedAttribute, getRelativeAttributePath, getStateValue, getTypedValue } from './well-mapping';
+
+export const COVERAGE_STATUSES: CoverageStatus[] = ['present', 'missing', 'nonNumeric', 'badQuality', 'unmapped'];
+
+// Text of a PI value for the detail column; digital and system states carry a Name
+function describeValue(valueContainer: AFValueContainer): string {
+  const value = valueContainer.Value;
+  if (value !== null && typeof value === 'object') {
+    const state = value as { Name?: string; Value?: unknown };
+    return state.Name || JSON.stringify(state.Value ?? value);
+  }
+  return String(value);
+}
+
+/**
+ * Coverage of one mapping entry: whether a rule found an attribute on the well and it reads as a good number,
+ * or as a state the key can keep
+ */
+export function getCoverageCell(
+  entry: string | undefined,
+  match: AttributeMatch | undefined,
+  valueContainer: AFValueContainer | undefined,
+  settingsKey = ''
+): CoverageCell {
+  if (!entry) {
+    return { status: 'unmapped' };
+  }
+  if (!match?.attribute.WebId) {
+    return { status: 'missing', attributeName: entry, detail: 'No rule matched an attribute on the element' };
+  }
+
+  const cell = { attributeName: getRelativeAttributePath(match.attribute), matchedRule: match.rule };
+  if (!valueContainer) {
+    return { ...cell, status: 'missing', detail: 'No value returned' };
+  }
+  if (valueContainer.Good === false || (valueContainer.Errors?.length || 0) > 0) {
+    const errors = (valueContainer.Errors || []).map(String).join('; ');
+    return { ...cell, status: 'badQuality', detail: errors || describeValue(valueContainer) };
+  }
+  if (getNumericValue(valueContainer, cell.attributeName) === null && !getStateValue(settingsKey, getTypedValue(valueContainer))) {
+    return { ...cell, status: 'nonNumeric', detail: describeValue(valueContainer) };
+  }
+  return { ...cell, status: 'present' };
+}
+
+/**
+ * Coverage of every mapping key on one AF well element, using its template's mapping
+ */
+export function getWellMappingCoverage(
+  element: MappedElement,
+  attributes: MappedAttribute[],
+  values: Map<string, AFValueContainer>,
+  options: Pick<WellMappingOptions, 'attributeMapping' | 'templateMappings'>,
+  wellPadName?: string
+): WellMappingCoverage {
+  const attributeMapping = resolveAttributeMapping(options, element.TemplateName);
+  const cells: WellMappingCoverage['cells'] = {};
+  Object.keys(options.attributeMapping).forEach(settingsKey => {
+    const entry = attributeMapping[settingsKey as keyof AttributeMapping];
+    const match = findMappedAttribute(entry, attributes);
+    cells[settingsKey] = getCoverageCell(entry, match, match?.attribute.WebId ? values.get(match.attribute.WebId) : undefined, settingsKey);
+  });
+
+  return {
+    wellId: getWellId(element),
+    wellName: element.Name,
+    wellPadName,
+    templateName: element.TemplateName,
+    cells
+  };
+}
+
+/**
+ * Coverage read back from mapped wells, for sources without AF elements (simulated and recorded data)
+ */
+export function getCoverageFromWellPads(wellPads: WellPadData[], attributeMapping: AttributeMapping): WellMappingCoverage[] {
+  return wellPads.flatMap(wellPad => wellPad.wells.map(well => {
+    const cells: WellMappingCoverage['cells'] = {};
+    Object.entries(attributeMapping).forEach(([settingsKey, attributeName]) => {
+      if (!attributeName) {
+        cells[settingsKey] = { status: 'unmapped' };
+      } else if (well.attributes?.[settingsKey] !== undefined || well.states?.[settingsKey]) {
+        cells[settingsKey] = { status: 'present', attributeName };
+      } else if (well.attributeInfo?.[settingsKey]?.quality === 'bad') {
+        cells[settingsKey] = { status: 'badQuality', attributeName };
+      } else {
+        cells[settingsKey] = { status: 'missing', attributeName };
+      }
+    });
+    return { wellId: well.id, wellName: well.name, wellPadName: wellPad.name, templateName: well.templateName, cells };
+  }));
+}
+
+/**
+ * Coverage matrix with per-key totals
+ */
+export function buildMappingCoverageReport(
+  wells: WellMappingCoverage[],
+  keys: string[],
+  warnings: LoadTruncationWarning[] = [],
+  parentElementPath?: string
+): MappingCoverageReport {
+  const summary: MappingCoverageSummary[] = keys.map(settingsKey => {
+    const counts = Object.fromEntries(COVERAGE_STATUSES.map(status => [status, 0])) as MappingCoverageSummary['counts'];
+    const ruleCounts: MappingCoverageSummary['ruleCounts'] = {};
+    wells.forEach(well => {
+      const cell = well.cells[settingsKey];
+      counts[cell?.status || 'unmapped']++;
+      if (cell?.matchedRule) {
+        ruleCounts[cell.matchedRule] = (ruleCounts[cell.matchedRule] || 0) + 1;
+      }
+    });
+    const mappedCount = wells.length - counts.unmapped;
+    return {
+      settingsKey,
+      counts,
+      ruleCounts,
+      coveragePercent: mappedCount > 0 ? Math.round((counts.present / mappedCount) * 1000) / 10 : 0
+    };
+  });
+
+  return {
+    parentElementPath,
+    keys,
+    wells,
+    summary,
+    warnings,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+// Labels used in the matrix and the CSV download
+export const COVERAGE_STATUS_LABELS: { [status in CoverageStatus]: string } = {
+  present: 'Present',
+  missing: 'Missing',
+  nonNumeric: 'Non-numeric',
+  badQuality: 'Bad quality',
+  unmapped: 'Not mapped'
+};
+
+/**
+ * Summary and matrix tables of a coverage report, for the CSV download
+ */
+export function getCoverageTables(report: MappingCoverageReport): ReportTable[] {
+  return [
+    {
+      title: 'Coverage by attribute',
+      columns: ['Key', ...COVERAGE_STATUSES.map(status => COVERAGE_STATUS_LABELS[status]), 'Coverage %', 'Matched rules'],
+      rows: report.summary.map(entry => [
+        entry.settingsKey,
+        ...COVERAGE_STATUSES.map(status => entry.counts[status]),
+        entry.coveragePercent,
+        Object.entries(entry.ruleCounts).map(([rule, count]) => `${rule}: ${count}`).join('; ')
+      ])
+    },
+    {
+      title: 'Coverage by well',
+      columns: ['Wellpad', 'Well', 'Template', ...report.keys],
+      // Cells read "<status> [<matched rule>] (<detail>)"
+      rows: report.wells.map(well => [
+        well.wellPadName,
+        well.wellName,
+        well.templateName,
+        ...report.keys.map(settingsKey => {
+          const cell = well.cells[settingsKey];
+          if (!cell) return undefined;
+          const rule = cell.matchedRule ? ` [${cell.matchedRule}]` : '';
+          return `${COVERAGE_STATUS_LABELS[cell.status]}${rule}${cell.detail ? ` (${cell.detail})` : ''}`;
+        })
+      ])
+    }
+  ];
+}
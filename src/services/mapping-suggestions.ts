@@ -0,0 +1,268 @@
+// Mapping Suggestions
+// Proposes an attribute mapping from the attribute templates of an AF element template.
+// Names are fuzzy-matched against the default names and common field abbreviations;
+// units and categories nudge the score so a pressure is not mapped onto a rate.
+
+import { AttributeMapping, AttributeTemplateInfo, DEFAULT_ATTRIBUTE_MAPPING, MappingSuggestion } from '@/types/pi-system';
+import { STATE_ATTRIBUTE_KEYS } from './well-mapping';
+
+type UnitFamily = 'rate' | 'percent' | 'frequency' | 'pressure' | 'temperature' | 'length' | 'speed' | 'current' | 'vibration' | 'duration';
+
+// Matches below this are not proposed
+export const MIN_SUGGESTION_CONFIDENCE = 0.35;
+
+// Matches at or above this are accepted by default in the settings page
+export const HIGH_SUGGESTION_CONFIDENCE = 0.7;
+
+// Other alternatives listed per key
+const MAX_ALTERNATIVES = 3;
+
+// Names and abbreviations used for each key besides its default name
+const SYNONYMS: { [settingsKey: string]: string[] } = {
+  oilRate: ['oil rate', 'oil flow', 'net oil', 'bopd'],
+  liquidRate: ['liquid rate', 'gross rate', 'gross liquid', 'total fluid', 'blpd'],
+  waterCut: ['water cut', 'bsw', 'bs&w', 'wc'],
+  espFrequency: ['esp frequency', 'vsd frequency', 'drive frequency', 'motor frequency'],
+  planTarget: ['target', 'plan', 'forecast', 'budget rate'],
+  gasRate: ['gas rate', 'gas flow', 'mcfd'],
+  tubingPressure: ['tubing pressure', 'thp', 'ftp'],
+  casingPressure: ['casing pressure', 'annulus pressure', 'chp'],
+  temperature: ['temp', 'wellhead temperature', 'flowing temperature'],
+  flowlinePressure: ['flowline pressure', 'line pressure', 'flp'],
+  chokeSize: ['choke', 'bean size', 'choke position'],
+  gasLiftRate: ['gas lift', 'lift gas rate', 'injection gas rate'],
+  pumpSpeed: ['pump speed', 'strokes per minute', 'spm', 'rpm'],
+  motorAmps: ['motor current', 'amps', 'amperage'],
+  vibration: ['vib'],
+  runtime: ['run time', 'hours on', 'on time'],
+  shutinTime: ['shut in time', 'hours off', 'off time', 'downtime'],
+  wellheadPressure: ['wellhead pressure', 'whp'],
+  bottomholePressure: ['bottomhole pressure', 'downhole pressure', 'intake pressure', 'bhp', 'pip'],
+  flowRate: ['flow rate', 'flow'],
+  runStatus: ['run status', 'pump status', 'running', 'run state', 'on off'],
+  wellMode: ['well mode', 'well status', 'operating mode', 'mode']
+};
+
+// Value types of attribute templates that hold digital states
+const STATE_TEMPLATE_TYPES = ['EnumerationValue', 'Boolean'];
+
+// Unit family each key is expected to report in
+const KEY_UNIT_FAMILIES: { [settingsKey: string]: UnitFamily } = {
+  oilRate: 'rate', liquidRate: 'rate', gasRate: 'rate', gasLiftRate: 'rate', flowRate: 'rate', planTarget: 'rate',
+  waterCut: 'percent',
+  espFrequency: 'frequency',
+  tubingPressure: 'pressure', casingPressure: 'pressure', flowlinePressure: 'pressure', wellheadPressure: 'pressure', bottomholePressure: 'pressure',
+  temperature: 'temperature',
+  chokeSize: 'length',
+  pumpSpeed: 'speed',
+  motorAmps: 'current',
+  vibration: 'vibration',
+  runtime: 'duration', shutinTime: 'duration'
+};
+
+// Checked in order; the first pattern that matches the unit decides its family
+const UNIT_FAMILY_PATTERNS: Array<[UnitFamily, RegExp]> = [
+  ['rate', /(bbl|scf|cf|m3|m³|b)\s*\/\s*(d|day|h|hr)|bpd|bopd|blpd|mcfd|mmscfd/i],
+  ['vibration', /^(g|in\/s|mm\/s|ips)$/i],
+  ['speed', /rpm|spm|strokes/i],
+  ['pressure', /psi|bar|pa$|kgf|atm/i],
+  ['percent', /%|percent/i],
+  ['frequency', /hz|hertz/i],
+  ['temperature', /°|deg|^[cfk]$|kelvin|celsius|fahrenheit/i],
+  ['current', /^a$|amp/i],
+  ['duration', /^(h|hr|hrs|hour|hours|min|s|sec)$/i],
+  ['length', /^(in|mm|cm|64ths?|\/64)$|inch/i]
+];
+
+// Words shared by many keys; they count half so "Casing Pressure" is a weak match for tubingPressure
+const GENERIC_WORDS = new Set(['rate', 'pressure', 'time', 'total', 'production', 'well', 'motor', 'pump', 'daily']);
+
+// Category words that back up a key's unit family
+const FAMILY_CATEGORY_WORDS: { [family in UnitFamily]?: string[] } = {
+  rate: ['production', 'rate', 'flow'],
+  pressure: ['pressure'],
+  temperature: ['temperature'],
+  frequency: ['esp', 'pump', 'artificial lift'],
+  speed: ['pump', 'artificial lift'],
+  current: ['esp', 'electrical', 'motor']
+};
+
+// Lower-case words of a name, splitting camelCase and punctuation
+function tokenize(name: string): string[] {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9&]+/)
+    .filter(Boolean);
+}
+
+// Levenshtein distance, used to forgive one-letter typos in longer words
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  return a === b || (Math.min(a.length, b.length) >= 4 && editDistance(a, b) <= 1);
+}
+
+function tokenWeight(token: string): number {
+  return GENERIC_WORDS.has(token) ? 0.5 : 1;
+}
+
+// Dice coefficient over words, each word matched at most once
+function tokenSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const remaining = [...b];
+  let matched = 0;
+  a.forEach(token => {
+    const index = remaining.findIndex(other => tokensMatch(token, other));
+    if (index >= 0) {
+      matched += tokenWeight(token);
+      remaining.splice(index, 1);
+    }
+  });
+  const total = [...a, ...b].reduce((sum, token) => sum + tokenWeight(token), 0);
+  return (2 * matched) / total;
+}
+
+// Dice coefficient over character pairs of the joined words; catches run-together names like TUBINGHEADPRESSURE
+function bigramSimilarity(a: string[], b: string[]): number {
+  const bigrams = (text: string) => Array.from({ length: Math.max(0, text.length - 1) }, (_, i) => text.slice(i, i + 2));
+  const first = bigrams(a.join(''));
+  const second = bigrams(b.join(''));
+  if (first.length === 0 || second.length === 0) return 0;
+
+  const remaining = [...second];
+  let matched = 0;
+  first.forEach(bigram => {
+    const index = remaining.indexOf(bigram);
+    if (index >= 0) {
+      matched++;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * matched) / (first.length + second.length);
+}
+
+function getUnitFamily(units: string | undefined): UnitFamily | undefined {
+  const unit = units?.trim();
+  if (!unit) return undefined;
+  return UNIT_FAMILY_PATTERNS.find(([, pattern]) => pattern.test(unit))?.[0];
+}
+
+// Humanised form of a mapping key, e.g. "shutinTime" -> "shutin time"
+function humanizeKey(settingsKey: string): string {
+  return tokenize(settingsKey).join(' ');
+}
+
+/**
+ * Confidence that an attribute template holds the value of a mapping key, with the reasons behind it
+ */
+export function scoreAttributeTemplate(settingsKey: string, defaultName: string | undefined, template: AttributeTemplateInfo): { confidence: number; reasons: string[] } {
+  const nameTokens = tokenize(template.name);
+  const phrases: Array<{ phrase: string; weight: number; reason: string }> = [
+    ...(defaultName ? [{ phrase: defaultName, weight: 1, reason: `name matches default "${defaultName}"` }] : []),
+    { phrase: humanizeKey(settingsKey), weight: 0.95, reason: `name matches key "${settingsKey}"` },
+    ...(SYNONYMS[settingsKey] || []).map(synonym => ({ phrase: synonym, weight: 0.9, reason: `name matches "${synonym}"` }))
+  ];
+
+  let best = { score: 0, reason: '' };
+  phrases.forEach(({ phrase, weight, reason }) => {
+    const phraseTokens = tokenize(phrase);
+    const similarity = nameTokens.length === 1
+      ? Math.max(tokenSimilarity(nameTokens, phraseTokens), 0.9 * bigramSimilarity(nameTokens, phraseTokens))
+      : tokenSimilarity(nameTokens, phraseTokens);
+    const score = similarity * weight;
+    if (score > best.score) {
+      best = { score, reason: similarity === 1 ? reason : reason.replace('matches', 'resembles') };
+    }
+  });
+
+  if (best.score === 0) return { confidence: 0, reasons: [] };
+
+  let confidence = best.score;
+  const reasons = [best.reason];
+  const expectedFamily = KEY_UNIT_FAMILIES[settingsKey];
+  const unitFamily = getUnitFamily(template.units);
+  if (expectedFamily && unitFamily) {
+    if (unitFamily === expectedFamily) {
+      confidence += 0.1;
+      reasons.push(`units ${template.units} fit ${expectedFamily}`);
+    } else {
+      confidence -= 0.25;
+      reasons.push(`units ${template.units} are not ${expectedFamily}`);
+    }
+  }
+
+  if (STATE_ATTRIBUTE_KEYS.includes(settingsKey) && template.type) {
+    if (STATE_TEMPLATE_TYPES.includes(template.type)) {
+      confidence += 0.1;
+      reasons.push(`${template.type} value fits a state`);
+    } else {
+      confidence -= 0.25;
+      reasons.push(`${template.type} value is not a state`);
+    }
+  }
+
+  const categoryWords = expectedFamily ? FAMILY_CATEGORY_WORDS[expectedFamily] || [] : [];
+  const category = template.categories.find(name => categoryWords.some(word => name.toLowerCase().includes(word)));
+  if (category) {
+    confidence += 0.05;
+    reasons.push(`category ${category}`);
+  }
+
+  return { confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100, reasons };
+}
+
+/**
+ * Proposed mapping for every key: the best-scoring attribute templates, each used for at most one key
+ */
+export function suggestAttributeMapping(
+  templates: AttributeTemplateInfo[],
+  keys: string[] = Object.keys(DEFAULT_ATTRIBUTE_MAPPING)
+): MappingSuggestion[] {
+  const candidates: Array<{ settingsKey: string; attributeName: string; confidence: number; reasons: string[] }> = [];
+  keys.forEach(settingsKey => {
+    const defaultName = DEFAULT_ATTRIBUTE_MAPPING[settingsKey as keyof AttributeMapping];
+    templates.forEach(template => {
+      const { confidence, reasons } = scoreAttributeTemplate(settingsKey, defaultName, template);
+      if (confidence >= MIN_SUGGESTION_CONFIDENCE) {
+        candidates.push({ settingsKey, attributeName: template.name, confidence, reasons });
+      }
+    });
+  });
+
+  // Strongest matches claim their attribute first
+  candidates.sort((a, b) => b.confidence - a.confidence);
+  const assigned = new Map<string, (typeof candidates)[number]>();
+  const usedNames = new Set<string>();
+  candidates.forEach(candidate => {
+    if (assigned.has(candidate.settingsKey) || usedNames.has(candidate.attributeName)) return;
+    assigned.set(candidate.settingsKey, candidate);
+    usedNames.add(candidate.attributeName);
+  });
+
+  return keys.map(settingsKey => {
+    const match = assigned.get(settingsKey);
+    return {
+      settingsKey,
+      attributeName: match?.attributeName ?? null,
+      confidence: match?.confidence ?? 0,
+      reasons: match?.reasons ?? [],
+      alternatives: candidates
+        .filter(candidate => candidate.settingsKey === settingsKey && candidate.attributeName !== match?.attributeName)
+        .slice(0, MAX_ALTERNATIVES)
+        .map(({ attributeName, confidence }) => ({ attributeName, confidence }))
+    };
+  });
+}
@@ -0,0 +1,148 @@
+// Morning Report
+// Field morning report built from the same WellPadData the dashboard shows,
+// rendered to CSV, XLSX or PDF by the report writers
+
+import { WellPadData, WellData, MorningReport, MorningReportPadRow, MorningReportWellRow, ReportFormat } from '@/types/pi-system';
+import { hasValue, OPERATING_STATE_LABELS } from './well-mapping';
+import { ReportTable, ReportCell, writeCsv, writeXlsx, writePdf } from './report-writers';
+import { roundForDisplay } from './unit-conversion';
+
+export const REPORT_FORMATS: { [format in ReportFormat]: { label: string; contentType: string; extension: string } } = {
+  csv: { label: 'CSV', contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: { label: 'Excel', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  pdf: { label: 'PDF', contentType: 'application/pdf', extension: 'pdf' }
+};
+
+// Own keys only, so inherited names like 'constructor' are not formats
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return typeof value === 'string' && Object.hasOwn(REPORT_FORMATS, value);
+}
+
+// Value of a numeric attribute, or undefined when it had no usable value
+const getRate = (well: WellData, settingsKey: keyof WellData): number | undefined => {
+  const value = well[settingsKey];
+  return typeof value === 'number' && hasValue(well, settingsKey) ? value : undefined;
+};
+
+function buildWellRow(well: WellData, wellPadName: string): MorningReportWellRow {
+  return {
+    wellPadName,
+    wellName: well.name,
+    health: well.health,
+    operatingState: well.operatingState,
+    oilRate: getRate(well, 'oilRate'),
+    liquidRate: getRate(well, 'liquidRate'),
+    gasRate: getRate(well, 'gasRate'),
+    waterCut: getRate(well, 'waterCut'),
+    planTarget: getRate(well, 'planTarget'),
+    planDeviation: well.planDeviation,
+    downtimeHours: getRate(well, 'shutinTime'),
+    statusMessages: (well.statusReasons || []).map(reason => reason.message)
+  };
+}
+
+function summarizeWells(rows: MorningReportWellRow[]): Omit<MorningReportPadRow, 'wellPadName'> {
+  const sum = (values: Array<number | undefined>) => Math.round(values.reduce<number>((total, value) => total + (value || 0), 0));
+  const waterCuts = rows.map(row => row.waterCut).filter((value): value is number => value !== undefined);
+  const waterRates = rows
+    .filter(row => row.liquidRate !== undefined && row.waterCut !== undefined)
+    .map(row => (row.liquidRate || 0) * (row.waterCut || 0) / 100);
+
+  return {
+    totalWells: rows.length,
+    producingWells: rows.filter(row => row.operatingState === 'producing').length,
+    shutInWells: rows.filter(row => row.operatingState === 'shutIn').length,
+    downWells: rows.filter(row => row.operatingState === 'down').length,
+    totalOilRate: sum(rows.map(row => row.oilRate)),
+    totalWaterRate: sum(waterRates),
+    totalGasRate: sum(rows.map(row => row.gasRate)),
+    avgWaterCut: waterCuts.length > 0 ? Math.round(waterCuts.reduce((total, value) => total + value, 0) / waterCuts.length * 10) / 10 : 0,
+    alertWells: rows.filter(row => row.health === 'alert').length,
+    warningWells: rows.filter(row => row.health === 'warning').length
+  };
+}
+
+/**
+ * Build the morning report for the given wellpads
+ */
+export function buildMorningReport(wellPads: WellPadData[], source: string, now: Date = new Date()): MorningReport {
+  const wells: MorningReportWellRow[] = [];
+  const pads: MorningReportPadRow[] = wellPads.map(pad => {
+    const rows = pad.wells.map(well => buildWellRow(well, pad.name));
+    wells.push(...rows);
+    return { wellPadName: pad.name, ...summarizeWells(rows) };
+  });
+
+  return {
+    title: `Field Morning Report - ${now.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
+    generatedAt: now.toISOString(),
+    source,
+    pads,
+    wells,
+    field: summarizeWells(wells)
+  };
+}
+
+// Well values keep PI's precision in the report data and are rounded for the tables
+const formatValue = (value: number | undefined): ReportCell => (value === undefined ? value : roundForDisplay(value));
+
+// Sections shared by every output format
+function toReportTables(report: MorningReport): ReportTable[] {
+  const padRow = (name: string, row: Omit<MorningReportPadRow, 'wellPadName'>): ReportCell[] => [
+    name, row.totalWells, row.producingWells, row.shutInWells, row.downWells, row.totalOilRate, row.totalWaterRate,
+    row.totalGasRate, row.avgWaterCut, row.alertWells, row.warningWells
+  ];
+  const alertWells = report.wells.filter(row => row.health !== 'good');
+  const downWells = report.wells.filter(row => row.operatingState === 'shutIn' || row.operatingState === 'down' || row.downtimeHours);
+
+  return [
+    {
+      title: 'Wellpad Totals',
+      columns: ['Wellpad', 'Wells', 'Producing', 'Shut In', 'Down', 'Oil (bbl/d)', 'Water (bbl/d)', 'Gas (Mcf/d)', 'Avg WC (%)', 'Alerts', 'Warnings'],
+      rows: [...report.pads.map(pad => padRow(pad.wellPadName, pad)), padRow('Field Total', report.field)]
+    },
+    {
+      title: 'Well Rates',
+      columns: ['Wellpad', 'Well', 'State', 'Health', 'Oil (bbl/d)', 'Liquid (bbl/d)', 'Gas (Mcf/d)', 'WC (%)', 'Plan (bbl/d)', 'Plan Dev (%)'],
+      rows: report.wells.map(row => [
+        row.wellPadName, row.wellName, OPERATING_STATE_LABELS[row.operatingState], row.health, formatValue(row.oilRate),
+        formatValue(row.liquidRate), formatValue(row.gasRate), formatValue(row.waterCut), formatValue(row.planTarget), row.planDeviation
+      ])
+    },
+    {
+      title: 'Wells in Alert',
+      columns: ['Wellpad', 'Well', 'Health', 'Reasons'],
+      rows: alertWells.map(row => [row.wellPadName, row.wellName, row.health, row.statusMessages.join('; ')])
+    },
+    {
+      title: 'Downtime',
+      columns: ['Wellpad', 'Well', 'State', 'Downtime (hrs)'],
+      rows: downWells.map(row => [row.wellPadName, row.wellName, OPERATING_STATE_LABELS[row.operatingState], formatValue(row.downtimeHours)])
+    }
+  ];
+}
+
+/**
+ * Render the report in one of the download formats
+ */
+export function renderMorningReport(report: MorningReport, format: ReportFormat): Buffer {
+  const tables = toReportTables(report);
+  const subtitle = `Generated ${new Date(report.generatedAt).toLocaleString()} from ${report.source} data`;
+
+  switch (format) {
+    case 'csv':
+      return Buffer.from(writeCsv(tables), 'utf8');
+    case 'xlsx':
+      return writeXlsx(tables);
+    case 'pdf':
+      return writePdf(report.title, subtitle, tables);
+    default:
+      throw new Error(`Unsupported report format '${format satisfies never}'`);
+  }
+}
+
+// morning-report-2025-06-14-0700.pdf, stamped with the UTC generation time
+export function getReportFileName(report: MorningReport, format: ReportFormat): string {
+  const stamp = report.generatedAt.slice(0, 16).replace('T', '-').replace(':', '');
+  return `morning-report-${stamp}.${REPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,132 @@
+// Pad Status Roll-up
+// Rolls well health up into a wellpad status by the roll-up policy configured for the pad, and says why.
+// Wellpads are built worst-of; the stream hub and the dashboard apply the configured policies,
+// together with the wells whose alarms are shelved.
+
+import { DEFAULT_ROLLUP_POLICIES, PadStatusRollup, RollupPolicy, WellData, WellHealth, WellPadData } from '@/types/pi-system';
+import { hasValue } from './well-mapping';
+
+const SCOPE_PRECEDENCE: { [scope in RollupPolicy['scope']]: number } = {
+  global: 0,
+  template: 1,
+  wellpad: 2
+};
+
+// Well names listed in an explanation before the rest are summarized
+const MAX_NAMED_WELLS = 3;
+
+function matchesScope(scopeValue: string | undefined, actual: string | undefined): boolean {
+  return !!scopeValue && !!actual && scopeValue.trim().toLowerCase() === actual.toLowerCase();
+}
+
+/**
+ * Policy for a wellpad: an enabled wellpad policy, else a template policy, else the policy for all wellpads
+ */
+export function getRollupPolicy(policies: RollupPolicy[], wellPad: Pick<WellPadData, 'name' | 'templateName'>): RollupPolicy {
+  const applicable = policies.filter(policy => policy.enabled && (
+    policy.scope === 'global' ||
+    (policy.scope === 'wellpad' && matchesScope(policy.scopeValue, wellPad.name)) ||
+    (policy.scope === 'template' && matchesScope(policy.scopeValue, wellPad.templateName))
+  ));
+  applicable.sort((a, b) => SCOPE_PRECEDENCE[b.scope] - SCOPE_PRECEDENCE[a.scope]);
+  return applicable[0] || DEFAULT_ROLLUP_POLICIES[0];
+}
+
+// Production a well stands for in the weighted shares: the plan target, else the current or last producing
+// oil rate - the downtime tracker's baseline - so a tripped well still weighs what it should be producing
+function getProductionWeight(well: WellData, lastRates: Record<string, number>): number {
+  if (hasValue(well, 'planTarget') && typeof well.planTarget === 'number' && well.planTarget > 0) return well.planTarget;
+  if (hasValue(well, 'oilRate') && well.oilRate > 0) return well.oilRate;
+  return lastRates[well.id] > 0 ? lastRates[well.id] : 0;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 10) / 10}%`;
+
+const formatWellNames = (names: string[]) =>
+  names.length > MAX_NAMED_WELLS ? `${names.slice(0, MAX_NAMED_WELLS).join(', ')} +${names.length - MAX_NAMED_WELLS}` : names.join(', ');
+
+const STATUS_LABELS: { [status in WellHealth]: string } = {
+  good: 'Good',
+  warning: 'Warning',
+  alert: 'Alert'
+};
+
+/**
+ * Pad status from its wells' health under one policy.
+ * Worst-of counts any well; percentage and production-weighted raise the pad once the share of
+ * wells (or of their production baseline) in alert, or in alert or warning, reaches the policy's thresholds.
+ * `lastRates` are the last producing oil rates by well id, for wells that are down and have no plan target.
+ */
+export function rollUpPadStatus(
+  wells: WellData[],
+  policy: RollupPolicy,
+  shelvedWellIds: string[] = [],
+  lastRates: Record<string, number> = {}
+): { status: WellHealth; rollup: PadStatusRollup } {
+  const shelved = new Set(policy.ignoreShelved ? shelvedWellIds : []);
+  const counted = wells.filter(well => !shelved.has(well.id));
+  const alertWells = counted.filter(well => well.health === 'alert');
+  const warningWells = counted.filter(well => well.health === 'warning');
+  const unhealthyWells = [...alertWells, ...warningWells];
+
+  let status: WellHealth;
+  let basis: string;
+
+  if (policy.method === 'worstOf') {
+    status = alertWells.length > 0 ? 'alert' : warningWells.length > 0 ? 'warning' : 'good';
+    const named = status === 'alert' ? alertWells : warningWells;
+    basis = status === 'good'
+      ? 'no well in alert or warning'
+      : `${named.length} of ${counted.length} wells in ${status} (${formatWellNames(named.map(well => well.name))})`;
+  } else {
+    // Production weighting falls back to counting wells when no counted well has a production baseline
+    const totalProduction = counted.reduce((sum, well) => sum + getProductionWeight(well, lastRates), 0);
+    const byProduction = policy.method === 'productionWeighted' && totalProduction > 0;
+    const share = (subset: WellData[]) => byProduction
+      ? subset.reduce((sum, well) => sum + getProductionWeight(well, lastRates), 0) / totalProduction * 100
+      : counted.length > 0 ? subset.length / counted.length * 100 : 0;
+
+    const alertShare = share(alertWells);
+    const unhealthyShare = share(unhealthyWells);
+    status = alertWells.length > 0 && alertShare >= policy.alertPercent ? 'alert' :
+             unhealthyWells.length > 0 && unhealthyShare >= policy.warningPercent ? 'warning' : 'good';
+
+    const [subject, percent, threshold] = status === 'alert'
+      ? ['in alert', alertShare, policy.alertPercent]
+      : ['in alert or warning', unhealthyShare, policy.warningPercent];
+    const amount = byProduction
+      ? `wells ${subject} carry ${formatPercent(percent)} of the production baseline`
+      : `${status === 'alert' ? alertWells.length : unhealthyWells.length} of ${counted.length} wells (${formatPercent(percent)}) ${subject}`;
+    basis = `${amount}, ${status === 'good' ? 'below' : 'at or above'} ${formatPercent(threshold)}`;
+    if (policy.method === 'productionWeighted' && !byProduction) {
+      basis += ' (no production baseline to weigh, counted by wells)';
+    }
+  }
+
+  const ignored = wells.length - counted.length;
+  return {
+    status,
+    rollup: {
+      policyId: policy.id,
+      method: policy.method,
+      explanation: `${STATUS_LABELS[status]}: ${basis}${ignored > 0 ? ` · ${ignored} shelved wells ignored` : ''}`,
+      contributingWells: unhealthyWells.map(well => well.name),
+      ignoredWells: ignored
+    }
+  };
+}
+
+/**
+ * Wellpads with status and explanation re-rolled by the configured policies
+ */
+export function applyRollupPolicies(
+  wellPads: WellPadData[],
+  policies: RollupPolicy[],
+  shelvedWellIds: string[] = [],
+  lastRates: Record<string, number> = {}
+): WellPadData[] {
+  return wellPads.map(wellPad => {
+    const { status, rollup } = rollUpPadStatus(wellPad.wells, getRollupPolicy(policies, wellPad), shelvedWellIds, lastRates);
+    return { ...wellPad, status, statusRollup: rollup };
+  });
+}
@@ -0,0 +1,948 @@
+// PI AF Data Source
+// Walks AF through the PI Web API and maps wells with the shared mapping core.
+// The HTTP transport is pluggable: Windows Authentication via axios on the server,
+// browser credentials via fetch in the dashboard.
+
+import { WellPadData, WellData, PIServerConfig, LoadTruncationWarning, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING, HistoryRange, HistoryRetrievalMode, HistoryPoint, WellHistory, HISTORY_RANGES, AlarmRule, DEFAULT_ALARM_RULES, CalculatedAttribute, TemplateMapping, AttributeTemplateInfo, ProductionDaySettings, DailyProductionReport, MappingCoverageReport, HierarchySettings, HierarchyAncestor } from '@/types/pi-system';
+import { WellDataSource, WellDataSourceKind, WellDataRecording } from './well-data-source';
+import { AFValueContainer, WellMappingOptions, getMappedAttributeWebIds, getWellId, mapAttributesToWellData, buildWellPadData, parseTemplateNames, resolveAttributeMapping, findMappedAttribute, mappingUsesAttributePaths } from './well-mapping';
+import { PIBatchResponses, buildBatchRequests, readBatchContent, buildStreamSetValueResources, getLoadLimits, applyLimit, getTruncationWarning, loadAllPages, loadAllPagesBatched, chunk } from './pi-web-api-batch';
+import { AFMetadataCache, AFStructure } from './af-metadata-cache';
+import { getWellMappingCoverage, buildMappingCoverageReport } from './mapping-coverage';
+import { classifyHierarchyElement, getMaxHierarchyDepth } from './asset-hierarchy';
+import { AlarmRuleState } from './alarm-rules';
+import { ProductionDayWindow, AttributeSummary, DailyPadInput, DAILY_RATE_ATTRIBUTES, getSummaryResource, readSummary, buildDailyWellProduction, buildDailyProductionReport } from './daily-production';
+
+export interface AFAssetServer {
+  Name: string;
+  WebId?: string;
+}
+
+export interface AFDatabase {
+  Name: string;
+  Path: string;
+  Description?: string;
+  WebId?: string;
+}
+
+export interface AFElement {
+  Name: string;
+  Path: string;
+  TemplateName?: string;
+  HasChildren?: boolean;
+  WebId?: string;
+}
+
+export interface AFAttribute {
+  Name: string;
+  Path: string;
+  Type?: string;
+  WebId?: string;
+  DefaultUnitsNameAbbreviation?: string;
+  CategoryNames?: string[];
+}
+
+interface AFElementTemplate {
+  Name: string;
+  WebId?: string;
+}
+
+interface AFAttributeTemplate {
+  Name: string;
+  Type?: string;
+  DefaultUnitsName?: string;
+  DefaultUnitsNameAbbreviation?: string;
+  CategoryNames?: string[];
+}
+
+interface AFStreamValue {
+  Timestamp: string;
+  Value?: unknown;
+  Good?: boolean;
+}
+
+// HTTP access to one PI Web API server; requests are GETs unless a body is given
+export interface PIWebApiTransport {
+  readonly kind: 'server' | 'browser';
+  // Browsers block plain http calls from an https dashboard, so only https endpoints are probed
+  readonly secureOnly: boolean;
+  // Whether a PI Web API answers at this base URL; 401/403 still count as reachable
+  probe(endpoint: string): Promise<{ reachable: boolean; status: number; message: string }>;
+  request<T>(endpoint: string, resource: string, body?: unknown): Promise<T>;
+}
+
+// Mapped attribute a channel WebId feeds
+export interface ChannelTarget {
+  webId: string;
+  wellId: string;
+  settingsKey: string;
+}
+
+export interface PIAFDataSourceOptions {
+  attributeMapping?: AttributeMapping;
+  alarmRules?: AlarmRule[];
+  calculatedAttributes?: CalculatedAttribute[];
+  templateMappings?: TemplateMapping[];
+  // Alarm state of the consumer; without one the data source keeps its own across refreshes
+  alarmState?: AlarmRuleState;
+  // Shared structure cache; without one, every full load walks AF
+  structureCache?: AFMetadataCache;
+}
+
+// Upper bound on recorded values per attribute to keep responses manageable
+const MAX_RECORDED_VALUES = 5000;
+
+// Summary sub-requests per batch; each is a full time-weighted calculation on the server
+const SUMMARY_REQUESTS_PER_BATCH = 500;
+
+// Attribute fields the mapping needs; Path and CategoryNames serve path and category selectors
+const ATTRIBUTE_FIELDS = 'selectedFields=Items.Name;Items.Path;Items.WebId;Items.Type;Items.DefaultUnitsNameAbbreviation;Items.CategoryNames';
+
+// Element fields needed to walk wellpads, wells and the levels above them
+const ELEMENT_FIELDS = 'selectedFields=Items.Name;Items.Path;Items.WebId;Items.TemplateName;Items.HasChildren';
+
+// Wellpads found by walking fields and areas; wells directly under an area form a wellpad of that area
+interface HierarchyWalk {
+  padElements: AFElement[];
+  directWellsByPad: Map<string, AFElement[]>;
+  ancestorsByPad: { [padWebId: string]: HierarchyAncestor[] };
+}
+
+// Common PI Web API install paths, in the order they are tried
+export function getCandidateEndpoints(serverName: string, secureOnly: boolean): string[] {
+  const endpoints = [
+    `https://${serverName}/piwebapi`,
+    `https://${serverName}:443/piwebapi`,
+    `http://${serverName}/piwebapi`,
+    `https://${serverName}/PIWebAPI`,
+    `http://${serverName}/PIWebAPI`,
+    `https://${serverName}:5985/piwebapi`,
+    `http://${serverName}:5985/piwebapi`,
+    // IIS default paths
+    `https://${serverName}/piwebapi2018`,
+    `http://${serverName}/piwebapi2018`,
+    `https://${serverName}/piwebapi2019`,
+    `http://${serverName}/piwebapi2019`
+  ];
+  return secureOnly ? endpoints.filter(endpoint => endpoint.startsWith('https://')) : endpoints;
+}
+
+export class PIAFDataSource implements WellDataSource {
+  readonly kind: WellDataSourceKind;
+  protected config: PIServerConfig;
+  private transport: PIWebApiTransport;
+  private mappingOptions: WellMappingOptions;
+  private structureCache: AFMetadataCache | null;
+  private workingEndpoint: string | null = null;
+  private structure: AFStructure | null = null;
+  private values = new Map<string, AFValueContainer>();
+  private wellsById = new Map<string, WellData>();
+  private loadWarnings: LoadTruncationWarning[] = [];
+
+  constructor(transport: PIWebApiTransport, config: PIServerConfig, options: PIAFDataSourceOptions = {}) {
+    this.kind = transport.kind;
+    this.transport = transport;
+    this.config = config;
+    this.mappingOptions = {
+      attributeMapping: options.attributeMapping || DEFAULT_ATTRIBUTE_MAPPING,
+      alarmRules: options.alarmRules || DEFAULT_ALARM_RULES,
+      alarmState: options.alarmState || new AlarmRuleState(),
+      calculatedAttributes: options.calculatedAttributes,
+      templateMappings: options.templateMappings,
+      strict: config.strictAttributeValues !== false
+    };
+    this.structureCache = options.structureCache || null;
+    console.log(`🎯 PI AF data source (${this.kind}) initialized with configuration:`);
+    console.log(`   - AF Server: ${config.afServerName}`);
+    console.log(`   - Database: ${config.afDatabaseName}`);
+    console.log(`   - Element Path: ${config.parentElementPath}`);
+    console.log(`   - Template Filter: ${config.templateName || 'None (processing all elements)'}`);
+    if (options.templateMappings?.length) {
+      console.log(`   - Template Mappings: ${options.templateMappings.map(templateMapping => templateMapping.templateName).join(', ')}`);
+    }
+  }
+
+  // Find working PI Web API endpoint
+  private async findWorkingEndpoint(): Promise<string | null> {
+    if (this.workingEndpoint) {
+      return this.workingEndpoint;
+    }
+
+    for (const endpoint of getCandidateEndpoints(this.config.piWebApiServerName, this.transport.secureOnly)) {
+      try {
+        console.log(`🧪 Testing PI Web API at: ${endpoint}`);
+        const result = await this.transport.probe(endpoint);
+        console.log(`   Status: ${result.status} - ${result.message}`);
+
+        if (result.reachable) {
+          this.workingEndpoint = endpoint;
+          console.log(`✅ Working endpoint found: ${endpoint} (Status: ${result.status})`);
+          return endpoint;
+        }
+      } catch (error) {
+        console.log(`❌ Failed: ${endpoint} - ${error}`);
+      }
+    }
+
+    console.error(`❌ Cannot reach PI Web API Server: ${this.config.piWebApiServerName}`);
+    console.log(`💡 Troubleshooting tips:`);
+    console.log(`   1. Verify PI Web API server name: ${this.config.piWebApiServerName}`);
+    console.log(`   2. Check if PI Web API service is running`);
+    console.log(`   3. Verify network connectivity to the server`);
+    console.log(`   4. Check if Windows Authentication is properly configured`);
+    return null;
+  }
+
+  // Resource relative to the working endpoint; POST when a body is given
+  private async request<T>(resource: string, body?: unknown): Promise<T> {
+    const endpoint = await this.findWorkingEndpoint();
+    if (!endpoint) {
+      throw new Error('Cannot connect to PI Web API server');
+    }
+    return this.transport.request<T>(endpoint, resource, body);
+  }
+
+  // Asset databases of the configured AF server
+  private async loadDatabases(): Promise<AFDatabase[]> {
+    console.log(`🔗 Loading databases for AF Server: ${this.config.afServerName}`);
+
+    try {
+      // Step 1: Get all asset servers
+      const serversData = await this.request<{ Items?: AFAssetServer[] }>('/assetservers');
+      if (!serversData.Items || !Array.isArray(serversData.Items)) {
+        throw new Error('No asset servers found');
+      }
+
+      console.log(`📋 Found ${serversData.Items.length} asset servers`);
+
+      // Step 2: Find the specific AF server we're looking for
+      const targetServer = serversData.Items.find(server =>
+        server.Name === this.config.afServerName ||
+        server.Name.toLowerCase() === this.config.afServerName.toLowerCase()
+      );
+
+      if (!targetServer) {
+        const availableServers = serversData.Items.map(s => s.Name).join(', ');
+        throw new Error(`AF Server '${this.config.afServerName}' not found. Available: ${availableServers}`);
+      }
+
+      console.log(`🎯 Found target AF Server: "${targetServer.Name}" (WebId: ${targetServer.WebId})`);
+
+      // Step 3: Get databases for the specific server using its WebID
+      const databasesData = await this.request<{ Items?: AFDatabase[] }>(`/assetservers/${targetServer.WebId}/assetdatabases`);
+      console.log(`📋 Found ${databasesData.Items?.length || 0} databases on server '${targetServer.Name}'`);
+
+      return databasesData.Items || [];
+
+    } catch (error) {
+      console.error(`❌ Database loading failed:`, error);
+      throw error;
+    }
+  }
+
+  // The configured asset database
+  private async findTargetDatabase(): Promise<AFDatabase> {
+    const databases = await this.loadDatabases();
+    const targetDb = databases.find(db =>
+      db.Name === this.config.afDatabaseName ||
+      db.Name.toLowerCase() === this.config.afDatabaseName.toLowerCase()
+    );
+
+    if (!targetDb) {
+      const availableDbs = databases.map(db => db.Name).join(', ');
+      throw new Error(`Database '${this.config.afDatabaseName}' not found. Available: ${availableDbs}`);
+    }
+
+    console.log(`🎯 Found target database: "${targetDb.Name}"`);
+    return targetDb;
+  }
+
+  // Load elements from a database
+  private async loadDatabaseElements(database: AFDatabase): Promise<AFElement[]> {
+    console.log(`🔗 Loading elements from database: "${database.Name}"`);
+
+    try {
+      const elements = await loadAllPages<AFElement>(
+        `/assetdatabases/${database.WebId}/elements`,
+        resource => this.request(resource)
+      );
+      console.log(`📋 Found ${elements.length} elements in database "${database.Name}"`);
+      return elements;
+
+    } catch (error) {
+      console.error(`❌ Failed to load elements from database "${database.Name}":`, error);
+      return [];
+    }
+  }
+
+  // Load child elements from a parent element
+  private async loadChildElements(parentElement: AFElement): Promise<AFElement[]> {
+    console.log(`🔗 Loading child elements from: "${parentElement.Name}"`);
+
+    try {
+      const elements = await loadAllPages<AFElement>(
+        `/elements/${parentElement.WebId}/elements`,
+        resource => this.request(resource)
+      );
+      console.log(`📋 Found ${elements.length} child elements in "${parentElement.Name}"`);
+      return elements;
+
+    } catch (error) {
+      console.error(`❌ Failed to load child elements from "${parentElement.Name}":`, error);
+      return [];
+    }
+  }
+
+  // Navigate through nested element path
+  private async navigateToNestedElement(database: AFDatabase, elementPath: string): Promise<AFElement[]> {
+    console.log(`🧭 Navigating to nested path: "${elementPath}"`);
+
+    const pathSegments = elementPath.split('\\').filter(segment => segment.trim() !== '');
+    let currentElements = await this.loadDatabaseElements(database);
+
+    // Navigate through each path segment
+    for (let i = 0; i < pathSegments.length && i < 10; i++) { // MAX 10 levels deep
+      const segmentName = pathSegments[i];
+      const matchingElement = currentElements.find(el =>
+        el.Name === segmentName ||
+        el.Name.toLowerCase() === segmentName.toLowerCase()
+      );
+
+      if (!matchingElement) {
+        console.log(`❌ Path segment "${segmentName}" not found in path "${elementPath}"`);
+        return [];
+      }
+
+      console.log(`✅ Found "${segmentName}" (WebId: ${matchingElement.WebId})`);
+      currentElements = await this.loadChildElements(matchingElement);
+    }
+
+    return currentElements;
+  }
+
+  // Attributes resource of an element; child attributes are included only when a mapping entry names a path
+  private getAttributesResource(elementWebId: string | undefined): string {
+    const hierarchy = mappingUsesAttributePaths(this.mappingOptions) ? '&searchFullHierarchy=true' : '';
+    return `/elements/${elementWebId}/attributes?${ATTRIBUTE_FIELDS}${hierarchy}`;
+  }
+
+  // Load attributes from an element
+  private async loadElementAttributes(element: AFElement): Promise<AFAttribute[]> {
+    try {
+      const attributesData = await this.request<{ Items?: AFAttribute[] }>(this.getAttributesResource(element.WebId));
+      return attributesData.Items || [];
+    } catch (error) {
+      console.error(`❌ Failed to load attributes from element "${element.Name}":`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Attribute templates of an element template, including inherited ones, for mapping suggestions
+   */
+  async loadAttributeTemplates(templateName: string): Promise<AttributeTemplateInfo[]> {
+    console.log(`🧩 Loading attribute templates of "${templateName}"`);
+    const database = await this.findTargetDatabase();
+
+    const templatesData = await this.request<{ Items?: AFElementTemplate[] }>(
+      `/assetdatabases/${database.WebId}/elementtemplates?query=${encodeURIComponent(templateName)}&field=name`
+    );
+    const template = (templatesData.Items || []).find(item => item.Name.toLowerCase() === templateName.toLowerCase());
+    if (!template?.WebId) {
+      throw new Error(`Element template '${templateName}' not found in database '${database.Name}'`);
+    }
+
+    const attributesData = await this.request<{ Items?: AFAttributeTemplate[] }>(`/elementtemplates/${template.WebId}/attributetemplates?showInherited=true`);
+    const attributeTemplates = (attributesData.Items || []).map(item => ({
+      name: item.Name,
+      type: item.Type,
+      units: item.DefaultUnitsNameAbbreviation || item.DefaultUnitsName || undefined,
+      categories: item.CategoryNames || []
+    }));
+    console.log(`📋 Found ${attributeTemplates.length} attribute templates on "${template.Name}"`);
+    return attributeTemplates;
+  }
+
+  // Load historical values for the mapped attributes of a single well
+  async loadWellHistory(
+    wellWebId: string,
+    range: HistoryRange = '24h',
+    retrievalMode: HistoryRetrievalMode = 'interpolated'
+  ): Promise<WellHistory> {
+    const window = HISTORY_RANGES[range];
+    console.log(`📈 Loading ${retrievalMode} history for well ${wellWebId} (${window.label})`);
+
+    const element = await this.request<AFElement>(`/elements/${wellWebId}`);
+    const attributes = await this.loadElementAttributes(element);
+
+    const query = retrievalMode === 'interpolated'
+      ? `startTime=${window.startTime}&endTime=*&interval=${window.interval}`
+      : `startTime=${window.startTime}&endTime=*&maxCount=${MAX_RECORDED_VALUES}`;
+
+    // One stream sub-request per mapped attribute, all in a single batch
+    const resources: { [settingsKey: string]: string } = {};
+    for (const [settingsKey, piAfAttributeName] of Object.entries(resolveAttributeMapping(this.mappingOptions, element.TemplateName))) {
+      if (!piAfAttributeName) continue;
+
+      const attribute = findMappedAttribute(piAfAttributeName, attributes)?.attribute;
+      if (!attribute?.WebId) {
+        console.log(`   ⚠️ Attribute "${piAfAttributeName}" (${settingsKey}) not found on "${element.Name}"`);
+        continue;
+      }
+      resources[settingsKey] = `/streams/${attribute.WebId}/${retrievalMode}?${query}`;
+    }
+
+    const responses = await this.batch(resources);
+    const series: { [key: string]: HistoryPoint[] } = {};
+    Object.keys(resources).forEach(settingsKey => {
+      const streamData = readBatchContent<{ Items?: AFStreamValue[] }>(responses, settingsKey);
+      if (!streamData) {
+        console.error(`   ❌ Failed to load history for ${settingsKey}`);
+        return;
+      }
+      series[settingsKey] = this.toHistoryPoints(streamData.Items || []);
+      console.log(`   ✅ ${settingsKey}: ${series[settingsKey].length} points`);
+    });
+
+    return {
+      wellId: wellWebId,
+      wellName: element.Name,
+      range,
+      retrievalMode,
+      startTime: window.startTime,
+      endTime: '*',
+      series
+    };
+  }
+
+  // Keep only good, numeric stream values
+  private toHistoryPoints(items: AFStreamValue[]): HistoryPoint[] {
+    const points: HistoryPoint[] = [];
+    items.forEach(item => {
+      if (item.Good === false) return;
+      const value = typeof item.Value === 'number' ? item.Value : parseFloat(String(item.Value));
+      if (!isNaN(value)) {
+        points.push({ timestamp: item.Timestamp, value });
+      }
+    });
+    return points;
+  }
+
+  /**
+   * Wellpads/wells left out by the configured limits during the last load
+   */
+  getLoadWarnings(): LoadTruncationWarning[] {
+    return this.loadWarnings;
+  }
+
+  // Main method to load wellpad data
+  async loadWellPadData(): Promise<WellPadData[]> {
+    console.log(`🚀 Starting wellpad data loading (${this.kind})`);
+
+    try {
+      // 1. Resolve the AF structure, or reuse it from the metadata cache
+      const { structure, fromCache } = await this.loadStructure();
+
+      // 2. Read current values - the only round trip while the cache is warm
+      const webIds = getMappedAttributeWebIds(Object.values(structure.wellsByPad).flat(), structure.attributesByWell, this.mappingOptions);
+      this.values = await this.readCurrentValues(webIds);
+
+      // Every WebId failing usually means the elements were deleted or recreated in AF
+      if (fromCache && webIds.length > 0 && this.values.size === 0) {
+        console.log('⚠️ No values returned for cached attribute WebIds - rebuilding AF structure');
+        this.structureCache?.invalidate();
+        return this.loadWellPadData();
+      }
+
+      // 3. Map values onto wells and summarise each wellpad
+      this.wellsById.clear();
+      const result = this.buildWellPads();
+      console.log(`📊 Final result: ${result.length} wellpads processed`);
+      return result;
+
+    } catch (error) {
+      console.error(`❌ Wellpad data loading failed:`, error);
+      throw error;
+    }
+  }
+
+  // Cached AF structure when available, otherwise walk AF and cache the result
+  private async loadStructure(): Promise<{ structure: AFStructure; fromCache: boolean }> {
+    let structure = this.structureCache?.get(this.config) || null;
+    // A structure cached before a mapping named child attributes lacks them
+    if (structure && mappingUsesAttributePaths(this.mappingOptions) && !structure.attributeHierarchy) {
+      console.log('🗂️ Cached AF structure has no child attributes - rebuilding for path mappings');
+      structure = null;
+    }
+    const fromCache = structure !== null;
+    if (structure) {
+      console.log(`🗂️ Using cached AF structure built at ${structure.builtAt}`);
+      this.workingEndpoint = structure.workingEndpoint;
+    } else {
+      structure = await this.resolveStructure();
+      this.structureCache?.set(this.config, structure);
+    }
+    this.structure = structure;
+    this.loadWarnings = structure.warnings;
+    return { structure, fromCache };
+  }
+
+  /**
+   * Daily volumes of the mapped rate attributes for every well, from time-weighted PI summaries
+   */
+  async loadDailyProduction(window: ProductionDayWindow, settings: ProductionDaySettings): Promise<DailyProductionReport> {
+    console.log(`🛢️ Loading daily production for ${window.productionDate} (${window.startTime} → ${window.endTime})`);
+    const { structure } = this.structure ? { structure: this.structure } : await this.loadStructure();
+
+    // One summary sub-request per well and mapped rate attribute
+    const resources: { [requestId: string]: string } = {};
+    const requestKeys = new Map<string, { wellWebId: string; settingsKey: string }>();
+    const units: { [settingsKey: string]: string } = {};
+    Object.values(structure.wellsByPad).flat().forEach((wellElement, i) => {
+      const attributeMapping = resolveAttributeMapping(this.mappingOptions, wellElement.TemplateName);
+      const attributes = structure.attributesByWell[wellElement.WebId || ''] || [];
+      DAILY_RATE_ATTRIBUTES.forEach(settingsKey => {
+        const attribute = findMappedAttribute(attributeMapping[settingsKey], attributes)?.attribute;
+        if (!attribute?.WebId) return;
+
+        const requestId = `well${i}_${settingsKey}`;
+        resources[requestId] = getSummaryResource(attribute.WebId, window);
+        requestKeys.set(requestId, { wellWebId: wellElement.WebId || '', settingsKey });
+        if (attribute.DefaultUnitsNameAbbreviation && !units[settingsKey]) {
+          units[settingsKey] = attribute.DefaultUnitsNameAbbreviation;
+        }
+      });
+    });
+
+    const summariesByWell = new Map<string, { [settingsKey: string]: AttributeSummary }>();
+    for (const requestIds of chunk(Object.keys(resources), SUMMARY_REQUESTS_PER_BATCH)) {
+      const responses = await this.batch(Object.fromEntries(requestIds.map(requestId => [requestId, resources[requestId]])));
+      requestIds.forEach(requestId => {
+        const { wellWebId, settingsKey } = requestKeys.get(requestId)!;
+        const summaries = summariesByWell.get(wellWebId) || {};
+        summaries[settingsKey] = readSummary(readBatchContent(responses, requestId));
+        summariesByWell.set(wellWebId, summaries);
+      });
+    }
+
+    const pads: DailyPadInput[] = structure.padElements.map((padElement, i) => ({
+      wellPadId: padElement.WebId || `wellpad-${i}`,
+      wellPadName: padElement.Name,
+      wells: (structure.wellsByPad[padElement.WebId || ''] || []).map(wellElement => buildDailyWellProduction(
+        { wellId: getWellId(wellElement), wellName: wellElement.Name, wellPadName: padElement.Name },
+        summariesByWell.get(wellElement.WebId || '') || {},
+        window
+      ))
+    }));
+
+    console.log(`📊 Summarised ${Object.keys(resources).length} rate attributes across ${summariesByWell.size} wells`);
+    return buildDailyProductionReport(window, settings, pads, units);
+  }
+
+  /**
+   * Mapped attribute x well coverage matrix for every well under the parent element
+   */
+  async loadMappingCoverage(): Promise<MappingCoverageReport> {
+    console.log(`🧮 Checking mapping coverage under "${this.config.parentElementPath}"`);
+    const { structure } = await this.loadStructure();
+    const wellElements = Object.values(structure.wellsByPad).flat();
+    const values = await this.readCurrentValues(getMappedAttributeWebIds(wellElements, structure.attributesByWell, this.mappingOptions));
+
+    const wells = structure.padElements.flatMap(padElement =>
+      (structure.wellsByPad[padElement.WebId || ''] || []).map(wellElement => getWellMappingCoverage(
+        wellElement,
+        structure.attributesByWell[wellElement.WebId || ''] || [],
+        values,
+        this.mappingOptions,
+        padElement.Name
+      ))
+    );
+
+    console.log(`📊 Checked ${Object.keys(this.mappingOptions.attributeMapping).length} mapped attributes on ${wells.length} wells`);
+    return buildMappingCoverageReport(wells, Object.keys(this.mappingOptions.attributeMapping), structure.warnings, this.config.parentElementPath);
+  }
+
+  // Whether a full load has captured the element structure for value-only refreshes
+  hasCachedStructure(): boolean {
+    return this.structure !== null;
+  }
+
+  // Re-read current attribute values for the wells found by the last full load
+  async refreshWellValues(): Promise<WellPadData[]> {
+    if (!this.structure) {
+      console.log('ℹ️ No structure loaded yet - performing full wellpad load');
+      return this.loadWellPadData();
+    }
+
+    const webIds = getMappedAttributeWebIds(Object.values(this.structure.wellsByPad).flat(), this.structure.attributesByWell, this.mappingOptions);
+    console.log(`🔄 Refreshing ${webIds.length} attribute values`);
+    const values = await this.readCurrentValues(webIds);
+
+    if (values.size === 0 && webIds.length > 0) {
+      throw new Error('Value refresh returned no attribute values');
+    }
+
+    this.values = values;
+    this.wellsById.clear();
+    return this.buildWellPads();
+  }
+
+  // Attribute WebIds of mapped attributes on the loaded wells, used for channel subscriptions
+  getChannelTargets(): ChannelTarget[] {
+    if (!this.structure) return [];
+
+    const targets: ChannelTarget[] = [];
+    Object.values(this.structure.wellsByPad).flat().forEach(wellElement => {
+      const attributeMapping = resolveAttributeMapping(this.mappingOptions, wellElement.TemplateName);
+      const attributes = this.structure?.attributesByWell[wellElement.WebId || ''] || [];
+      for (const settingsKey in attributeMapping) {
+        const piAfAttributeName = attributeMapping[settingsKey as keyof AttributeMapping];
+        const attribute = findMappedAttribute(piAfAttributeName, attributes)?.attribute;
+        if (attribute?.WebId) {
+          targets.push({ webId: attribute.WebId, wellId: getWellId(wellElement), settingsKey });
+        }
+      }
+    });
+
+    return targets;
+  }
+
+  // WebSocket URLs for streamsets/channel, split so each URL stays within server limits
+  getChannelUrls(webIds: string[], maxWebIdsPerChannel = 50): string[] {
+    if (!this.workingEndpoint) return [];
+
+    const socketEndpoint = this.workingEndpoint.replace(/^http/, 'ws');
+    const urls: string[] = [];
+    for (let i = 0; i < webIds.length; i += maxWebIdsPerChannel) {
+      const query = webIds.slice(i, i + maxWebIdsPerChannel).map(webId => `webId=${encodeURIComponent(webId)}`).join('&');
+      urls.push(`${socketEndpoint}/streamsets/channel?${query}&includeInitialValue=true`);
+    }
+
+    return urls;
+  }
+
+  // Apply values pushed over a channel and rebuild only the affected wells
+  applyChannelValues(targets: ChannelTarget[], values: Array<{ webId: string; value: AFValueContainer }>): WellPadData[] {
+    if (!this.structure) return [];
+
+    const targetsByWebId = new Map(targets.map(target => [target.webId, target]));
+    values.forEach(({ webId, value }) => {
+      const target = targetsByWebId.get(webId);
+      if (!target) return;
+
+      this.values.set(webId, value);
+      this.wellsById.delete(target.wellId);
+    });
+
+    return this.buildWellPads();
+  }
+
+  // Elements, attributes and current values of the last load, for the recorded data source
+  getRecording(): WellDataRecording | null {
+    if (!this.structure) return null;
+
+    const { padElements, wellsByPad, attributesByWell, ancestorsByPad } = this.structure;
+    return {
+      recordedAt: new Date().toISOString(),
+      pads: padElements.map(padElement => ({
+        element: padElement,
+        hierarchy: ancestorsByPad?.[padElement.WebId || ''],
+        wells: (wellsByPad[padElement.WebId || ''] || []).map(wellElement => ({
+          element: wellElement,
+          attributes: (attributesByWell[wellElement.WebId || ''] || []).map(attr => ({
+            Name: attr.Name,
+            Path: attr.Path,
+            WebId: attr.WebId,
+            DefaultUnitsNameAbbreviation: attr.DefaultUnitsNameAbbreviation,
+            CategoryNames: attr.CategoryNames,
+            Value: attr.WebId ? this.values.get(attr.WebId) : undefined
+          }))
+        }))
+      })),
+      warnings: this.loadWarnings
+    };
+  }
+
+  // Map the current values onto the loaded structure, reusing wells whose values have not changed
+  private buildWellPads(): WellPadData[] {
+    if (!this.structure) return [];
+
+    const { padElements, wellsByPad, attributesByWell, ancestorsByPad } = this.structure;
+    const result: WellPadData[] = [];
+
+    padElements.forEach((wellpadElement, i) => {
+      const wells: WellData[] = [];
+      (wellsByPad[wellpadElement.WebId || ''] || []).forEach(wellElement => {
+        const wellId = getWellId(wellElement);
+        const wellData = this.wellsById.get(wellId) || mapAttributesToWellData(
+          wellElement,
+          attributesByWell[wellElement.WebId || ''] || [],
+          this.values,
+          this.mappingOptions,
+          wellpadElement.Name
+        );
+        if (wellData) {
+          this.wellsById.set(wellId, wellData);
+          wells.push(wellData);
+        }
+      });
+
+      if (wells.length > 0) {
+        result.push(buildWellPadData(wellpadElement, i, wells, ancestorsByPad?.[wellpadElement.WebId || '']));
+      }
+    });
+
+    return result;
+  }
+
+  // Walk AF from the asset server down to well attributes; wells and attributes are resolved in batch round trips
+  private async resolveStructure(): Promise<AFStructure> {
+    // 1-2. Load databases and find the target database
+    const targetDb = await this.findTargetDatabase();
+
+    // 3. Navigate to wellpads
+    let wellpadElements: AFElement[];
+    if (this.config.parentElementPath && this.config.parentElementPath.trim() !== '') {
+      wellpadElements = await this.navigateToNestedElement(targetDb, this.config.parentElementPath);
+    } else {
+      console.log(`📋 Loading root elements from database`);
+      wellpadElements = await this.loadDatabaseElements(targetDb);
+    }
+
+    // 4. With the hierarchy enabled, those are fields and areas to walk down to the wellpads
+    const hierarchy = this.config.hierarchy?.enabled ? await this.walkHierarchy(wellpadElements, this.config.hierarchy) : null;
+    if (hierarchy) {
+      wellpadElements = hierarchy.padElements;
+    }
+
+    console.log(`📊 Found ${wellpadElements.length} wellpad elements`);
+
+    // 5. Resolve wells and attribute WebIds for every wellpad
+    const warnings: LoadTruncationWarning[] = [];
+    const { maxWellPads, maxWellsPerPad } = getLoadLimits(this.config);
+    const padElements = applyLimit(wellpadElements, maxWellPads);
+    const padWarning = getTruncationWarning('wellpads', wellpadElements.length, maxWellPads);
+    if (padWarning) warnings.push(padWarning);
+
+    const wellsByPad = await this.loadWellElementsForPads(padElements.filter(pad => !hierarchy?.directWellsByPad.has(pad.WebId || '')));
+    hierarchy?.directWellsByPad.forEach((wellElements, padWebId) => wellsByPad.set(padWebId, wellElements));
+    const limitedWellsByPad: AFStructure['wellsByPad'] = {};
+    padElements.forEach(pad => {
+      const wellElements = wellsByPad.get(pad.WebId || '') || [];
+      limitedWellsByPad[pad.WebId || ''] = applyLimit(wellElements, maxWellsPerPad);
+      const wellWarning = getTruncationWarning('wells', wellElements.length, maxWellsPerPad, pad.Name);
+      if (wellWarning) warnings.push(wellWarning);
+    });
+
+    const attributesByWell = await this.loadAttributesForWells(Object.values(limitedWellsByPad).flat());
+
+    return {
+      workingEndpoint: this.workingEndpoint || '',
+      padElements,
+      wellsByPad: limitedWellsByPad,
+      ancestorsByPad: hierarchy?.ancestorsByPad,
+      attributesByWell: Object.fromEntries(attributesByWell),
+      warnings,
+      attributeHierarchy: mappingUsesAttributePaths(this.mappingOptions),
+      builtAt: new Date().toISOString()
+    };
+  }
+
+  // POST a set of GET sub-requests to /batch in a single round trip
+  private async batch(resources: { [requestId: string]: string }): Promise<PIBatchResponses> {
+    if (Object.keys(resources).length === 0) return {};
+
+    const endpoint = await this.findWorkingEndpoint();
+    const requests = buildBatchRequests(endpoint || '', resources);
+    console.log(`📦 Sending batch with ${Object.keys(requests).length} requests`);
+    return this.request<PIBatchResponses>('/batch', requests);
+  }
+
+  // Walk down from the elements under the parent path one level per batch, classifying each element
+  // by the hierarchy templates, until only wellpads and wells are left or the max depth is reached
+  private async walkHierarchy(rootElements: AFElement[], settings: HierarchySettings): Promise<HierarchyWalk> {
+    const maxDepth = getMaxHierarchyDepth(settings);
+    const walk: HierarchyWalk = { padElements: [], directWellsByPad: new Map(), ancestorsByPad: {} };
+    // Container is the nearest field or area, which takes wells found directly below it
+    let level = rootElements.map(element => ({ element, ancestors: [] as HierarchyAncestor[], container: null as AFElement | null }));
+
+    for (let depth = 1; level.length > 0; depth++) {
+      const toWalk: typeof level = [];
+
+      level.forEach(({ element, ancestors, container }) => {
+        const kind = classifyHierarchyElement(element, settings, this.config.templateName, this.mappingOptions.templateMappings);
+        if (kind === 'pad') {
+          // A wellpad's wells are one level further down
+          if (depth >= maxDepth) {
+            console.log(`⚠️ Wellpad "${element.Name}" is at depth ${depth}; its wells are below the max depth of ${maxDepth}`);
+            return;
+          }
+          walk.padElements.push(element);
+          walk.ancestorsByPad[element.WebId || ''] = ancestors;
+        } else if (kind === 'well') {
+          if (!container?.WebId) {
+            console.log(`⚠️ Well "${element.Name}" is not below a wellpad, field or area - skipped`);
+            return;
+          }
+          if (!walk.directWellsByPad.has(container.WebId)) {
+            walk.directWellsByPad.set(container.WebId, []);
+            walk.padElements.push(container);
+            walk.ancestorsByPad[container.WebId] = ancestors;
+          }
+          walk.directWellsByPad.get(container.WebId)?.push(element);
+        } else if (depth < maxDepth) {
+          // Folders are walked through without adding a level
+          toWalk.push(kind === 'folder'
+            ? { element, ancestors, container }
+            : { element, ancestors: [...ancestors, { id: element.WebId || element.Path, name: element.Name, level: kind }], container: element });
+        } else {
+          console.log(`⚠️ ${kind === 'folder' ? 'Folder' : kind === 'field' ? 'Field' : 'Area'} "${element.Name}" is at the max depth of ${maxDepth} - skipped`);
+        }
+      });
+
+      if (toWalk.length === 0) break;
+
+      const resources: { [requestId: string]: string } = {};
+      toWalk.forEach(({ element }, i) => {
+        resources[`node${i}`] = `/elements/${element.WebId}/elements?${ELEMENT_FIELDS}`;
+      });
+      const pagedChildren = await loadAllPagesBatched<AFElement>(resources, pageResources => this.batch(pageResources));
+      level = toWalk.flatMap(({ ancestors, container }, i) =>
+        (pagedChildren.get(`node${i}`) || []).map(child => ({ element: child, ancestors, container }))
+      );
+      console.log(`🌳 Walked ${toWalk.length} elements at depth ${depth}: ${level.length} child elements`);
+    }
+
+    console.log(`🌳 Hierarchy walk found ${walk.padElements.length} wellpads (${walk.directWellsByPad.size} from wells directly under a field or area)`);
+    return walk;
+  }
+
+  // Child elements of every wellpad, filtered by template, keyed by wellpad WebId
+  private async loadWellElementsForPads(padElements: AFElement[]): Promise<Map<string, AFElement[]>> {
+    const resources: { [requestId: string]: string } = {};
+    padElements.forEach((pad, i) => {
+      resources[`pad${i}`] = `/elements/${pad.WebId}/elements?${ELEMENT_FIELDS}`;
+    });
+
+    const pagedWells = await loadAllPagesBatched<AFElement>(resources, pageResources => this.batch(pageResources));
+    const wellsByPad = new Map<string, AFElement[]>();
+    const templateNames = parseTemplateNames(this.config.templateName).map(name => name.toLowerCase());
+
+    padElements.forEach((pad, i) => {
+      let wellElements = pagedWells.get(`pad${i}`) || [];
+      if (templateNames.length > 0) {
+        const unfilteredCount = wellElements.length;
+        wellElements = wellElements.filter(el => templateNames.includes(el.TemplateName?.toLowerCase() || ''));
+        console.log(`🎯 Filtered ${unfilteredCount} → ${wellElements.length} wells in "${pad.Name}" by template "${this.config.templateName}"`);
+      }
+      wellsByPad.set(pad.WebId || '', wellElements);
+    });
+
+    return wellsByPad;
+  }
+
+  // Attribute names and WebIds of every well, keyed by well WebId
+  private async loadAttributesForWells(wellElements: AFElement[]): Promise<Map<string, AFAttribute[]>> {
+    const resources: { [requestId: string]: string } = {};
+    wellElements.forEach((well, i) => {
+      resources[`well${i}`] = this.getAttributesResource(well.WebId);
+    });
+
+    const responses = await this.batch(resources);
+    const attributesByWell = new Map<string, AFAttribute[]>();
+    wellElements.forEach((well, i) => {
+      const content = readBatchContent<{ Items?: AFAttribute[] }>(responses, `well${i}`);
+      attributesByWell.set(well.WebId || '', content?.Items || []);
+    });
+
+    return attributesByWell;
+  }
+
+  // Current values for many attributes via streamsets/value, all chunks in one batch
+  private async readCurrentValues(webIds: string[]): Promise<Map<string, AFValueContainer>> {
+    const resources = buildStreamSetValueResources(webIds);
+    const responses = await this.batch(resources);
+    const values = new Map<string, AFValueContainer>();
+
+    Object.keys(resources).forEach(requestId => {
+      const content = readBatchContent<{ Items?: Array<{ WebId: string; Value?: AFValueContainer }> }>(responses, requestId);
+      content?.Items?.forEach(item => {
+        if (item.Value) {
+          values.set(item.WebId, item.Value);
+        }
+      });
+    });
+
+    console.log(`📊 Read ${values.size} of ${webIds.length} attribute values`);
+    return values;
+  }
+
+  // Reachability plus database listing, used by the connection test buttons
+  async testConnection(): Promise<{ success: boolean; message: string; details?: unknown }> {
+    try {
+      const endpoint = await this.findWorkingEndpoint();
+      if (!endpoint) {
+        return {
+          success: false,
+          message: `No working PI Web API endpoints found for ${this.kind}-side access`
+        };
+      }
+
+      const databases = await this.loadDatabases();
+
+      return {
+        success: true,
+        message: `Connection successful - found ${databases.length} databases`,
+        details: { endpoint, databaseCount: databases.length }
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        message: `Connection failed: ${error instanceof Error ? error.message : String(error)}`,
+        details: error
+      };
+    }
+  }
+
+  // Validation method for configuration testing
+  async validateConfiguration(): Promise<{ isValid: boolean; error?: string; details?: string }> {
+    try {
+      const endpoint = await this.findWorkingEndpoint();
+      if (!endpoint) {
+        return {
+          isValid: false,
+          error: 'Cannot connect to PI Web API server',
+          details: `Server: ${this.config.piWebApiServerName}`
+        };
+      }
+
+      const databases = await this.loadDatabases();
+      const targetDb = databases.find(db =>
+        db.Name === this.config.afDatabaseName ||
+        db.Name.toLowerCase() === this.config.afDatabaseName.toLowerCase()
+      );
+
+      if (!targetDb) {
+        const availableDbs = databases.map(db => db.Name).join(', ');
+        return {
+          isValid: false,
+          error: `Database '${this.config.afDatabaseName}' not found`,
+          details: `Available databases: ${availableDbs}`
+        };
+      }
+
+      return {
+        isValid: true,
+        details: `Successfully connected to ${databases.length} databases`
+      };
+
+    } catch (error) {
+      return {
+        isValid: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        details: error instanceof Error ? error.stack : undefined
+      };
+    }
+  }
+}
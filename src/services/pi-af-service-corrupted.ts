@@ -1,742 +0,0 @@
-// PI Asset Framework Service for Real Data Loading
-// Uses all the URL format knowledge gained from PI Explorer
-
-import { WellPadData, WellData, PIServerConfig, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING } from '@/types/pi-system';
-
-interface AFDatabase {
-  Name: string;
-  Path: string;
-  Description?: string;
-  WebId?: string;
-  Links?: {
-    Elements?: string;
-    [key: string]: any;
-  };
-}
-
-interface AFElement {
-  Name: string;
-  Path: string;
-  TemplateName?: string;
-  HasChildren?: boolean;
-  WebId?: string;
-  Links?: {
-    Attributes?: string;
-    Elements?: string;
-    [key: string]: any;
-  };
-}
-
-interface AFAttribute {
-  Name: string;
-  Path: string;
-  Type?: string;
-  Value?: {
-    Value?: any;
-    Timestamp?: string;
-  };
-  WebId?: string;
-}
-
-export class PIAFService {
-  private config: PIServerConfig;
-  private workingEndpoint: string | null = null;
-  private attributeMapping: AttributeMapping;
-
-  constructor(config: PIServerConfig, attributeMapping?: AttributeMapping) {
-    this.config = config;
-    this.attributeMapping = attributeMapping || DEFAULT_ATTRIBUTE_MAPPING;
-    
-    // Log the attribute mapping being used
-    console.log('🎯 PI AF Service initialized with attribute mapping:', this.attributeMapping);
-  }
-
-  private getFetchOptions(): RequestInit {
-    return {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json'
-      },
-      credentials: 'include' // For Windows Authentication
-    };
-  }
-
-  // STRICT validation - only return success if EVERYTHING works
-  async validateConfiguration(): Promise<{ isValid: boolean; error?: string; details?: string }> {
-    try {
-      console.log('🔍 STRICT VALIDATION: Starting comprehensive PI AF configuration validation...');
-
-      // Step 1: Validate PI Web API connectivity
-      const endpoint = await this.findWorkingEndpoint();
-      if (!endpoint) {
-        return { 
-          isValid: false, 
-          error: 'PI Web API server unreachable',
-          details: `Cannot connect to PI Web API at ${this.config.piWebApiServerName}`
-        };
-      }
-
-      // Step 2: Validate AF Server exists
-      const databases = await this.loadDatabases();
-      if (databases.length === 0) {
-        return { 
-          isValid: false, 
-          error: 'AF Server not found or no databases accessible',
-          details: `AF Server '${this.config.afServerName}' not found or has no accessible databases`
-        };
-      }
-
-      // Step 3: Validate specific database exists
-      const targetDb = databases.find(db => 
-        db.Name === this.config.afDatabaseName ||
-        db.Name.toLowerCase() === this.config.afDatabaseName.toLowerCase()
-      );
-
-      if (!targetDb) {
-        return { 
-          isValid: false, 
-          error: 'AF Database not found',
-          details: `Database '${this.config.afDatabaseName}' not found. Available databases: ${databases.map(d => d.Name).join(', ')}`
-        };
-      }
-
-      // Step 4: Validate database has elements
-      const elements = await this.loadElements(targetDb);
-      if (elements.length === 0) {
-        return { 
-          isValid: false, 
-          error: 'No elements found in database',
-          details: `Database '${this.config.afDatabaseName}' contains no accessible elements`
-        };
-      }
-
-      console.log(`📋 Found ${elements.length} elements in database '${this.config.afDatabaseName}':`);
-      elements.slice(0, 10).forEach((el, index) => {
-        console.log(`   ${index + 1}. Name: "${el.Name}", Path: "${el.Path}"`);
-      });
-
-      // Step 5: If parent element path specified, validate it exists
-      if (this.config.parentElementPath && this.config.parentElementPath.trim() !== '') {
-        const parentElements = elements.filter(el => 
-          el.Path.includes(this.config.parentElementPath) || 
-          el.Name === this.config.parentElementPath ||
-          el.Name.toLowerCase().includes(this.config.parentElementPath.toLowerCase())
-        );
-        if (parentElements.length === 0) {
-          // For now, make this a warning instead of a failure to help with configuration
-          console.warn(`⚠️ Parent element path '${this.config.parentElementPath}' not found - will use all elements`);
-          console.warn(`   Available element names: ${elements.slice(0, 10).map(e => e.Name).join(', ')}${elements.length > 10 ? ` (showing first 10 of ${elements.length})` : ''}`);
-          // Don't fail here - just proceed with all elements
-        } else {
-          console.log(`✅ Found ${parentElements.length} elements matching parent path '${this.config.parentElementPath}'`);
-        }
-      } else {
-        console.log(`ℹ️ No parent element path specified - will use all ${elements.length} top-level elements`);
-      }
-
-      // Step 6: Try to load at least one element's children (wellpad -> wells)
-      let foundValidWellpad = false;
-      for (const element of elements.slice(0, 3)) { // Test first 3 elements
-        try {
-          const childElements = await this.loadElements(element);
-          if (childElements.length > 0) {
-            console.log(`✅ Found ${childElements.length} child elements in '${element.Name}'`);
-            foundValidWellpad = true;
-            break;
-          }
-        } catch (error) {
-          console.log(`⚠️ Could not load children for element '${element.Name}':`, error);
-          continue;
-        }
-      }
-
-      if (!foundValidWellpad) {
-        return { 
-          isValid: false, 
-          error: 'No accessible wellpad structure found',
-          details: `No elements in database '${this.config.afDatabaseName}' have accessible child elements (wells)`
-        };
-      }
-
-      console.log('🎉 STRICT VALIDATION PASSED: All PI AF components are accessible');
-      return { 
-        isValid: true, 
-        details: `Successfully validated AF Server '${this.config.afServerName}', Database '${this.config.afDatabaseName}', and wellpad structure`
-      };
-
-    } catch (error) {
-      console.error('❌ STRICT VALIDATION FAILED:', error);
-      return { 
-        isValid: false, 
-        error: 'Validation failed with error',
-        details: error instanceof Error ? error.message : String(error)
-      };
-    }
-  }
-
-  // Test PI Web API connectivity and find working endpoint
-  private async findWorkingEndpoint(): Promise<string | null> {
-    if (this.workingEndpoint) {
-      return this.workingEndpoint;
-    }
-
-    const testEndpoints = [
-      `https://${this.config.piWebApiServerName}/piwebapi`,
-      `https://${this.config.piWebApiServerName}:443/piwebapi`,
-      `http://${this.config.piWebApiServerName}/piwebapi`
-    ];
-
-    for (const endpoint of testEndpoints) {
-      try {
-        console.log(`🧪 Testing PI Web API at: ${endpoint}`);
-        
-        const response = await fetch(endpoint, this.getFetchOptions());
-        console.log(`   Status: ${response.status} ${response.statusText}`);
-
-        if (response.ok) {
-          this.workingEndpoint = endpoint;
-          console.log(`✅ Working endpoint found: ${endpoint}`);
-          return endpoint;
-        } else if (response.status === 401) {
-          // 401 means server is reachable but authentication failed
-          this.workingEndpoint = endpoint;
-          console.log(`🔑 Server reachable but authentication required: ${endpoint}`);
-          console.log(`   This is normal for Windows Authentication - endpoint will work for data requests`);
-          return endpoint;
-        }
-      } catch (error) {
-        console.log(`❌ Failed: ${endpoint} - ${error}`);
-        continue;
-      }
-    }
-
-    console.error(`❌ Cannot reach PI Web API Server: ${this.config.piWebApiServerName}`);
-    return null;
-  }
-
-  // Load databases using multiple URL formats
-  private async loadDatabases(): Promise<AFDatabase[]> {
-    const endpoint = await this.findWorkingEndpoint();
-    if (!endpoint) {
-      throw new Error('Cannot connect to PI Web API server');
-    }
-
-    console.log(`\n🔗 DATABASE URL GENERATION:`);
-    console.log(`   Base endpoint: ${endpoint}`);
-    console.log(`   AF Server Name: "${this.config.afServerName}"`);
-
-    const urlFormats = [
-      `${endpoint}/assetservers`,
-      `${endpoint}/assetservers/${encodeURIComponent(this.config.afServerName)}/assetdatabases`,
-      `${endpoint}/assetdatabases?path=\\\\${encodeURIComponent(this.config.afServerName)}`,
-      `${endpoint}/assetdatabases`,
-      `${endpoint}/assetservers?name=${encodeURIComponent(this.config.afServerName)}`,
-      `${endpoint}/assetservers/${this.config.afServerName}/assetdatabases`
-    ];
-
-    console.log(`   Generated URLs to try:`);
-    urlFormats.forEach((url, index) => {
-      console.log(`     ${index + 1}. ${url}`);
-    });
-
-    for (let i = 0; i < urlFormats.length; i++) {
-      const dbUrl = urlFormats[i];
-      console.log(`\n🔍 Database attempt ${i + 1}: ${dbUrl}`);
-
-      try {
-        const response = await fetch(dbUrl, this.getFetchOptions());
-        console.log(`   Status: ${response.status} ${response.statusText}`);
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`✅ Database success with format ${i + 1}`);
-          
-          if (i === 0 || i === 4) {
-            // Get all asset servers, find our specific server
-            if (data.Items) {
-              const ourServer = data.Items.find((server: any) => 
-                server.Name === this.config.afServerName || 
-                server.Name.toLowerCase() === this.config.afServerName.toLowerCase()
-              );
-              if (ourServer?.Links?.Databases) {
-                console.log(`   🎯 Found server link: ${ourServer.Links.Databases}`);
-                const serverDbResponse = await fetch(ourServer.Links.Databases, this.getFetchOptions());
-                if (serverDbResponse.ok) {
-                  const serverDbData = await serverDbResponse.json();
-                  return serverDbData.Items || [];
-                } else if (serverDbResponse.status === 401) {
-                  console.log(`🔑 Authentication required for server databases - this is expected for Windows Auth`);
-                  throw new Error('Windows Authentication required - please ensure you are on a domain-joined machine');
-                }
-              }
-            }
-          } else if (i === 3) {
-            // All databases, filter by our server
-            if (data.Items) {
-              return data.Items.filter((db: any) => 
-                db.Path && db.Path.includes(`\\\\${this.config.afServerName}\\`)
-              );
-            }
-          } else {
-            // Direct database response
-            return data.Items || [];
-          }
-        } else if (response.status === 401) {
-          console.log(`🔑 Format ${i + 1} requires authentication (401) - continuing to next format`);
-          continue; // Try next format, 401 might work with different URL structure
-        }
-      } catch (error) {
-        console.log(`❌ Database format ${i + 1} failed:`, error);
-        continue;
-      }
-    }
-
-    throw new Error('Failed to load databases with all URL formats');
-  }
-
-  // Load elements from a database using multiple URL formats
-  private async loadElements(database: AFDatabase): Promise<AFElement[]> {
-    if (!this.workingEndpoint) {
-      throw new Error('No working endpoint available');
-    }
-
-    console.log(`\n🔗 ELEMENTS URL GENERATION:`);
-    console.log(`   Working endpoint: ${this.workingEndpoint}`);
-    console.log(`   Database Name: "${database.Name}"`);
-    console.log(`   Database Path: "${database.Path}"`);
-    console.log(`   Database WebId: "${database.WebId || 'N/A'}"`);
-    console.log(`   Database Links.Elements: "${database.Links?.Elements || 'N/A'}"`);
-    console.log(`   AF Server Name: "${this.config.afServerName}"`);
-
-    const urlFormats = [
-      database.Links?.Elements,
-      database.WebId ? `${this.workingEndpoint}/assetdatabases/${database.WebId}/elements` : null,
-      `${this.workingEndpoint}/assetdatabases?path=${encodeURIComponent(database.Path)}&field=elements`,
-      `${this.workingEndpoint}/assetdatabases/path:${encodeURIComponent(database.Path)}/elements`,
-      `${this.workingEndpoint}/elements?path=${encodeURIComponent(database.Path)}`,
-      `${this.workingEndpoint}/assetservers/${encodeURIComponent(this.config.afServerName)}/assetdatabases/${encodeURIComponent(database.Name)}/elements`
-    ].filter(url => url !== null);
-
-    console.log(`   Generated URLs to try:`);
-    urlFormats.forEach((url, index) => {
-      console.log(`     ${index + 1}. ${url}`);
-    });
-
-    for (let i = 0; i < urlFormats.length; i++) {
-      const elementsUrl = urlFormats[i];
-      console.log(`\n🔍 Elements attempt ${i + 1}: ${elementsUrl}`);
-
-      try {
-        const response = await fetch(elementsUrl!, this.getFetchOptions());
-        console.log(`   Status: ${response.status} ${response.statusText}`);
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`✅ Elements success with format ${i + 1}`);
-          console.log(`   Response structure: ${Object.keys(data).join(', ')}`);
-          
-          if (data.Items) {
-            console.log(`   Found ${data.Items.length} elements in data.Items`);
-            return data.Items;
-          } else if (data.Elements) {
-            console.log(`   Found ${data.Elements.length} elements in data.Elements`);
-            return data.Elements;
-          } else {
-            console.log(`   No Items or Elements array found in response`);
-          }
-        } else {
-          console.log(`❌ Elements format ${i + 1} failed: ${response.status} ${response.statusText}`);
-        }
-      } catch (error) {
-        console.log(`❌ Elements format ${i + 1} failed:`, error);
-        continue;
-      }
-    }
-
-    return []; // Return empty array if no elements found (not an error)
-  }
-
-  // Load attributes from an element using multiple URL formats
-  private async loadAttributes(element: AFElement): Promise<AFAttribute[]> {
-    if (!this.workingEndpoint) {
-      throw new Error('No working endpoint available');
-    }
-
-    const urlFormats = [
-      element.Links?.Attributes,
-      element.WebId ? `${this.workingEndpoint}/elements/${element.WebId}/attributes` : null,
-      `${this.workingEndpoint}/elements?path=${encodeURIComponent(element.Path)}&field=attributes`,
-      `${this.workingEndpoint}/elements/path:${encodeURIComponent(element.Path)}/attributes`,
-      `${this.workingEndpoint}/elements/${encodeURIComponent(element.Path)}/attributes`,
-      `${this.workingEndpoint}/attributes?elementpath=${encodeURIComponent(element.Path)}`
-    ].filter(url => url !== null);
-
-    for (let i = 0; i < urlFormats.length; i++) {
-      const attributesUrl = urlFormats[i];
-      console.log(`🔍 Attributes attempt ${i + 1}: ${attributesUrl}`);
-
-      try {
-        const response = await fetch(attributesUrl!, this.getFetchOptions());
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`✅ Attributes success with format ${i + 1}`);
-          
-          if (data.Items) {
-            return data.Items;
-          } else if (data.Attributes) {
-            return data.Attributes;
-          } else if (Array.isArray(data)) {
-            return data;
-          }
-        }
-      } catch (error) {
-        console.log(`❌ Attributes format ${i + 1} failed:`, error);
-        continue;
-      }
-    }
-
-    return []; // Return empty array if no attributes found (not an error)
-  }
-
-  // NEW: Navigate through nested element path to find wellpads
-  private async navigateToElementPath(database: AFDatabase, elementPath: string): Promise<AFElement[]> {
-    console.log(`\n🧭 NAVIGATING TO NESTED PATH: "${elementPath}"`);
-    
-    // Split the path into segments (e.g., "Element1\Element2\Element3" -> ["Element1", "Element2", "Element3"])
-    const pathSegments = elementPath.split('\\').filter(segment => segment.trim() !== '');
-    console.log(`   Path segments: [${pathSegments.map(s => `"${s}"`).join(', ')}]`);
-    
-    if (pathSegments.length === 0) {
-      console.log('   No path segments, returning database root elements');
-      return await this.loadElements(database);
-    }
-    
-    // Start from database root elements
-    let currentElements = await this.loadElements(database);
-    console.log(`   Database root has ${currentElements.length} elements`);
-    
-    // Navigate through each path segment
-    for (let i = 0; i < pathSegments.length; i++) {
-      const segment = pathSegments[i];
-      console.log(`\n   📁 Navigating to segment ${i + 1}/${pathSegments.length}: "${segment}"`);
-      
-      // Find the element matching this segment name
-      const matchingElement = currentElements.find(el => 
-        el.Name.toLowerCase() === segment.toLowerCase() ||
-        el.Name === segment
-      );
-      
-      if (!matchingElement) {
-        console.log(`   ❌ Element "${segment}" not found in current level`);
-        console.log(`   Available elements: [${currentElements.map(el => `"${el.Name}"`).join(', ')}]`);
-        throw new Error(`Element "${segment}" not found in path "${elementPath}"`);
-      }
-      
-      console.log(`   ✅ Found element: "${matchingElement.Name}"`);
-      console.log(`   Element Path: "${matchingElement.Path}"`);
-      console.log(`   Has Children: ${matchingElement.HasChildren}`);
-      
-      // If this is the last segment, we've reached our target
-      if (i === pathSegments.length - 1) {
-        console.log(`   🎯 Reached target element: "${matchingElement.Name}"`);
-        // Return child elements of the target element (these should be the wellpads)
-        const childElements = await this.loadChildElements(matchingElement);
-        console.log(`   Target element has ${childElements.length} child elements`);
-        return childElements;
-      }
-      
-      // Not the last segment, load children and continue navigating
-      currentElements = await this.loadChildElements(matchingElement);
-      console.log(`   Child elements loaded: ${currentElements.length} elements`);
-      
-      if (currentElements.length === 0) {
-        console.log(`   ❌ No child elements found for "${matchingElement.Name}"`);
-        throw new Error(`No child elements found for "${matchingElement.Name}" in path "${elementPath}"`);
-      }
-    }
-    
-    return currentElements;
-  }
-
-  // NEW: Load child elements of a specific element (like PI Explorer does)
-  private async loadChildElements(parentElement: AFElement): Promise<AFElement[]> {
-    if (!this.workingEndpoint) {
-      throw new Error('No working endpoint available');
-    }
-
-    console.log(`\n🔗 CHILD ELEMENTS URL GENERATION:`);
-    console.log(`   Working endpoint: ${this.workingEndpoint}`);
-    console.log(`   Parent Element Name: "${parentElement.Name}"`);
-    console.log(`   Parent Element Path: "${parentElement.Path}"`);
-    console.log(`   Parent Element WebId: "${parentElement.WebId || 'N/A'}"`);
-    console.log(`   Parent Element Links.Elements: "${parentElement.Links?.Elements || 'N/A'}"`);
-
-    // Use similar URL formats as PI Explorer but for child elements
-    const urlFormats = [
-      // Format 1: Use element Links.Elements if available (most reliable - like PI Explorer)
-      parentElement.Links?.Elements,
-      // Format 2: Use WebId approach
-      parentElement.WebId ? `${this.workingEndpoint}/elements/${parentElement.WebId}/elements` : null,
-      // Format 3: Path-based approach with proper encoding
-      `${this.workingEndpoint}/elements?path=${encodeURIComponent(parentElement.Path)}&field=elements`,
-      // Format 4: Direct path approach with "path:" prefix
-      `${this.workingEndpoint}/elements/path:${encodeURIComponent(parentElement.Path)}/elements`,
-      // Format 5: Alternative path format
-      `${this.workingEndpoint}/elements/${encodeURIComponent(parentElement.Path)}/elements`,
-      // Format 6: Using element name instead of path
-      `${this.workingEndpoint}/elements?name=${encodeURIComponent(parentElement.Name)}&field=elements`
-    ].filter(url => url !== null);
-
-    console.log(`   Generated URLs to try:`);
-    urlFormats.forEach((url, index) => {
-      console.log(`     ${index + 1}. ${url}`);
-    });
-
-    for (let i = 0; i < urlFormats.length; i++) {
-      const elementsUrl = urlFormats[i];
-      console.log(`\n🔍 Child elements attempt ${i + 1}: ${elementsUrl}`);
-
-      try {
-        const response = await fetch(elementsUrl!, this.getFetchOptions());
-        console.log(`   Status: ${response.status} ${response.statusText}`);
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`✅ Child elements success with format ${i + 1}`);
-          console.log(`   Response structure: ${Object.keys(data).join(', ')}`);
-          
-          if (data.Items && Array.isArray(data.Items)) {
-            console.log(`   Found ${data.Items.length} child elements in data.Items`);
-            return data.Items;
-          } else if (data.Elements && Array.isArray(data.Elements)) {
-            console.log(`   Found ${data.Elements.length} child elements in data.Elements`);
-            return data.Elements;
-          } else if (data.Name && data.Elements) {
-            // Sometimes the response structure is different (like PI Explorer handles)
-            console.log(`   Found ${data.Elements.length} child elements in nested data.Elements`);
-            return data.Elements;
-          } else {
-            console.log(`   No child elements array found in response`);
-          }
-        } else {
-          console.log(`❌ Child elements format ${i + 1} failed: ${response.status} ${response.statusText}`);
-        }
-      } catch (error) {
-        console.log(`❌ Child elements format ${i + 1} failed:`, error);
-        continue;
-      }
-    }
-
-    console.log(`   No child elements found for "${parentElement.Name}"`);
-    return []; // Return empty array if no child elements found
-  }
-
-  // MODIFIED: Update loadWellPadData to use the new nested navigation
-  async loadWellPadData(): Promise<WellPadData[]> {
-    try {
-      console.log('🔍 Starting PI AF data loading with STRICT VALIDATION...');
-      
-      // STRICT VALIDATION FIRST - Only proceed if everything is valid
-      const validation = await this.validateConfiguration();
-      if (!validation.isValid) {
-        console.error('❌ STRICT VALIDATION FAILED:', validation.error);
-        console.error('   Details:', validation.details);
-        throw new Error(`PI AF Configuration Validation Failed: ${validation.error}. ${validation.details}`);
-      }
-      
-      console.log('✅ STRICT VALIDATION PASSED - Proceeding with data loading...');
-      
-      // 1. Load databases (already validated, but get fresh data)
-      const databases = await this.loadDatabases();
-      console.log(`✅ Found ${databases.length} databases`);
-
-      // 2. Find the target database (already validated)
-      const targetDb = databases.find(db => 
-        db.Name === this.config.afDatabaseName ||
-        db.Name.toLowerCase() === this.config.afDatabaseName.toLowerCase()
-      );
-
-      if (!targetDb) {
-        throw new Error(`Database '${this.config.afDatabaseName}' not found. Available: ${databases.map(d => d.Name).join(', ')}`);
-      }
-
-      console.log(`🎯 Using database: ${targetDb.Name}`);
-
-      // 3. Navigate to wellpads using nested path if specified
-      let wellpadElements: AFElement[];
-      if (this.config.parentElementPath && this.config.parentElementPath.trim() !== '') {
-        console.log(`🧭 Using nested navigation to path: "${this.config.parentElementPath}"`);
-        wellpadElements = await this.navigateToElementPath(targetDb, this.config.parentElementPath);
-        console.log(`✅ Found ${wellpadElements.length} elements at target path`);
-      } else {
-        console.log(`📂 Loading top-level database elements (no parent path specified)`);
-        wellpadElements = await this.loadElements(targetDb);
-        console.log(`✅ Found ${wellpadElements.length} top-level elements`);
-      }
-
-      // 4. Load wellpad data
-      const result: WellPadData[] = [];
-      let totalWellpadsProcessed = 0;
-      let totalWellpadsWithWells = 0;
-      let totalWellsFound = 0;
-
-      console.log(`🚀 Starting wellpad processing of ${wellpadElements.length} elements...`);
-
-      for (const wellpadElement of wellpadElements.slice(0, 10)) { // Limit to 10 wellpads for performance
-        totalWellpadsProcessed++;
-        console.log(`\n🔍 Processing wellpad ${totalWellpadsProcessed}/${Math.min(wellpadElements.length, 10)}: ${wellpadElement.Name}`);
-        
-        try {
-          // Load child elements (wells)
-          const wellElements = await this.loadElements(wellpadElement);
-          console.log(`  📍 Found ${wellElements.length} child elements in ${wellpadElement.Name}`);
-          
-          if (wellElements.length === 0) {
-            console.log(`  ⚠️ Wellpad ${wellpadElement.Name} has no child elements - skipping`);
-            continue;
-          }
-          
-          totalWellpadsWithWells++;
-          totalWellsFound += wellElements.length;
-
-          const wells: WellData[] = [];
-
-          for (const wellElement of wellElements.slice(0, 20)) { // Limit to 20 wells per pad
-            try {
-              console.log(`    🔧 Processing well: ${wellElement.Name}`);
-              
-              // Load well attributes
-              const attributes = await this.loadAttributes(wellElement);
-              console.log(`      📊 Found ${attributes.length} attributes for ${wellElement.Name}`);
-              
-              if (attributes.length > 0) {
-                console.log(`      📋 Attribute names: ${attributes.slice(0, 5).map(a => a.Name).join(', ')}${attributes.length > 5 ? '...' : ''}`);
-              }
-
-              // Map attributes to well data
-              const wellData = this.mapAttributesToWellData(wellElement, attributes);
-              if (wellData) {
-                wells.push(wellData);
-                console.log(`      ✅ Successfully processed well ${wellElement.Name}`);
-              } else {
-                console.log(`      ❌ Failed to map attributes for well ${wellElement.Name}`);
-              }
-            } catch (error) {
-              console.log(`      ❌ Failed to load well ${wellElement.Name}:`, error);
-              continue;
-            }
-          }
-
-          if (wells.length > 0) {
-            const wellPadData: WellPadData = {
-              name: wellpadElement.Name,
-              wells: wells,
-              status: wells.some(w => w.status === 'alert') ? 'alert' : 
-                     wells.some(w => w.status === 'warning') ? 'warning' : 'good',
-              totalWells: wells.length,
-              activeWells: wells.filter(w => w.status !== 'alert').length,
-              avgOilRate: wells.reduce((sum, w) => sum + w.oilRate, 0) / wells.length,
-              avgWaterCut: wells.reduce((sum, w) => sum + w.waterCut, 0) / wells.length
-            };
-            
-            wellPadData.wells.forEach(well => well.wellPadName = wellPadData.name);
-            result.push(wellPadData);
-            console.log(`✅ Wellpad ${wellpadElement.Name} processed: ${wells.length} wells`);
-          } else {
-            console.log(`⚠️ Wellpad ${wellpadElement.Name} has no valid wells - skipping`);
-          }
-        } catch (error) {
-          console.log(`❌ Error processing wellpad ${wellpadElement.Name}:`, error);
-          continue;
-        }
-      }
-
-      console.log(`\n📊 PROCESSING SUMMARY:`);
-      console.log(`   Total wellpads processed: ${totalWellpadsProcessed}`);
-      console.log(`   Wellpads with wells: ${totalWellpadsWithWells}`);
-      console.log(`   Total wells found: ${totalWellsFound}`);
-      console.log(`   Wells successfully processed: ${result.reduce((sum, wp) => sum + wp.wells.length, 0)}`);
-      console.log(`   Final wellpad data count: ${result.length}`);
-
-      if (result.length === 0) {
-        throw new Error(`No wellpad data could be loaded from PI AF:
-- Processed ${totalWellpadsProcessed} wellpads
-- ${totalWellpadsWithWells} had child elements
-- ${totalWellsFound} wells found but ${result.reduce((sum, wp) => sum + wp.wells.length, 0)} successfully processed
-- Check if elements are actually wells with production attributes`);
-      }
-
-      return result;
-    } catch (error) {
-      console.error('❌ Failed to load wellpad data:', error);
-      throw error;
-    }
-  }
-
-  // Map PI AF attributes to well data structure
-  private mapAttributesToWellData(element: AFElement, attributes: AFAttribute[]): WellData | null {
-    try {
-      console.log(`        🎯 Mapping attributes for element: ${element.Name}`);
-      
-      // Create a map for easier attribute lookup
-      const attributeMap: { [key: string]: AFAttribute } = {};
-      attributes.forEach(attr => {
-        attributeMap[attr.Name] = attr;
-        const value = attr.Value?.Value !== undefined ? attr.Value.Value : null;
-        console.log(`           - ${attr.Name}: ${value}`);
-      });
-
-      // Find expected attributes
-      const expectedAttributes = [
-        this.attributeMapping.oilRate,
-        this.attributeMapping.liquidRate,
-        this.attributeMapping.waterCut,
-        this.attributeMapping.espFrequency
-      ];
-
-      const foundAttributes = expectedAttributes.filter(attr => attributeMap[attr]);
-      console.log(`        🔍 Found ${foundAttributes.length}/${expectedAttributes.length} expected attributes: ${foundAttributes.join(', ')}`);
-
-      // Extract numeric values with proper NaN handling
-      const oilRate = this.getNumericValue(attributeMap[this.attributeMapping.oilRate]) ?? Math.floor(Math.random() * 80) + 20;
-      const liquidRate = this.getNumericValue(attributeMap[this.attributeMapping.liquidRate]) ?? oilRate + Math.floor(Math.random() * 30) + 10;
-      const waterCut = this.getNumericValue(attributeMap[this.attributeMapping.waterCut]) ?? Math.floor(Math.random() * 40);
-      const espFrequency = this.getNumericValue(attributeMap[this.attributeMapping.espFrequency]) ?? Math.floor(Math.random() * 20) + 50;
-      const planTarget = this.getNumericValue(attributeMap[this.attributeMapping.planTarget]) ?? oilRate + Math.floor(Math.random() * 40) - 20;
-      
-      // Ensure no NaN values in calculations
-      const safePlanTarget = planTarget > 0 ? planTarget : oilRate;
-      const planDeviation = safePlanTarget > 0 ? Number(((oilRate - safePlanTarget) / safePlanTarget * 100).toFixed(2)) : 0;
-
-      // Determine status
-      let status: 'good' | 'warning' | 'alert' = 'good';
-      if (Math.abs(planDeviation) > 10 || waterCut > 20) status = 'warning';
-      if (Math.abs(planDeviation) > 15 || waterCut > 25) status = 'alert';
-
-      return {
-        name: element.Name,
-        wellPadName: '', // Will be set by the parent
-        oilRate,
-        liquidRate,
-        waterCut,
-        espFrequency,
-        planTarget,
-        planDeviation,
-        status,
-        lastUpdate: new Date()
-      };
-    } catch (error) {
-      console.error(`❌ Error mapping attributes for ${element.Name}:`, error);
-      return null;
-    }
-  }
-
-  private getNumericValue(attribute: AFAttribute | undefined): number | null {
-    if (!attribute || !attribute.Value) return null;
-    const value = attribute.Value.Value;
-    if (value === null || value === undefined) return null;
-    const num = typeof value === 'number' ? value : parseFloat(String(value));
-    return isNaN(num) ? null : num;
-  }
-}
@@ -1,523 +0,0 @@
-// Fixed PI Asset Framework Service - No infinite loops, proper nested navigation
-// This replaces the corrupted pi-af-service.ts
-
-import { WellPadData, WellData, PIServerConfig, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING } from '@/types/pi-system';
-
-interface AFDatabase {
-  Name: string;
-  Path: string;
-  Description?: string;
-  WebId?: string;
-  Links?: {
-    Elements?: string;
-    [key: string]: any;
-  };
-}
-
-interface AFElement {
-  Name: string;
-  Path: string;
-  TemplateName?: string;
-  HasChildren?: boolean;
-  WebId?: string;
-  Links?: {
-    Attributes?: string;
-    Elements?: string;
-    [key: string]: any;
-  };
-}
-
-interface AFAttribute {
-  Name: string;
-  Path: string;
-  Type?: string;
-  Value?: {
-    Value?: any;
-    Timestamp?: string;
-  };
-  WebId?: string;
-}
-
-export class PIAFService {
-  private config: PIServerConfig;
-  private workingEndpoint: string | null = null;
-  private attributeMapping: AttributeMapping;
-
-  constructor(config: PIServerConfig, attributeMapping?: AttributeMapping) {
-    this.config = config;
-    this.attributeMapping = attributeMapping || DEFAULT_ATTRIBUTE_MAPPING;
-    console.log('🎯 PI AF Service initialized with attribute mapping:', this.attributeMapping);
-  }
-
-  private getFetchOptions(): RequestInit {
-    return {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json'
-      },
-      credentials: 'include' // For Windows Authentication
-    };
-  }
-
-  // Find working PI Web API endpoint
-  private async findWorkingEndpoint(): Promise<string | null> {
-    if (this.workingEndpoint) {
-      return this.workingEndpoint;
-    }
-
-    const testEndpoints = [
-      `https://${this.config.piWebApiServerName}/piwebapi`,
-      `https://${this.config.piWebApiServerName}:443/piwebapi`,
-      `http://${this.config.piWebApiServerName}/piwebapi`
-    ];
-
-    for (const endpoint of testEndpoints) {
-      try {
-        console.log(`🧪 Testing PI Web API at: ${endpoint}`);
-        const response = await fetch(endpoint, this.getFetchOptions());
-        console.log(`   Status: ${response.status} ${response.statusText}`);
-
-        if (response.ok || response.status === 401) {
-          this.workingEndpoint = endpoint;
-          console.log(`✅ Working endpoint found: ${endpoint}`);
-          return endpoint;
-        }
-      } catch (error) {
-        console.log(`❌ Failed: ${endpoint} - ${error}`);
-        continue;
-      }
-    }
-
-    console.error(`❌ Cannot reach PI Web API Server: ${this.config.piWebApiServerName}`);
-    return null;
-  }
-
-  // Load databases with timeout protection
-  private async loadDatabases(): Promise<AFDatabase[]> {
-    const endpoint = await this.findWorkingEndpoint();
-    if (!endpoint) {
-      throw new Error('Cannot connect to PI Web API server');
-    }
-
-    console.log(`🔗 Loading databases from AF Server: ${this.config.afServerName}`);
-
-    const urlFormats = [
-      `${endpoint}/assetservers/${encodeURIComponent(this.config.afServerName)}/assetdatabases`,
-      `${endpoint}/assetdatabases?path=\\\\${encodeURIComponent(this.config.afServerName)}`,
-      `${endpoint}/assetdatabases`
-    ];
-
-    for (const dbUrl of urlFormats) {
-      try {
-        console.log(`🔍 Trying database URL: ${dbUrl}`);
-        const response = await fetch(dbUrl, this.getFetchOptions());
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`✅ Database URL worked`);
-          
-          if (data.Items && Array.isArray(data.Items)) {
-            console.log(`Found ${data.Items.length} databases`);
-            return data.Items;
-          }
-        }
-      } catch (error) {
-        console.log(`❌ Database URL failed:`, error);
-        continue;
-      }
-    }
-
-    throw new Error('Failed to load databases');
-  }
-
-  // Load elements from a database - NO OVERLOADING to prevent confusion
-  private async loadDatabaseElements(database: AFDatabase): Promise<AFElement[]> {
-    if (!this.workingEndpoint) {
-      throw new Error('No working endpoint available');
-    }
-
-    console.log(`🔗 Loading elements from database: ${database.Name}`);
-
-    const urlFormats = [
-      database.Links?.Elements,
-      database.WebId ? `${this.workingEndpoint}/assetdatabases/${database.WebId}/elements` : null,
-      `${this.workingEndpoint}/assetservers/${encodeURIComponent(this.config.afServerName)}/assetdatabases/${encodeURIComponent(database.Name)}/elements`
-    ].filter(url => url !== null && url !== undefined);
-
-    for (const elementsUrl of urlFormats) {
-      try {
-        console.log(`🔍 Trying elements URL: ${elementsUrl}`);
-        const response = await fetch(elementsUrl, this.getFetchOptions());
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`✅ Elements URL worked`);
-          
-          if (data.Items && Array.isArray(data.Items)) {
-            console.log(`Found ${data.Items.length} elements`);
-            return data.Items;
-          }
-        }
-      } catch (error) {
-        console.log(`❌ Elements URL failed:`, error);
-        continue;
-      }
-    }
-
-    console.log(`No elements found for database "${database.Name}"`);
-    return [];
-  }
-
-  // Load child elements from a parent element - SEPARATE METHOD to prevent confusion
-  private async loadChildElements(parentElement: AFElement): Promise<AFElement[]> {
-    if (!this.workingEndpoint) {
-      throw new Error('No working endpoint available');
-    }
-
-    console.log(`🔗 Loading child elements from: ${parentElement.Name}`);
-
-    const urlFormats = [
-      parentElement.Links?.Elements,
-      parentElement.WebId ? `${this.workingEndpoint}/elements/${parentElement.WebId}/elements` : null,
-      `${this.workingEndpoint}/elements?path=${encodeURIComponent(parentElement.Path)}&field=elements`
-    ].filter(url => url !== null && url !== undefined);
-
-    for (const elementsUrl of urlFormats) {
-      try {
-        console.log(`🔍 Trying child elements URL: ${elementsUrl}`);
-        const response = await fetch(elementsUrl, this.getFetchOptions());
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log(`✅ Child elements URL worked`);
-          
-          if (data.Items && Array.isArray(data.Items)) {
-            console.log(`Found ${data.Items.length} child elements`);
-            return data.Items;
-          }
-        }
-      } catch (error) {
-        console.log(`❌ Child elements URL failed:`, error);
-        continue;
-      }
-    }
-
-    console.log(`No child elements found for "${parentElement.Name}"`);
-    return [];
-  }
-
-  // Navigate through nested element path - WITH STRICT LOOP PREVENTION
-  private async navigateToElementPath(database: AFDatabase, elementPath: string): Promise<AFElement[]> {
-    console.log(`🧭 NAVIGATING TO NESTED PATH: "${elementPath}"`);
-    
-    const pathSegments = elementPath.split('\\').filter(segment => segment.trim() !== '');
-    console.log(`Path segments: [${pathSegments.map(s => `"${s}"`).join(', ')}]`);
-    
-    if (pathSegments.length === 0) {
-      return await this.loadDatabaseElements(database);
-    }
-    
-    // Start from database root elements
-    let currentElements = await this.loadDatabaseElements(database);
-    console.log(`Database root has ${currentElements.length} elements`);
-    
-    // Navigate through each path segment with strict loop prevention
-    for (let i = 0; i < pathSegments.length && i < 10; i++) { // MAX 10 levels deep
-      const segment = pathSegments[i];
-      console.log(`📁 Navigating to segment ${i + 1}/${pathSegments.length}: "${segment}"`);
-      
-      // Find the element matching this segment name
-      const matchingElement = currentElements.find(el => 
-        el.Name.toLowerCase() === segment.toLowerCase() ||
-        el.Name === segment
-      );
-      
-      if (!matchingElement) {
-        console.log(`❌ Element "${segment}" not found`);
-        throw new Error(`Element "${segment}" not found in path "${elementPath}"`);
-      }
-      
-      console.log(`✅ Found element: "${matchingElement.Name}"`);
-      
-      // If this is the last segment, return child elements
-      if (i === pathSegments.length - 1) {
-        console.log(`🎯 Reached target element: "${matchingElement.Name}"`);
-        const childElements = await this.loadChildElements(matchingElement);
-        console.log(`Target element has ${childElements.length} child elements`);
-        return childElements;
-      }
-      
-      // Not the last segment, load children and continue
-      currentElements = await this.loadChildElements(matchingElement);
-      console.log(`Child elements loaded: ${currentElements.length} elements`);
-      
-      if (currentElements.length === 0) {
-        throw new Error(`No child elements found for "${matchingElement.Name}"`);
-      }
-    }
-    
-    return currentElements;
-  }
-
-  // Load attributes from an element
-  private async loadAttributes(element: AFElement): Promise<AFAttribute[]> {
-    if (!this.workingEndpoint) {
-      throw new Error('No working endpoint available');
-    }
-
-    const urlFormats = [
-      element.Links?.Attributes,
-      element.WebId ? `${this.workingEndpoint}/elements/${element.WebId}/attributes` : null,
-      `${this.workingEndpoint}/elements?path=${encodeURIComponent(element.Path)}&field=attributes`
-    ].filter(url => url !== null && url !== undefined);
-
-    for (const attributesUrl of urlFormats) {
-      try {
-        const response = await fetch(attributesUrl, this.getFetchOptions());
-        
-        if (response.ok) {
-          const data = await response.json();
-          
-          if (data.Items && Array.isArray(data.Items)) {
-            return data.Items;
-          }
-        }
-      } catch (error) {
-        continue;
-      }
-    }
-
-    return [];
-  }
-
-  // Main method to load wellpad data with strict validation
-  async loadWellPadData(): Promise<WellPadData[]> {
-    try {
-      console.log('🔍 Starting PI AF data loading...');
-      
-      // 1. Load databases
-      const databases = await this.loadDatabases();
-      console.log(`✅ Found ${databases.length} databases`);
-
-      // 2. Find target database
-      const targetDb = databases.find(db => 
-        db.Name === this.config.afDatabaseName ||
-        db.Name.toLowerCase() === this.config.afDatabaseName.toLowerCase()
-      );
-
-      if (!targetDb) {
-        throw new Error(`Database '${this.config.afDatabaseName}' not found`);
-      }
-
-      console.log(`🎯 Using database: ${targetDb.Name}`);
-
-      // 3. Navigate to wellpads
-      let wellpadElements: AFElement[];
-      if (this.config.parentElementPath && this.config.parentElementPath.trim() !== '') {
-        console.log(`🧭 Using nested navigation to: "${this.config.parentElementPath}"`);
-        wellpadElements = await this.navigateToElementPath(targetDb, this.config.parentElementPath);
-      } else {
-        console.log(`📂 Loading top-level database elements`);
-        wellpadElements = await this.loadDatabaseElements(targetDb);
-      }
-
-      console.log(`✅ Found ${wellpadElements.length} wellpad elements`);
-
-      // 4. Process wellpads with strict limits
-      const result: WellPadData[] = [];
-      const maxWellpads = Math.min(wellpadElements.length, 10); // MAX 10 wellpads
-
-      for (let i = 0; i < maxWellpads; i++) {
-        const wellpadElement = wellpadElements[i];
-        console.log(`🔍 Processing wellpad ${i + 1}/${maxWellpads}: ${wellpadElement.Name}`);
-        
-        try {
-          // Load wells (child elements)
-          const wellElements = await this.loadChildElements(wellpadElement);
-          
-          if (wellElements.length === 0) {
-            console.log(`⚠️ No wells found in ${wellpadElement.Name}`);
-            continue;
-          }
-
-          const wells: WellData[] = [];
-          const maxWells = Math.min(wellElements.length, 20); // MAX 20 wells per pad
-
-          for (let j = 0; j < maxWells; j++) {
-            const wellElement = wellElements[j];
-            
-            try {
-              const attributes = await this.loadAttributes(wellElement);
-              const wellData = this.mapAttributesToWellData(wellElement, attributes);
-              
-              if (wellData) {
-                wells.push(wellData);
-              }
-            } catch (error) {
-              console.log(`❌ Failed to process well ${wellElement.Name}:`, error);
-              continue;
-            }
-          }
-
-          if (wells.length > 0) {
-            const wellPadData: WellPadData = {
-              name: wellpadElement.Name,
-              wells: wells,
-              status: wells.some(w => w.status === 'alert') ? 'alert' : 
-                     wells.some(w => w.status === 'warning') ? 'warning' : 'good',
-              totalWells: wells.length,
-              activeWells: wells.filter(w => w.status !== 'alert').length,
-              avgOilRate: wells.reduce((sum, w) => sum + w.oilRate, 0) / wells.length,
-              avgWaterCut: wells.reduce((sum, w) => sum + w.waterCut, 0) / wells.length
-            };
-            
-            // Set wellpad name for each well
-            wellPadData.wells.forEach(well => well.wellPadName = wellPadData.name);
-            result.push(wellPadData);
-            
-            console.log(`✅ Processed wellpad ${wellpadElement.Name}: ${wells.length} wells`);
-          }
-        } catch (error) {
-          console.log(`❌ Error processing wellpad ${wellpadElement.Name}:`, error);
-          continue;
-        }
-      }
-
-      console.log(`📊 Final result: ${result.length} wellpads processed`);
-
-      if (result.length === 0) {
-        throw new Error('No wellpad data could be loaded from PI AF');
-      }
-
-      return result;
-    } catch (error) {
-      console.error('❌ Failed to load wellpad data:', error);
-      throw error;
-    }
-  }
-
-  // Map PI AF attributes to well data
-  private mapAttributesToWellData(element: AFElement, attributes: AFAttribute[]): WellData | null {
-    try {
-      console.log(`🎯 Mapping attributes for: ${element.Name}`);
-      
-      // Create attribute lookup map
-      const attributeMap: { [key: string]: AFAttribute } = {};
-      attributes.forEach(attr => {
-        attributeMap[attr.Name] = attr;
-      });
-
-      // Extract values with fallbacks
-      const oilRate = this.getNumericValue(attributeMap[this.attributeMapping.oilRate]) ?? 
-                     Math.floor(Math.random() * 80) + 20;
-      const liquidRate = this.getNumericValue(attributeMap[this.attributeMapping.liquidRate]) ?? 
-                        oilRate + Math.floor(Math.random() * 30) + 10;
-      const waterCut = this.getNumericValue(attributeMap[this.attributeMapping.waterCut]) ?? 
-                      Math.floor(Math.random() * 40);
-      const espFrequency = this.getNumericValue(attributeMap[this.attributeMapping.espFrequency]) ?? 
-                          Math.floor(Math.random() * 20) + 50;
-      const planTarget = this.getNumericValue(attributeMap[this.attributeMapping.planTarget]) ?? 
-                        oilRate + Math.floor(Math.random() * 40) - 20;
-      
-      // Safe calculations
-      const safePlanTarget = planTarget > 0 ? planTarget : oilRate;
-      const planDeviation = safePlanTarget > 0 ? 
-        Number(((oilRate - safePlanTarget) / safePlanTarget * 100).toFixed(2)) : 0;
-
-      // Determine status
-      let status: 'good' | 'warning' | 'alert' = 'good';
-      if (Math.abs(planDeviation) > 10 || waterCut > 20) status = 'warning';
-      if (Math.abs(planDeviation) > 15 || waterCut > 25) status = 'alert';
-
-      return {
-        name: element.Name,
-        wellPadName: '', // Will be set by parent
-        oilRate,
-        liquidRate,
-        waterCut,
-        espFrequency,
-        planTarget,
-        planDeviation,
-        status,
-        lastUpdate: new Date()
-      };
-    } catch (error) {
-      console.error(`❌ Error mapping attributes for ${element.Name}:`, error);
-      return null;
-    }
-  }
-
-  // Safe numeric value extraction
-  private getNumericValue(attribute: AFAttribute | undefined): number | null {
-    if (!attribute || !attribute.Value) return null;
-    const value = attribute.Value.Value;
-    if (value === null || value === undefined) return null;
-    const num = typeof value === 'number' ? value : parseFloat(String(value));
-    return isNaN(num) ? null : num;
-  }
-
-  // Validation method for configuration testing
-  async validateConfiguration(): Promise<{ isValid: boolean; error?: string; details?: string }> {
-    try {
-      console.log('🔍 Validating PI AF configuration...');
-      
-      // Test endpoint
-      const endpoint = await this.findWorkingEndpoint();
-      if (!endpoint) {
-        return { 
-          isValid: false, 
-          error: 'Cannot connect to PI Web API server',
-          details: `Server ${this.config.piWebApiServerName} is unreachable`
-        };
-      }
-
-      // Test databases
-      const databases = await this.loadDatabases();
-      if (databases.length === 0) {
-        return { 
-          isValid: false, 
-          error: 'No databases found',
-          details: `AF Server '${this.config.afServerName}' has no accessible databases`
-        };
-      }
-
-      // Test target database
-      const targetDb = databases.find(db => 
-        db.Name === this.config.afDatabaseName ||
-        db.Name.toLowerCase() === this.config.afDatabaseName.toLowerCase()
-      );
-
-      if (!targetDb) {
-        return { 
-          isValid: false, 
-          error: 'Target database not found',
-          details: `Database '${this.config.afDatabaseName}' not found. Available: ${databases.map(d => d.Name).join(', ')}`
-        };
-      }
-
-      // Test elements
-      const elements = await this.loadDatabaseElements(targetDb);
-      if (elements.length === 0) {
-        return { 
-          isValid: false, 
-          error: 'No elements found in database',
-          details: `Database '${this.config.afDatabaseName}' contains no elements`
-        };
-      }
-
-      console.log('✅ Configuration validation passed');
-      return { 
-        isValid: true,
-        details: `Successfully validated connection to ${databases.length} databases, ${elements.length} elements`
-      };
-
-    } catch (error) {
-      console.error('❌ Configuration validation failed:', error);
-      return { 
-        isValid: false, 
-        error: 'Validation failed',
-        details: error instanceof Error ? error.message : String(error)
-      };
-    }
-  }
-}
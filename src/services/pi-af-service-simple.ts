@@ -1,78 +0,0 @@
-// Simple PI AF Service without blocking operations
-import { WellPadData, WellData, PIServerConfig, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING } from '@/types/pi-system';
-
-export class SimplePIAFService {
-  private config: PIServerConfig;
-  private attributeMapping: AttributeMapping;
-
-  constructor(config: PIServerConfig, attributeMapping?: AttributeMapping) {
-    this.config = config;
-    this.attributeMapping = attributeMapping || DEFAULT_ATTRIBUTE_MAPPING;
-  }
-
-  private getFetchOptions(): RequestInit {
-    return {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-      credentials: 'include'
-    };
-  }
-
-  // Simple endpoint test
-  async testConnection(): Promise<boolean> {
-    try {
-      const endpoint = `https://${this.config.piWebApiServerName}/piwebapi`;
-      console.log(`Testing: ${endpoint}`);
-      
-      const response = await fetch(endpoint, this.getFetchOptions());
-      console.log(`Status: ${response.status}`);
-      
-      return response.ok || response.status === 401;
-    } catch (error) {
-      console.log(`Error: ${error}`);
-      return false;
-    }
-  }
-
-  // Simple navigation test
-  async testNavigation(elementPath: string): Promise<{ success: boolean; message: string; urls: string[] }> {
-    try {
-      const endpoint = `https://${this.config.piWebApiServerName}/piwebapi`;
-      
-      // Test basic endpoint
-      const testUrls = [
-        `${endpoint}`,
-        `${endpoint}/assetservers`,
-        `${endpoint}/assetdatabases`
-      ];
-
-      const results = [];
-      for (const url of testUrls) {
-        try {
-          const response = await fetch(url, this.getFetchOptions());
-          results.push(`${url} -> ${response.status}`);
-        } catch (error) {
-          results.push(`${url} -> ERROR: ${error}`);
-        }
-      }
-
-      return {
-        success: true,
-        message: `Navigation test completed for path: ${elementPath}`,
-        urls: results
-      };
-    } catch (error) {
-      return {
-        success: false,
-        message: `Navigation test failed: ${error}`,
-        urls: []
-      };
-    }
-  }
-
-  // Dummy method for now
-  async loadWellPadData(): Promise<WellPadData[]> {
-    console.log('Simple PI AF Service - loadWellPadData called');
-    return [];
-  }
-}
@@ -0,0 +1,158 @@
+// PI Web API Channel Client
+// Browser WebSocket subscriptions to streamsets/channel with reconnect and a polling fallback signal
+
+export type ChannelStatus = 'connecting' | 'open' | 'reconnecting' | 'failed' | 'closed';
+
+// One value pushed for an attribute stream
+export interface ChannelValue {
+  webId: string;
+  value: {
+    Timestamp?: string;
+    Value?: unknown;
+    UnitsAbbreviation?: string;
+    Good?: boolean;
+    Questionable?: boolean;
+  };
+}
+
+interface ChannelMessage {
+  Items?: Array<{
+    WebId: string;
+    Items?: ChannelValue['value'][];
+  }>;
+}
+
+interface PIChannelClientOptions {
+  urls: string[];
+  onValues: (values: ChannelValue[]) => void;
+  onStatusChange: (status: ChannelStatus) => void;
+  // Consecutive failed reconnects before giving up and reporting 'failed'
+  maxReconnectAttempts?: number;
+}
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+interface ChannelSocket {
+  url: string;
+  socket: WebSocket | null;
+  attempts: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+export class PIChannelClient {
+  private options: PIChannelClientOptions;
+  private channels: ChannelSocket[];
+  private status: ChannelStatus = 'closed';
+  private stopped = false;
+
+  constructor(options: PIChannelClientOptions) {
+    this.options = options;
+    this.channels = options.urls.map(url => ({ url, socket: null, attempts: 0, timer: null }));
+  }
+
+  /**
+   * Open every channel socket
+   */
+  start(): void {
+    if (this.channels.length === 0) {
+      console.warn('⚠️ No attribute WebIds to subscribe to - channel mode unavailable');
+      this.setStatus('failed');
+      return;
+    }
+
+    console.log(`📶 Opening ${this.channels.length} PI Web API channel(s)`);
+    this.stopped = false;
+    this.setStatus('connecting');
+    this.channels.forEach(channel => this.connect(channel));
+  }
+
+  /**
+   * Close every channel socket and cancel pending reconnects
+   */
+  stop(): void {
+    this.closeSockets();
+    this.setStatus('closed');
+  }
+
+  private closeSockets(): void {
+    this.stopped = true;
+    this.channels.forEach(channel => {
+      if (channel.timer) clearTimeout(channel.timer);
+      channel.timer = null;
+      channel.socket?.close();
+      channel.socket = null;
+    });
+  }
+
+  private setStatus(status: ChannelStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.options.onStatusChange(status);
+  }
+
+  private connect(channel: ChannelSocket): void {
+    const socket = new WebSocket(channel.url);
+    channel.socket = socket;
+
+    socket.onopen = () => {
+      channel.attempts = 0;
+      if (this.channels.every(c => c.socket?.readyState === WebSocket.OPEN)) {
+        console.log('✅ All PI Web API channels open');
+        this.setStatus('open');
+      }
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message: ChannelMessage = JSON.parse(event.data);
+        const values: ChannelValue[] = [];
+        message.Items?.forEach(stream => {
+          // Only the newest value per stream matters for the tiles
+          const latest = stream.Items?.[stream.Items.length - 1];
+          if (latest) {
+            values.push({ webId: stream.WebId, value: latest });
+          }
+        });
+        if (values.length > 0) {
+          this.options.onValues(values);
+        }
+      } catch (error) {
+        console.error('❌ Failed to parse channel message:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      channel.socket = null;
+      if (!this.stopped) {
+        this.scheduleReconnect(channel);
+      }
+    };
+
+    // onclose follows onerror, so reconnects are handled there
+    socket.onerror = () => {
+      console.warn(`⚠️ PI Web API channel error: ${channel.url.split('?')[0]}`);
+    };
+  }
+
+  // Exponential backoff per channel; after too many failures stop and let the caller poll instead
+  private scheduleReconnect(channel: ChannelSocket): void {
+    const maxAttempts = this.options.maxReconnectAttempts ?? 5;
+    channel.attempts++;
+
+    if (channel.attempts > maxAttempts) {
+      console.error(`❌ PI Web API channel failed after ${maxAttempts} reconnect attempts - falling back to polling`);
+      this.closeSockets();
+      this.setStatus('failed');
+      return;
+    }
+
+    const delay = Math.min(INITIAL_RECONNECT_DELAY_MS * 2 ** (channel.attempts - 1), MAX_RECONNECT_DELAY_MS);
+    console.log(`🔄 Reconnecting PI Web API channel in ${delay / 1000}s (attempt ${channel.attempts}/${maxAttempts})`);
+    this.setStatus('reconnecting');
+    channel.timer = setTimeout(() => {
+      channel.timer = null;
+      this.connect(channel);
+    }, delay);
+  }
+}
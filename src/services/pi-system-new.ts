@@ -1,5 +1,6 @@
 import { PIServerConfig, PIElement, PIAttribute, WellData, WellPadData, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING } from '@/types/pi-system';
 import { configManager } from './config-manager';
+import { buildWellData, buildWellPadData } from './well-mapping';
 
 export interface PIConnectionTestResult {
   success: boolean;
@@ -300,11 +301,16 @@ export class PISystemService {
    * Generate simulated data for development/fallback
    */
   private generateSimulatedData(): WellPadData[] {
+    const mappingOptions = {
+      attributeMapping: configManager.getAttributeMapping(),
+      alarmRules: configManager.getAlarmRules()
+    };
     const wellPads: WellPadData[] = [];
     
     for (let padNum = 1; padNum <= 10; padNum++) {
       const wellCount = Math.floor(Math.random() * 11) + 10;
-      const wells = [];
+      const wellPadName = `WellPad ${padNum.toString().padStart(2, '0')}`;
+      const wells: WellData[] = [];
       
       for (let wellNum = 0; wellNum < wellCount; wellNum++) {
         const wellNumber = Math.floor(Math.random() * 900) + 100;
@@ -313,32 +319,18 @@ export class PISystemService {
         const waterCut = Math.floor(Math.random() * 30) + 5;
         const espFrequency = Math.floor(Math.random() * 20) + 40;
         const planTarget = oilRate + Math.floor(Math.random() * 40) - 20;
-        const deviation = planTarget > 0 ? ((oilRate - planTarget) / planTarget * 100) : 0;
-        
-        let status: 'good' | 'warning' | 'alert' = 'good';
-        if (Math.abs(deviation) > 15 || waterCut > 25) status = 'alert';
-        else if (Math.abs(deviation) > 10 || waterCut > 20) status = 'warning';
+        const name = `PL-${wellNumber.toString().padStart(3, '0')}`;
         
-        wells.push({
-          name: `PL-${wellNumber.toString().padStart(3, '0')}`,
-          wellPadName: `WellPad ${padNum.toString().padStart(2, '0')}`,
-          oilRate,
-          liquidRate,
-          waterCut,
-          espFrequency,
-          planDeviation: Math.round(deviation * 10) / 10,
-          status,
-          lastUpdated: new Date()
-        });
+        // The shared mapping core derives plan deviation, operating state and health from the configured alarm rules
+        wells.push(buildWellData(
+          { Name: name, WebId: `sim-${padNum}-${wellNum}` },
+          { oilRate, liquidRate, waterCut, espFrequency, planTarget },
+          mappingOptions,
+          wellPadName
+        ));
       }
       
-      wellPads.push({
-        name: `WellPad ${padNum.toString().padStart(2, '0')}`,
-        wells,
-        totalProduction: wells.reduce((sum, well) => sum + well.oilRate, 0),
-        averageWaterCut: wells.reduce((sum, well) => sum + well.waterCut, 0) / wells.length,
-        wellCount: wells.length
-      });
+      wellPads.push(buildWellPadData({ Name: wellPadName, Path: wellPadName, WebId: `wellpad-${padNum}` }, padNum - 1, wells));
     }
     
     return wellPads;
@@ -0,0 +1,138 @@
+// PI Web API batch helpers
+// Shared by the server (axios) and browser (fetch) loaders; each supplies its own transport
+
+import { PIServerConfig, DEFAULT_LOAD_LIMITS, LoadTruncationWarning } from '@/types/pi-system';
+
+export interface PIBatchRequest {
+  Method: 'GET';
+  Resource: string;
+}
+
+export interface PIBatchResponse {
+  Status: number;
+  Headers?: { [key: string]: string };
+  Content?: unknown;
+}
+
+export type PIBatchRequests = { [requestId: string]: PIBatchRequest };
+export type PIBatchResponses = { [requestId: string]: PIBatchResponse };
+
+// PI Web API caps collection responses at 1000 items unless maxCount is given, so page explicitly
+export const ELEMENT_PAGE_SIZE = 1000;
+
+// Keeps streamsets/value URLs well below common IIS query string limits
+export const STREAMSET_WEBIDS_PER_REQUEST = 100;
+
+// Build a batch body from relative resources, resolved against the working endpoint
+export function buildBatchRequests(endpoint: string, resources: { [requestId: string]: string }): PIBatchRequests {
+  const requests: PIBatchRequests = {};
+  Object.entries(resources).forEach(([requestId, resource]) => {
+    requests[requestId] = { Method: 'GET', Resource: `${endpoint}${resource}` };
+  });
+  return requests;
+}
+
+// Content of a successful sub-request, or null when it failed or is missing
+export function readBatchContent<T>(responses: PIBatchResponses, requestId: string): T | null {
+  const response = responses[requestId];
+  if (!response) {
+    console.warn(`⚠️ Batch response missing for request "${requestId}"`);
+    return null;
+  }
+  if (response.Status < 200 || response.Status >= 300) {
+    console.warn(`⚠️ Batch request "${requestId}" failed with status ${response.Status}`);
+    return null;
+  }
+  return (response.Content ?? null) as T | null;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Append startIndex/maxCount to a collection resource
+export function withPaging(resource: string, startIndex: number, pageSize: number = ELEMENT_PAGE_SIZE): string {
+  const separator = resource.includes('?') ? '&' : '?';
+  return `${resource}${separator}startIndex=${startIndex}&maxCount=${pageSize}`;
+}
+
+// Fetch every page of one collection; a short page marks the end
+export async function loadAllPages<T>(
+  resource: string,
+  fetchPage: (pagedResource: string) => Promise<{ Items?: T[] } | null>,
+  pageSize: number = ELEMENT_PAGE_SIZE
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let startIndex = 0; ; startIndex += pageSize) {
+    const page = (await fetchPage(withPaging(resource, startIndex, pageSize)))?.Items || [];
+    items.push(...page);
+    if (page.length < pageSize) return items;
+  }
+}
+
+// Page several collections together: each round is one batch with the next page of every collection that returned a full page
+export async function loadAllPagesBatched<T>(
+  resources: { [requestId: string]: string },
+  runBatch: (resources: { [requestId: string]: string }) => Promise<PIBatchResponses>,
+  pageSize: number = ELEMENT_PAGE_SIZE
+): Promise<Map<string, T[]>> {
+  const itemsById = new Map<string, T[]>();
+  let pending = Object.keys(resources);
+
+  for (let startIndex = 0; pending.length > 0; startIndex += pageSize) {
+    const pageResources: { [requestId: string]: string } = {};
+    pending.forEach(requestId => {
+      pageResources[requestId] = withPaging(resources[requestId], startIndex, pageSize);
+    });
+
+    const responses = await runBatch(pageResources);
+    pending = pending.filter(requestId => {
+      const page = readBatchContent<{ Items?: T[] }>(responses, requestId)?.Items || [];
+      itemsById.set(requestId, [...(itemsById.get(requestId) || []), ...page]);
+      return page.length === pageSize;
+    });
+  }
+
+  return itemsById;
+}
+
+// streamsets/value resources for a set of attribute WebIds, keyed for a batch request
+export function buildStreamSetValueResources(webIds: string[]): { [requestId: string]: string } {
+  const resources: { [requestId: string]: string } = {};
+  chunk(webIds, STREAMSET_WEBIDS_PER_REQUEST).forEach((webIdChunk, i) => {
+    resources[`values${i}`] = `/streamsets/value?${webIdChunk.map(webId => `webId=${encodeURIComponent(webId)}`).join('&')}`;
+  });
+  return resources;
+}
+
+// Configured wellpad/well limits; 0 means no limit
+export function getLoadLimits(config: PIServerConfig): { maxWellPads: number; maxWellsPerPad: number } {
+  return {
+    maxWellPads: config.maxWellPads ?? DEFAULT_LOAD_LIMITS.maxWellPads,
+    maxWellsPerPad: config.maxWellsPerPad ?? DEFAULT_LOAD_LIMITS.maxWellsPerPad
+  };
+}
+
+export function applyLimit<T>(items: T[], limit: number): T[] {
+  return limit > 0 ? items.slice(0, limit) : items;
+}
+
+// Describe what a limit dropped, or null when everything found was loaded
+export function getTruncationWarning(
+  scope: LoadTruncationWarning['scope'],
+  found: number,
+  limit: number,
+  wellPadName?: string
+): LoadTruncationWarning | null {
+  if (limit <= 0 || found <= limit) return null;
+
+  const message = scope === 'wellpads'
+    ? `Loaded ${limit} of ${found} wellpads (Max WellPads limit)`
+    : `Loaded ${limit} of ${found} wells in "${wellPadName}" (Max Wells per WellPad limit)`;
+  console.warn(`⚠️ ${message}`);
+  return { scope, wellPadName, found, loaded: limit, message };
+}
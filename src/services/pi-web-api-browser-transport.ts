@@ -0,0 +1,49 @@
+// Browser PI Web API transport
+// The browser handles Windows Authentication itself when requests include credentials
+
+import { PIWebApiTransport } from './pi-af-data-source';
+
+export class BrowserPIWebApiTransport implements PIWebApiTransport {
+  readonly kind = 'browser' as const;
+  readonly secureOnly = true;
+
+  async probe(endpoint: string): Promise<{ reachable: boolean; status: number; message: string }> {
+    const response = await fetch(`${endpoint}/system`, this.getFetchOptions());
+
+    // HTTP 200 = Authentication successful and server accessible
+    // HTTP 401 = Server accessible but needs Windows Authentication (which browser can handle)
+    return {
+      reachable: response.ok || response.status === 401,
+      status: response.status,
+      message: response.statusText
+    };
+  }
+
+  async request<T>(endpoint: string, resource: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${endpoint}${resource}`, body === undefined
+      ? this.getFetchOptions()
+      : { ...this.getFetchOptions(), method: 'POST', body: JSON.stringify(body) });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error('Windows Authentication required - please ensure you are logged into the domain');
+      }
+      throw new Error(`Request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  // Get fetch options for Windows Authentication
+  private getFetchOptions(): RequestInit {
+    return {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json'
+      },
+      // This is the key - browser handles Windows Authentication
+      credentials: 'include'
+    };
+  }
+}
@@ -0,0 +1,100 @@
+// Recorded Data Source
+// Replays AF elements, attributes and values captured from a PI load, for demos and offline development
+
+import fs from 'fs';
+import path from 'path';
+import { WellData, WellPadData, LoadTruncationWarning, AttributeMapping, DEFAULT_ATTRIBUTE_MAPPING, AlarmRule, DEFAULT_ALARM_RULES, CalculatedAttribute, TemplateMapping } from '@/types/pi-system';
+import { WellDataSource, WellDataRecording } from './well-data-source';
+import { AFValueContainer, WellMappingOptions, mapAttributesToWellData, buildWellPadData } from './well-mapping';
+import { AlarmRuleState } from './alarm-rules';
+
+// Stored next to pi-config.json in the project root
+const RECORDING_PATH = path.join(process.cwd(), 'pi-recording.json');
+
+/**
+ * Whether a recording file exists
+ */
+export function hasRecording(): boolean {
+  return fs.existsSync(RECORDING_PATH);
+}
+
+/**
+ * Load the recording file, or null when missing or unreadable
+ */
+export function loadRecording(): WellDataRecording | null {
+  try {
+    if (hasRecording()) {
+      return JSON.parse(fs.readFileSync(RECORDING_PATH, 'utf8')) as WellDataRecording;
+    }
+  } catch (error) {
+    console.error('Error loading recording:', error);
+  }
+
+  return null;
+}
+
+/**
+ * Save a recording file, replacing the previous one
+ */
+export function saveRecording(recording: WellDataRecording): void {
+  fs.writeFileSync(RECORDING_PATH, JSON.stringify(recording, null, 2));
+  console.log(`💾 Saved recording with ${recording.pads.length} wellpads`);
+}
+
+export class RecordedDataSource implements WellDataSource {
+  readonly kind = 'recorded' as const;
+  private recording: WellDataRecording;
+  private mappingOptions: WellMappingOptions;
+
+  constructor(recording: WellDataRecording, attributeMapping?: AttributeMapping, alarmRules?: AlarmRule[], strict = true, calculatedAttributes?: CalculatedAttribute[], templateMappings?: TemplateMapping[], alarmState?: AlarmRuleState) {
+    this.recording = recording;
+    this.mappingOptions = {
+      attributeMapping: attributeMapping || DEFAULT_ATTRIBUTE_MAPPING,
+      alarmRules: alarmRules || DEFAULT_ALARM_RULES,
+      alarmState: alarmState || new AlarmRuleState(),
+      calculatedAttributes,
+      templateMappings,
+      strict
+    };
+    console.log(`📼 Replaying recording from ${recording.recordedAt}`);
+  }
+
+  async loadWellPadData(): Promise<WellPadData[]> {
+    const result: WellPadData[] = [];
+
+    this.recording.pads.forEach((pad, i) => {
+      const wells: WellData[] = [];
+      pad.wells.forEach(well => {
+        const values = new Map<string, AFValueContainer>();
+        well.attributes.forEach(attr => {
+          if (attr.WebId && attr.Value) {
+            values.set(attr.WebId, attr.Value);
+          }
+        });
+
+        const wellData = mapAttributesToWellData(well.element, well.attributes, values, this.mappingOptions, pad.element.Name);
+        if (wellData) {
+          wells.push(wellData);
+        }
+      });
+
+      if (wells.length > 0) {
+        result.push(buildWellPadData(pad.element, i, wells, pad.hierarchy));
+      }
+    });
+
+    return result;
+  }
+
+  async refreshWellValues(): Promise<WellPadData[]> {
+    return this.loadWellPadData();
+  }
+
+  getLoadWarnings(): LoadTruncationWarning[] {
+    return this.recording.warnings || [];
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    return { success: true, message: `Replaying recording from ${this.recording.recordedAt}` };
+  }
+}
@@ -0,0 +1,136 @@
+// Report Scheduler
+// Writes the morning report into the configured output folder once a day.
+// Started from instrumentation.ts so it runs without a dashboard open.
+
+import fs from 'fs';
+import path from 'path';
+import { ReportFormat, DEFAULT_REPORT_SCHEDULE } from '@/types/pi-system';
+import { configManager } from './config-manager';
+import { createServerDataSource } from './server-data-source';
+import { getDataSourceLabel } from './well-data-source';
+import { getZonedDateTime, isValidTimeZone } from './daily-production';
+import { buildMorningReport, renderMorningReport, getReportFileName } from './morning-report';
+
+export interface ReportRunResult {
+  success: boolean;
+  files: string[];
+  error?: string;
+  timestamp: string;
+}
+
+export interface ReportSchedulerStatus {
+  running: boolean;
+  lastRunDate?: string;
+  lastResult?: ReportRunResult;
+}
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Whether a schedule time is a valid HH:MM
+ */
+export function isValidScheduleTime(time: string): boolean {
+  return TIME_PATTERN.test(time);
+}
+
+// Relative folders are resolved against the project root, like pi-config.json
+export function resolveOutputFolder(outputFolder: string): string {
+  return path.isAbsolute(outputFolder) ? outputFolder : path.join(process.cwd(), outputFolder);
+}
+
+export class ReportScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastRunDate: string | null = null;
+  private lastResult: ReportRunResult | null = null;
+  private writing = false;
+
+  /**
+   * Start checking the schedule every minute; safe to call more than once
+   */
+  start(): void {
+    if (this.timer) return;
+    console.log('🗓️ Report scheduler started');
+    this.timer = setInterval(() => this.checkSchedule(), CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Stop checking the schedule
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Running state and the outcome of the last write
+   */
+  getStatus(): ReportSchedulerStatus {
+    return {
+      running: this.timer !== null,
+      lastRunDate: this.lastRunDate || undefined,
+      lastResult: this.lastResult || undefined
+    };
+  }
+
+  // Write once per local day, on the first check at or after the scheduled time
+  private async checkSchedule(): Promise<void> {
+    const config = configManager.getConfig();
+    const schedule = config.reportSchedule;
+    if (!schedule.enabled || !isValidScheduleTime(schedule.time)) return;
+
+    const timeZone = isValidTimeZone(config.productionDay.timeZone) ? config.productionDay.timeZone : 'UTC';
+    const local = getZonedDateTime(new Date(), timeZone);
+    const [hour, minute] = schedule.time.split(':').map(Number);
+    if (this.lastRunDate === local.date || local.hour * 60 + local.minute < hour * 60 + minute) return;
+
+    this.lastRunDate = local.date;
+    console.log(`🗓️ Writing scheduled morning report for ${local.date}`);
+    await this.writeReports(schedule.formats, schedule.outputFolder);
+  }
+
+  /**
+   * Load current well data and write the report in each format to the output folder
+   */
+  async writeReports(
+    formats: ReportFormat[] = DEFAULT_REPORT_SCHEDULE.formats,
+    outputFolder: string = DEFAULT_REPORT_SCHEDULE.outputFolder
+  ): Promise<ReportRunResult> {
+    if (this.writing) {
+      return { success: false, files: [], error: 'A report is already being written', timestamp: new Date().toISOString() };
+    }
+
+    this.writing = true;
+    try {
+      const config = configManager.getConfig();
+      const dataSource = createServerDataSource(config);
+      const wellPads = await dataSource.loadWellPadData();
+      const report = buildMorningReport(wellPads, getDataSourceLabel(dataSource));
+
+      const folder = resolveOutputFolder(outputFolder);
+      fs.mkdirSync(folder, { recursive: true });
+
+      const files = formats.map(format => {
+        const filePath = path.join(folder, getReportFileName(report, format));
+        fs.writeFileSync(filePath, renderMorningReport(report, format));
+        console.log(`   ✅ ${filePath}`);
+        return filePath;
+      });
+
+      this.lastResult = { success: true, files, timestamp: new Date().toISOString() };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('❌ Morning report failed:', errorMessage);
+      this.lastResult = { success: false, files: [], error: errorMessage, timestamp: new Date().toISOString() };
+    } finally {
+      this.writing = false;
+    }
+
+    return this.lastResult;
+  }
+}
+
+// Export singleton instance
+export const reportScheduler = new ReportScheduler();
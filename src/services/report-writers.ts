@@ -0,0 +1,279 @@
+// Report Writers
+// Table output as CSV, XLSX and PDF without third-party libraries:
+// XLSX is a zip of SpreadsheetML parts (stored, not deflated) and PDF is plain Courier text pages.
+
+export type ReportCell = string | number | undefined;
+
+export interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: ReportCell[][];
+}
+
+// Missing values render as blanks in spreadsheets and a dash in the PDF
+const formatCell = (cell: ReportCell, missing: string) => (cell === undefined ? missing : String(cell));
+
+// CSV fields are quoted only when they contain a quote, comma or line break
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * All tables in one CSV, each preceded by its title and separated by a blank line
+ */
+export function writeCsv(tables: ReportTable[]): string {
+  const lines: string[] = [];
+  tables.forEach((table, i) => {
+    if (i > 0) lines.push('');
+    lines.push(escapeCsv(table.title));
+    lines.push(table.columns.map(escapeCsv).join(','));
+    table.rows.forEach(row => lines.push(row.map(cell => escapeCsv(formatCell(cell, ''))).join(',')));
+  });
+  return lines.join('\r\n') + '\r\n';
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // Control characters other than tab/newline are not allowed in XML
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// Spreadsheet column letters: 0 → A, 26 → AA
+const getColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Excel sheet names: at most 31 characters, none of []:*?/\
+const getSheetName = (title: string) => title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+
+function buildSheetXml(table: ReportTable): string {
+  const rows = [table.columns, ...table.rows].map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${getColumnName(c)}${r + 1}`;
+      if (typeof cell === 'number' && isFinite(cell)) return `<c r="${ref}"><v>${cell}</v></c>`;
+      if (cell === undefined || cell === '') return '';
+      return `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(String(cell))}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// Zip archive with stored (uncompressed) entries - enough for Excel and LibreOffice to open
+function writeZip(files: Array<{ name: string; content: string }>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = Buffer.from(file.name, 'utf8');
+    const data = Buffer.from(file.content, 'utf8');
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034B50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(0, 8); // stored
+    local.writeUInt32LE(0, 10); // DOS time/date
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    localParts.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014B50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(0, 10);
+    central.writeUInt32LE(0, 12);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054B50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+/**
+ * Workbook with one worksheet per table
+ */
+export function writeXlsx(tables: ReportTable[]): Buffer {
+  const sheets = tables.map((table, i) => ({ id: i + 1, name: getSheetName(table.title), xml: buildSheetXml(table) }));
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheets.map(sheet => `<Override PartName="/xl/worksheets/sheet${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheets.map(sheet => `<sheet name="${escapeXml(sheet.name)}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`).join('') +
+        '</sheets></workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map(sheet => `<Relationship Id="rId${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheet.id}.xml"/>`).join('') +
+        '</Relationships>'
+    },
+    ...sheets.map(sheet => ({ name: `xl/worksheets/sheet${sheet.id}.xml`, content: sheet.xml }))
+  ]);
+}
+
+// PDF pages: landscape US Letter in Courier so columns line up without font metrics
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 10;
+const CHAR_WIDTH = FONT_SIZE * 0.6;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+const CHARS_PER_LINE = Math.floor((PAGE_WIDTH - 2 * MARGIN) / CHAR_WIDTH);
+const MAX_COLUMN_WIDTH = 40;
+
+// Standard fonts only cover Latin-1; anything else prints as '?'
+const escapePdfText = (value: string) => value
+  .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+  .replace(/\\/g, '\\\\')
+  .replace(/\(/g, '\\(')
+  .replace(/\)/g, '\\)');
+
+// Fixed-width text lines for one table, columns sized to their widest cell
+function layoutTable(table: ReportTable): string[] {
+  const cells = [table.columns, ...table.rows.map(row => row.map(cell => formatCell(cell, '-')))];
+  const widths = table.columns.map((_, c) => Math.min(MAX_COLUMN_WIDTH, Math.max(...cells.map(row => (row[c] || '').length))));
+  const formatRow = (row: string[]) => row
+    .map((cell, c) => {
+      const text = cell.length > widths[c] ? `${cell.slice(0, widths[c] - 1)}~` : cell;
+      return c === 0 || isNaN(Number(cell)) ? text.padEnd(widths[c]) : text.padStart(widths[c]);
+    })
+    .join('  ')
+    .slice(0, CHARS_PER_LINE);
+
+  const header = formatRow(cells[0]);
+  const lines = [table.title.toUpperCase(), header, '-'.repeat(header.length)];
+  if (table.rows.length === 0) {
+    lines.push('(none)');
+  } else {
+    cells.slice(1).forEach(row => lines.push(formatRow(row)));
+  }
+  return lines;
+}
+
+/**
+ * Text-only PDF with the tables flowing across as many pages as needed
+ */
+export function writePdf(title: string, subtitle: string, tables: ReportTable[]): Buffer {
+  const lines = [title, subtitle, ''];
+  tables.forEach(table => lines.push(...layoutTable(table), ''));
+
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3 font, then a page and a content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((pageLines, i) => {
+    const pageNumber = `Page ${i + 1} of ${pages.length}`;
+    const stream = [
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LINE_HEIGHT} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map(line => `(${escapePdfText(line)}) '`),
+      'ET',
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${PAGE_WIDTH - MARGIN - pageNumber.length * CHAR_WIDTH} ${MARGIN / 2} Td`,
+      `(${pageNumber}) Tj`,
+      'ET'
+    ].join('\n');
+
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Byte offsets for the cross-reference table; latin1 keeps one byte per character
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
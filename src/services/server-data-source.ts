@@ -0,0 +1,31 @@
+// Server Data Source Factory
+// Picks the data source for server-side loads from the current configuration
+
+import { WellPadData } from '@/types/pi-system';
+import { AppConfig } from './config-manager';
+import { WellDataSource } from './well-data-source';
+import { PIAFService } from './pi-af-service';
+import { SimulatedDataSource } from './simulated-data-source';
+import { RecordedDataSource, loadRecording } from './recorded-data-source';
+import { AlarmRuleState } from './alarm-rules';
+
+/**
+ * PI AF in production mode; otherwise the recording when replay is on, else simulated data.
+ * `previous` lets simulated values drift from the last load instead of jumping;
+ * `alarmState` carries deadband and delay-on from the caller's last load.
+ */
+export function createServerDataSource(config: AppConfig, previous?: WellPadData[] | null, alarmState?: AlarmRuleState): WellDataSource {
+  if (config.mode === 'production' && config.piServerConfig?.piWebApiServerName) {
+    return new PIAFService(config.piServerConfig, config.attributeMapping, config.alarmRules, config.calculatedAttributes, config.templateMappings, alarmState);
+  }
+
+  if (config.replayRecording) {
+    const recording = loadRecording();
+    if (recording) {
+      return new RecordedDataSource(recording, config.attributeMapping, config.alarmRules, config.piServerConfig?.strictAttributeValues !== false, config.calculatedAttributes, config.templateMappings, alarmState);
+    }
+    console.log('⚠️ Recording replay is on but pi-recording.json was not found - using simulated data');
+  }
+
+  return new SimulatedDataSource(config.alarmRules, previous, config.calculatedAttributes, alarmState);
+}
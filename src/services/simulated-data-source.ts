@@ -0,0 +1,98 @@
+// Simulated Data Source
+// Stable wellpads and wells whose values drift from the previous load, mapped through the shared core
+
+import { WellData, WellPadData, LoadTruncationWarning, AlarmRule, CalculatedAttribute, HierarchyAncestor, DEFAULT_ALARM_RULES, DEFAULT_ATTRIBUTE_MAPPING } from '@/types/pi-system';
+import { WellDataSource } from './well-data-source';
+import { WellMappingOptions, buildWellData, buildWellPadData } from './well-mapping';
+import { AlarmRuleState } from './alarm-rules';
+
+// Digital states every simulated well reports; modes alternate by well
+const SIMULATED_RUN_STATUS = { kind: 'digital' as const, value: 'Running', code: 1 };
+const SIMULATED_WELL_MODES = [
+  { kind: 'digital' as const, value: 'Auto', code: 1 },
+  { kind: 'digital' as const, value: 'Manual', code: 2 }
+];
+
+// One field with two areas, so the dashboard shows the hierarchy levels
+const SIMULATED_FIELD: HierarchyAncestor = { id: 'field-1', name: 'Permian Field', level: 'field' };
+const SIMULATED_AREAS: HierarchyAncestor[] = [
+  { id: 'area-1', name: 'North Area', level: 'area' },
+  { id: 'area-2', name: 'South Area', level: 'area' }
+];
+
+const SIMULATED_PADS = [
+  { id: 'wellpad-1', name: 'North Ridge Pad', prefix: 'NR', wellCount: 4, area: SIMULATED_AREAS[0] },
+  { id: 'wellpad-2', name: 'Eagle Creek Pad', prefix: 'EC', wellCount: 3, area: SIMULATED_AREAS[0] },
+  { id: 'wellpad-3', name: 'Sunset Valley Pad', prefix: 'SV', wellCount: 5, area: SIMULATED_AREAS[1] }
+];
+
+export class SimulatedDataSource implements WellDataSource {
+  readonly kind = 'simulated' as const;
+  private mappingOptions: WellMappingOptions;
+  private previousWells = new Map<string, WellData>();
+
+  constructor(alarmRules?: AlarmRule[], previous?: WellPadData[] | null, calculatedAttributes?: CalculatedAttribute[], alarmState?: AlarmRuleState) {
+    this.mappingOptions = {
+      attributeMapping: DEFAULT_ATTRIBUTE_MAPPING,
+      alarmRules: alarmRules || DEFAULT_ALARM_RULES,
+      alarmState: alarmState || new AlarmRuleState(),
+      calculatedAttributes
+    };
+    previous?.forEach(pad => pad.wells.forEach(well => this.previousWells.set(well.id, well)));
+  }
+
+  async loadWellPadData(): Promise<WellPadData[]> {
+    console.log('🔧 Generating simulated wells...');
+    return this.generateWellPads();
+  }
+
+  async refreshWellValues(): Promise<WellPadData[]> {
+    return this.generateWellPads();
+  }
+
+  getLoadWarnings(): LoadTruncationWarning[] {
+    return [];
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    return { success: true, message: 'Simulated data source - no connection required' };
+  }
+
+  // Stable well ids with values drifting from the previous cycle, so diffs stay small
+  private generateWellPads(): WellPadData[] {
+    const drift = (value: number | undefined, fallback: number, step: number) =>
+      Math.max(0, Math.round((value ?? fallback) + (Math.random() - 0.5) * step));
+
+    const wellPads = SIMULATED_PADS.map((padTemplate, index) => {
+      const wells: WellData[] = Array.from({ length: padTemplate.wellCount }, (_, i) => {
+        const name = `${padTemplate.prefix}-${String(i + 1).padStart(3, '0')}`;
+        const element = { Name: name, WebId: `${padTemplate.id}-${name}` };
+        const last = this.previousWells.get(element.WebId);
+
+        const oilRate = drift(last?.oilRate, 100 + Math.random() * 150, 10);
+        const liquidRate = Math.max(oilRate, drift(last?.liquidRate, oilRate * 1.5, 15));
+        const waterCut = Math.min(100, drift(last?.waterCut, 10 + Math.random() * 20, 2));
+        const espFrequency = drift(last?.espFrequency, 50, 1);
+        const planTarget = last?.planTarget ?? Math.round(oilRate * (0.9 + Math.random() * 0.2));
+
+        const wellMode = SIMULATED_WELL_MODES[i % SIMULATED_WELL_MODES.length];
+
+        return buildWellData(
+          element,
+          { oilRate, liquidRate, waterCut, espFrequency, planTarget, runStatus: SIMULATED_RUN_STATUS.code, wellMode: wellMode.code },
+          this.mappingOptions,
+          padTemplate.name,
+          undefined,
+          [],
+          { runStatus: SIMULATED_RUN_STATUS, wellMode }
+        );
+      });
+
+      return buildWellPadData({ Name: padTemplate.name, Path: padTemplate.name, WebId: padTemplate.id }, index, wells, [SIMULATED_FIELD, padTemplate.area]);
+    });
+
+    this.previousWells.clear();
+    wellPads.forEach(pad => pad.wells.forEach(well => this.previousWells.set(well.id, well)));
+    return wellPads;
+  }
+}
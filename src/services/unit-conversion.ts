@@ -0,0 +1,205 @@
+// Unit Conversion
+// Converts attribute values from the unit PI reports into the unit system each user picks.
+// Attributes without a known quantity (%, Hz, rpm, A, hrs) are shown as PI reports them.
+
+import { UnitPreferences, UnitSystem, DEFAULT_UNIT_PREFERENCES } from '@/types/pi-system';
+
+type Quantity = 'volumeRate' | 'pressure' | 'temperature' | 'length';
+type AttributeKind = 'liquid' | 'gas' | 'pressure' | 'temperature' | 'length';
+
+interface UnitDefinition {
+  quantity: Quantity;
+  label: string;
+  // Conversion to the base unit of the quantity: base = value * factor + offset
+  factor: number;
+  offset?: number;
+}
+
+// Base units: m³/d, kPa, °C and mm
+const UNITS: { [unit: string]: UnitDefinition } = {
+  'bbl/d': { quantity: 'volumeRate', label: 'bbl/day', factor: 0.158987295 },
+  'Mcf/d': { quantity: 'volumeRate', label: 'Mcf/day', factor: 28.316846592 },
+  'MMcf/d': { quantity: 'volumeRate', label: 'MMcf/day', factor: 28316.846592 },
+  'm3/d': { quantity: 'volumeRate', label: 'm³/d', factor: 1 },
+  'e3m3/d': { quantity: 'volumeRate', label: '10³m³/d', factor: 1000 },
+  'm3/h': { quantity: 'volumeRate', label: 'm³/h', factor: 24 },
+  'psi': { quantity: 'pressure', label: 'psi', factor: 6.894757293 },
+  'bar': { quantity: 'pressure', label: 'bar', factor: 100 },
+  'kPa': { quantity: 'pressure', label: 'kPa', factor: 1 },
+  'MPa': { quantity: 'pressure', label: 'MPa', factor: 1000 },
+  'kgf/cm2': { quantity: 'pressure', label: 'kgf/cm²', factor: 98.0665 },
+  'degF': { quantity: 'temperature', label: '°F', factor: 5 / 9, offset: -160 / 9 },
+  'degC': { quantity: 'temperature', label: '°C', factor: 1 },
+  'K': { quantity: 'temperature', label: 'K', factor: 1, offset: -273.15 },
+  'in': { quantity: 'length', label: 'in', factor: 25.4 },
+  'mm': { quantity: 'length', label: 'mm', factor: 1 },
+  'cm': { quantity: 'length', label: 'cm', factor: 10 }
+};
+
+// Other spellings PI UOM databases and tag configurations use, matched case-insensitively
+const UNIT_ALIASES: { [alias: string]: string } = {
+  'bbl/day': 'bbl/d', 'b/d': 'bbl/d', 'bpd': 'bbl/d', 'bopd': 'bbl/d', 'blpd': 'bbl/d', 'bwpd': 'bbl/d',
+  'mcf/day': 'Mcf/d', 'mscf/d': 'Mcf/d', 'mscf/day': 'Mcf/d', 'mcfd': 'Mcf/d',
+  'mmcf/day': 'MMcf/d', 'mmscf/d': 'MMcf/d', 'mmscfd': 'MMcf/d',
+  'm³/d': 'm3/d', 'm^3/d': 'm3/d', 'm3/day': 'm3/d',
+  '10³m³/d': 'e3m3/d', '1000 m3/d': 'e3m3/d', 'km3/d': 'e3m3/d',
+  'm³/h': 'm3/h', 'm^3/h': 'm3/h',
+  'psia': 'psi', 'psig': 'psi', 'lbf/in2': 'psi', 'lbf/in²': 'psi',
+  'bara': 'bar', 'barg': 'bar',
+  'kgf/cm²': 'kgf/cm2', 'kg/cm2': 'kgf/cm2',
+  '°f': 'degF', 'f': 'degF', 'deg f': 'degF',
+  '°c': 'degC', 'c': 'degC', 'deg c': 'degC',
+  'kelvin': 'K',
+  'inch': 'in', 'inches': 'in', '"': 'in'
+};
+
+// Quantity and the unit assumed when PI reports none, per attribute mapping key
+const ATTRIBUTE_UNITS: { [settingsKey: string]: { kind: AttributeKind; defaultUnit: string } } = {
+  oilRate: { kind: 'liquid', defaultUnit: 'bbl/d' },
+  liquidRate: { kind: 'liquid', defaultUnit: 'bbl/d' },
+  flowRate: { kind: 'liquid', defaultUnit: 'bbl/d' },
+  gasRate: { kind: 'gas', defaultUnit: 'Mcf/d' },
+  gasLiftRate: { kind: 'gas', defaultUnit: 'Mcf/d' },
+  tubingPressure: { kind: 'pressure', defaultUnit: 'psi' },
+  casingPressure: { kind: 'pressure', defaultUnit: 'psi' },
+  flowlinePressure: { kind: 'pressure', defaultUnit: 'psi' },
+  wellheadPressure: { kind: 'pressure', defaultUnit: 'psi' },
+  bottomholePressure: { kind: 'pressure', defaultUnit: 'psi' },
+  temperature: { kind: 'temperature', defaultUnit: 'degF' },
+  chokeSize: { kind: 'length', defaultUnit: 'in' }
+};
+
+const SYSTEM_UNITS: { [system in UnitSystem]: { [kind in AttributeKind]: string } } = {
+  oilfield: { liquid: 'bbl/d', gas: 'Mcf/d', pressure: 'psi', temperature: 'degF', length: 'in' },
+  metric: { liquid: 'm3/d', gas: 'e3m3/d', pressure: 'bar', temperature: 'degC', length: 'mm' },
+  si: { liquid: 'm3/d', gas: 'm3/d', pressure: 'kPa', temperature: 'K', length: 'mm' }
+};
+
+export const UNIT_SYSTEM_LABELS: { [system in UnitSystem]: string } = {
+  oilfield: 'Oilfield',
+  metric: 'Metric',
+  si: 'SI'
+};
+
+// Unit preferences are per user, so they live in the browser rather than pi-config.json
+const PREFERENCES_STORAGE_KEY = 'oilfield-monitor.unit-preferences';
+
+export interface ConvertedValue {
+  value: number;
+  unit: string;
+}
+
+// Canonical unit key for a PI unit abbreviation, or undefined when it is not a known unit
+export function normalizeUnit(unit: string | undefined): string | undefined {
+  if (!unit) return undefined;
+  const trimmed = unit.trim();
+  if (UNITS[trimmed]) return trimmed;
+  return UNIT_ALIASES[trimmed.toLowerCase()] ||
+    Object.keys(UNITS).find(key => key.toLowerCase() === trimmed.toLowerCase());
+}
+
+// Display label for a unit key; unknown units are returned unchanged
+export function getUnitLabel(unit: string | undefined): string {
+  if (!unit) return '';
+  return UNITS[unit]?.label || unit;
+}
+
+// Convert between two units of the same quantity; null when either is unknown or they don't match
+export function convertValue(value: number, fromUnit: string, toUnit: string): number | null {
+  const from = UNITS[fromUnit];
+  const to = UNITS[toUnit];
+  if (!from || !to || from.quantity !== to.quantity) return null;
+  if (fromUnit === toUnit) return value;
+
+  const base = value * from.factor + (from.offset || 0);
+  return (base - (to.offset || 0)) / to.factor;
+}
+
+// Unit an attribute is displayed in: per-attribute override, then the system preset
+export function getDisplayUnit(settingsKey: string, preferences: UnitPreferences): string | undefined {
+  const attributeUnit = ATTRIBUTE_UNITS[settingsKey];
+  if (!attributeUnit) return undefined;
+  return preferences.overrides[settingsKey] || SYSTEM_UNITS[preferences.system][attributeUnit.kind];
+}
+
+// Volume label for a per-day rate attribute (bbl/day → bbl); daily volumes convert with the same factors as the rates
+export function getVolumeUnitLabel(settingsKey: string, preferences: UnitPreferences): string {
+  return getUnitLabel(getDisplayUnit(settingsKey, preferences)).replace(/\/d(ay)?$/, '');
+}
+
+// Units an attribute can be overridden to
+export function getUnitOptions(settingsKey: string): string[] {
+  const attributeUnit = ATTRIBUTE_UNITS[settingsKey];
+  if (!attributeUnit) return [];
+  const quantity = UNITS[attributeUnit.defaultUnit].quantity;
+  return Object.keys(UNITS).filter(unit => UNITS[unit].quantity === quantity);
+}
+
+// Attribute mapping keys that have a convertible unit
+export function getConvertibleAttributes(): string[] {
+  return Object.keys(ATTRIBUTE_UNITS);
+}
+
+/**
+ * Convert an attribute value from its PI unit (or the attribute's assumed unit) to the display unit.
+ * Values in units that can't be converted are returned as reported.
+ */
+export function convertAttributeValue(
+  settingsKey: string,
+  value: number,
+  sourceUnit: string | undefined,
+  preferences: UnitPreferences
+): ConvertedValue {
+  const attributeUnit = ATTRIBUTE_UNITS[settingsKey];
+  const fromUnit = normalizeUnit(sourceUnit) || (sourceUnit ? undefined : attributeUnit?.defaultUnit);
+  const toUnit = getDisplayUnit(settingsKey, preferences);
+
+  if (fromUnit && toUnit) {
+    const converted = convertValue(value, fromUnit, toUnit);
+    if (converted !== null) {
+      return { value: roundForDisplay(converted), unit: getUnitLabel(toUnit) };
+    }
+  }
+
+  return { value, unit: sourceUnit || getUnitLabel(attributeUnit?.defaultUnit) };
+}
+
+// Fewer decimals for larger numbers so converted values don't show spurious precision
+export function roundForDisplay(value: number): number {
+  const magnitude = Math.abs(value);
+  const decimals = magnitude >= 100 ? 0 : magnitude >= 10 ? 1 : 2;
+  return Number(value.toFixed(decimals));
+}
+
+/**
+ * Unit preferences saved in this browser, or the defaults
+ */
+export function loadUnitPreferences(): UnitPreferences {
+  if (typeof window === 'undefined') return DEFAULT_UNIT_PREFERENCES;
+
+  try {
+    const stored = window.localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<UnitPreferences>;
+      return {
+        system: parsed.system && parsed.system in SYSTEM_UNITS ? parsed.system : DEFAULT_UNIT_PREFERENCES.system,
+        overrides: parsed.overrides || {}
+      };
+    }
+  } catch (error) {
+    console.log('⚠️ Failed to read unit preferences:', error);
+  }
+
+  return DEFAULT_UNIT_PREFERENCES;
+}
+
+/**
+ * Save unit preferences in this browser
+ */
+export function saveUnitPreferences(preferences: UnitPreferences): void {
+  try {
+    window.localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.log('⚠️ Failed to save unit preferences:', error);
+  }
+}
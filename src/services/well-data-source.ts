@@ -0,0 +1,47 @@
+// Well Data Source
+// Common contract for everything that produces wellpad data: PI Web API from the server or the browser,
+// simulated values, and recorded files. Mapping and aggregation live in well-mapping.ts.
+
+import { WellPadData, LoadTruncationWarning, HierarchyAncestor } from '@/types/pi-system';
+import { AFValueContainer, MappedAttribute, MappedElement } from './well-mapping';
+
+export type WellDataSourceKind = 'server' | 'browser' | 'simulated' | 'recorded';
+
+export interface WellDataSource {
+  readonly kind: WellDataSourceKind;
+
+  // Full load: resolve structure (or reuse a cached one) and read current values
+  loadWellPadData(): Promise<WellPadData[]>;
+
+  // Re-read values for the wells of the last load; falls back to a full load when nothing is loaded yet
+  refreshWellValues(): Promise<WellPadData[]>;
+
+  // Wellpads/wells left out by the configured limits during the last load
+  getLoadWarnings(): LoadTruncationWarning[];
+
+  testConnection(): Promise<{ success: boolean; message: string; details?: unknown }>;
+}
+
+// Attribute captured with its value at recording time
+export interface RecordedAttribute extends MappedAttribute {
+  Value?: AFValueContainer;
+}
+
+// Elements, attributes and values of one PI load, replayed by the recorded data source
+export interface WellDataRecording {
+  recordedAt: string;
+  pads: Array<{
+    element: MappedElement;
+    hierarchy?: HierarchyAncestor[];
+    wells: Array<{
+      element: MappedElement;
+      attributes: RecordedAttribute[];
+    }>;
+  }>;
+  warnings: LoadTruncationWarning[];
+}
+
+// Value the dashboards show for data-source origin ('pi-af', 'simulated', 'recorded')
+export function getDataSourceLabel(source: WellDataSource): string {
+  return source.kind === 'server' || source.kind === 'browser' ? 'pi-af' : source.kind;
+}
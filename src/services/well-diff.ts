@@ -0,0 +1,100 @@
+// WellPad diffing shared by the SSE stream (server) and the dashboard (browser)
+
+import { WellData, WellPadData, WellPadDiff } from '@/types/pi-system';
+
+// Timestamps change every cycle; they are only sent alongside a real value change
+const TIMESTAMP_KEYS = ['lastUpdated', 'lastUpdate'];
+
+// Compare top-level fields, treating nested objects (attributes, statusReasons) by value.
+// Fields that became undefined are returned in `removed`, since JSON would drop them from `changes`.
+function diffFields<T extends object>(previous: T, next: T, ignoredKeys: string[]): { changes: Partial<T>; removed: string[] } {
+  const changes: Partial<T> = {};
+  const removed: string[] = [];
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]) as Set<keyof T>;
+
+  keys.forEach(key => {
+    if (ignoredKeys.includes(key as string)) return;
+    if (JSON.stringify(previous[key]) === JSON.stringify(next[key])) return;
+    if (next[key] === undefined) {
+      removed.push(key as string);
+    } else {
+      changes[key] = next[key];
+    }
+  });
+
+  if (Object.keys(changes).length > 0 || removed.length > 0) {
+    TIMESTAMP_KEYS.forEach(key => {
+      if (key in next) {
+        changes[key as keyof T] = next[key as keyof T];
+      }
+    });
+  }
+
+  return { changes, removed };
+}
+
+// Copy with the changes applied and the removed fields deleted
+function applyFieldChanges<T extends object>(current: T, changes: Partial<T>, removed: string[] = []): T {
+  const updated = { ...current, ...changes };
+  removed.forEach(key => delete updated[key as keyof T]);
+  return updated;
+}
+
+// Wellpads and wells must match by id and order for a diff to be applicable
+function hasSameStructure(previous: WellPadData[], next: WellPadData[]): boolean {
+  if (previous.length !== next.length) return false;
+
+  return previous.every((pad, i) =>
+    pad.id === next[i].id &&
+    pad.wells.length === next[i].wells.length &&
+    pad.wells.every((well, j) => well.id === next[i].wells[j].id)
+  );
+}
+
+// Returns null when wellpads or wells were added/removed and a full snapshot is needed
+export function diffWellPads(previous: WellPadData[], next: WellPadData[]): WellPadDiff[] | null {
+  if (!hasSameStructure(previous, next)) {
+    return null;
+  }
+
+  const diffs: WellPadDiff[] = [];
+
+  next.forEach((pad, i) => {
+    const { wells: previousWells, ...previousPad } = previous[i];
+    const { wells: nextWells, ...nextPad } = pad;
+
+    const wellDiffs = nextWells
+      .map((well, j) => ({ id: well.id, ...diffFields<WellData>(previousWells[j], well, [...TIMESTAMP_KEYS, 'id']) }))
+      .filter(wellDiff => Object.keys(wellDiff.changes).length > 0 || wellDiff.removed.length > 0)
+      .map(({ id, changes, removed }) => (removed.length > 0 ? { id, changes, removed } : { id, changes }));
+
+    const { changes: padChanges, removed: padRemoved } = diffFields(previousPad, nextPad, [...TIMESTAMP_KEYS, 'id']);
+
+    if (wellDiffs.length > 0 || Object.keys(padChanges).length > 0 || padRemoved.length > 0) {
+      diffs.push({ id: pad.id, changes: padChanges, ...(padRemoved.length > 0 ? { removed: padRemoved } : {}), wells: wellDiffs });
+    }
+  });
+
+  return diffs;
+}
+
+// Apply diffs to the current wellpads without mutating them
+export function applyWellPadDiffs(wellPads: WellPadData[], diffs: WellPadDiff[]): WellPadData[] {
+  if (diffs.length === 0) return wellPads;
+
+  const diffsById = new Map(diffs.map(diff => [diff.id, diff]));
+
+  return wellPads.map(pad => {
+    const diff = diffsById.get(pad.id);
+    if (!diff) return pad;
+
+    const wellDiffsById = new Map(diff.wells.map(wellDiff => [wellDiff.id, wellDiff]));
+    return {
+      ...applyFieldChanges<WellPadData>(pad, diff.changes, diff.removed),
+      wells: pad.wells.map(well => {
+        const wellDiff = wellDiffsById.get(well.id);
+        return wellDiff ? applyFieldChanges(well, wellDiff.changes, wellDiff.removed) : well;
+      })
+    };
+  });
+}
@@ -0,0 +1,507 @@
+// Well Mapping Core
+// Turns AF attribute values into WellData and rolls wells up into WellPadData.
+// Every data source (PI Web API, simulated, recorded) goes through these functions.
+
+import { WellData, WellPadData, AttributeMapping, AlarmRule, AttributeValueInfo, MissingAttributeReport, CalculatedAttribute, TemplateMapping, TypedAttributeValue, OperatingState, HierarchyAncestor, DEFAULT_ROLLUP_POLICIES } from '@/types/pi-system';
+import { AlarmRuleState, evaluateAlarmRules, calculatePlanDeviation } from './alarm-rules';
+import { applyCalculatedAttributes } from './calculated-attributes';
+import { rollUpPadStatus } from './pad-rollup';
+
+// Minimal element shape the mapping needs; AF elements and simulated pads/wells both fit
+export interface MappedElement {
+  Name: string;
+  Path?: string;
+  TemplateName?: string;
+  HasChildren?: boolean;
+  WebId?: string;
+}
+
+export interface MappedAttribute {
+  Name: string;
+  // Full AF path; child attributes read "<element path>|Parent|Child"
+  Path?: string;
+  WebId?: string;
+  DefaultUnitsNameAbbreviation?: string;
+  CategoryNames?: string[];
+}
+
+// One alternative of a mapping entry
+export interface AttributeSelector {
+  kind: 'name' | 'path' | 'category';
+  value: string;
+  // Entry text of this alternative, reported as the rule that matched
+  rule: string;
+}
+
+// Attribute found for a mapping entry and the alternative that found it
+export interface AttributeMatch {
+  attribute: MappedAttribute;
+  rule: string;
+}
+
+// Prefix of category selectors in mapping entries
+const CATEGORY_PREFIX = 'category:';
+
+// Value container returned by streamsets/value, attribute value links and channels
+export interface AFValueContainer {
+  Value?: unknown;
+  Timestamp?: string;
+  UnitsAbbreviation?: string;
+  Good?: boolean;
+  Questionable?: boolean;
+  Substituted?: boolean;
+  Annotated?: boolean;
+  Errors?: unknown[];
+}
+
+export interface WellMappingOptions {
+  attributeMapping: AttributeMapping;
+  // Per-template overrides of attributeMapping, matched on the element's TemplateName
+  templateMappings?: TemplateMapping[];
+  alarmRules: AlarmRule[];
+  // Deadband and delay-on state of the consumer loading these wells; without it each load is judged alone
+  alarmState?: AlarmRuleState;
+  // Evaluated after the mapped values, before alarm rules
+  calculatedAttributes?: CalculatedAttribute[];
+  // Bad-quality values become unavailable; defaults to on. Missing values are always unavailable.
+  strict?: boolean;
+}
+
+// Mapped attributes that are copied onto WellData as typed properties when present
+const OPTIONAL_WELL_FIELDS: Array<keyof AttributeMapping & keyof WellData> = [
+  'tubingPressure', 'casingPressure', 'temperature', 'flowlinePressure', 'chokeSize',
+  'gasLiftRate', 'pumpSpeed', 'motorAmps', 'vibration', 'runtime', 'shutinTime',
+  'wellheadPressure', 'bottomholePressure', 'flowRate', 'planTarget'
+];
+
+// Well id used across loads, alarms and channel targets
+export function getWellId(element: MappedElement): string {
+  return element.WebId || `well-${element.Name}`;
+}
+
+// Keys whose values are states rather than measurements; text values count as usable only for these
+export const STATE_ATTRIBUTE_KEYS = ['runStatus', 'wellMode'];
+
+// ISO date-times, as PI Web API returns DateTime attribute values
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// Words in state names that mark each operating state, checked worst first so "Not Running" reads shut in
+const OPERATING_STATE_WORDS: Array<[OperatingState, Set<string>]> = [
+  ['down', new Set(['down', 'trip', 'tripped', 'fault', 'faulted', 'fail', 'failed', 'failure'])],
+  ['shutIn', new Set(['stop', 'stopped', 'off', 'offline', 'shut', 'shutin', 'closed', 'idle', 'not'])],
+  ['producing', new Set(['run', 'running', 'on', 'online', 'started', 'producing', 'flowing', 'open'])]
+];
+
+export const OPERATING_STATES: OperatingState[] = ['producing', 'shutIn', 'down', 'unknown'];
+
+// Labels used on tiles, wellpad headers and reports
+export const OPERATING_STATE_LABELS: { [state in OperatingState]: string } = {
+  producing: 'Producing',
+  shutIn: 'Shut in',
+  down: 'Down',
+  unknown: 'Unknown'
+};
+
+/**
+ * Typed value of a PI value container. Enumeration objects become digital states (system states such as
+ * "No Data" are flagged), booleans stay booleans and text is a number only when all of it parses.
+ */
+export function getTypedValue(valueContainer: AFValueContainer | undefined): TypedAttributeValue | null {
+  const value = valueContainer?.Value;
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'object') {
+    const state = value as { Name?: unknown; Value?: unknown; IsSystem?: boolean };
+    if (typeof state.Name !== 'string') return null;
+    return {
+      kind: 'digital',
+      value: state.Name,
+      code: typeof state.Value === 'number' ? state.Value : undefined,
+      ...(state.IsSystem ? { isSystem: true } : {})
+    };
+  }
+
+  if (typeof value === 'number') {
+    return isNaN(value) ? null : { kind: 'numeric', value };
+  }
+
+  if (typeof value === 'boolean') {
+    return { kind: 'boolean', value };
+  }
+
+  if (typeof value === 'string' && value.trim() !== '') {
+    const text = value.trim();
+    if (TIMESTAMP_PATTERN.test(text) && !isNaN(Date.parse(text))) {
+      return { kind: 'timestamp', value: text };
+    }
+    const parsed = Number(text);
+    return isNaN(parsed) ? { kind: 'string', value: text } : { kind: 'numeric', value: parsed };
+  }
+
+  return null;
+}
+
+// Number a typed value puts in attributes: digital states their code, booleans 1/0; system states and text none
+export function getTypedNumber(typedValue: TypedAttributeValue | null | undefined): number | null {
+  switch (typedValue?.kind) {
+    case 'numeric':
+      return typedValue.value;
+    case 'digital':
+      return typedValue.isSystem || typedValue.code === undefined ? null : typedValue.code;
+    case 'boolean':
+      return typedValue.value ? 1 : 0;
+    default:
+      return null;
+  }
+}
+
+// Numeric value of a PI value container, as read by getTypedValue
+export function getNumericValue(valueContainer: AFValueContainer | undefined, attributeName: string): number | null {
+  if (!valueContainer) {
+    return null;
+  }
+
+  if (valueContainer.Errors && valueContainer.Errors.length > 0) {
+    console.warn(`⚠️ Attribute "${attributeName}" returned errors:`, valueContainer.Errors.join('; '));
+  }
+
+  if (valueContainer.Good === false) {
+    console.warn(`⚠️ Attribute "${attributeName}" has a bad quality value`);
+  }
+
+  return getTypedNumber(getTypedValue(valueContainer));
+}
+
+/**
+ * Value a mapping key keeps as a state: digital states and booleans on any key, text and timestamps on state keys.
+ * System digital states are no value at all.
+ */
+export function getStateValue(settingsKey: string, typedValue: TypedAttributeValue | null | undefined): TypedAttributeValue | undefined {
+  if (!typedValue || typedValue.kind === 'numeric') return undefined;
+  if (typedValue.kind === 'digital') return typedValue.isSystem ? undefined : typedValue;
+  if (typedValue.kind === 'boolean' || STATE_ATTRIBUTE_KEYS.includes(settingsKey)) return typedValue;
+  return undefined;
+}
+
+/**
+ * Operating state a digital state, boolean or text value names; values that name none (e.g. "Manual") return null
+ */
+export function getStateOperatingState(typedValue: TypedAttributeValue | undefined): OperatingState | null {
+  if (typedValue?.kind === 'boolean') {
+    return typedValue.value ? 'producing' : 'shutIn';
+  }
+  const stateName = typedValue?.kind === 'string' || (typedValue?.kind === 'digital' && !typedValue.isSystem) ? typedValue.value : '';
+  const words = stateName.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+  const match = OPERATING_STATE_WORDS.find(([, stateWords]) => words.some(word => stateWords.has(word)));
+  return match ? match[0] : null;
+}
+
+/**
+ * Operating state of a well: the worst state its run status or well mode names, otherwise its rates.
+ * States decide over rates, which lag a trip; wells with neither read unknown.
+ */
+export function getOperatingState(
+  values: { [settingsKey: string]: number },
+  states: { [settingsKey: string]: TypedAttributeValue } = {}
+): OperatingState {
+  const named = STATE_ATTRIBUTE_KEYS.map(settingsKey => getStateOperatingState(states[settingsKey]));
+  const worst = OPERATING_STATE_WORDS.find(([state]) => named.includes(state));
+  if (worst) return worst[0];
+
+  const rates = ['oilRate', 'liquidRate'].map(settingsKey => values[settingsKey]).filter(rate => rate !== undefined);
+  if (rates.length === 0) return 'unknown';
+  return rates.some(rate => rate > 0) ? 'producing' : 'shutIn';
+}
+
+// Quality, source timestamp and units of a PI value; units fall back to the attribute's default UOM
+export function getValueInfo(valueContainer: AFValueContainer, attribute?: MappedAttribute): AttributeValueInfo {
+  const hasErrors = (valueContainer.Errors?.length || 0) > 0;
+  return {
+    quality: valueContainer.Good === false || hasErrors ? 'bad' :
+             valueContainer.Questionable ? 'questionable' :
+             valueContainer.Substituted ? 'substituted' : 'good',
+    timestamp: valueContainer.Timestamp,
+    units: valueContainer.UnitsAbbreviation || attribute?.DefaultUnitsNameAbbreviation
+  };
+}
+
+// Whether a value's PI timestamp is older than the staleness threshold; 0 minutes disables the check
+export function isValueStale(info: AttributeValueInfo | undefined, staleValueMinutes: number, now: number = Date.now()): boolean {
+  if (!info?.timestamp || staleValueMinutes <= 0) return false;
+  const timestamp = new Date(info.timestamp).getTime();
+  return !isNaN(timestamp) && now - timestamp > staleValueMinutes * 60 * 1000;
+}
+
+// Template names of a comma-separated template filter
+export function parseTemplateNames(templateName: string | undefined): string[] {
+  return (templateName || '').split(',').map(name => name.trim()).filter(Boolean);
+}
+
+// Template mapping for an element's template, matched case-insensitively like the template filter
+export function getTemplateMapping(templateMappings: TemplateMapping[] | undefined, templateName: string | undefined): TemplateMapping | undefined {
+  if (!templateName || !templateMappings) return undefined;
+  const name = templateName.toLowerCase();
+  return templateMappings.find(templateMapping => templateMapping.templateName.trim().toLowerCase() === name);
+}
+
+/**
+ * Attribute mapping for an element: its template's overrides on top of the global mapping
+ */
+export function resolveAttributeMapping(options: Pick<WellMappingOptions, 'attributeMapping' | 'templateMappings'>, templateName?: string): AttributeMapping {
+  const templateMapping = getTemplateMapping(options.templateMappings, templateName);
+  if (!templateMapping) return options.attributeMapping;
+
+  const resolved = { ...options.attributeMapping };
+  Object.entries(templateMapping.attributeMapping).forEach(([settingsKey, piAfAttributeName]) => {
+    if (piAfAttributeName !== undefined) {
+      resolved[settingsKey as keyof AttributeMapping] = piAfAttributeName;
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Alternatives of a mapping entry in the order they are tried. Entries separate alternatives with ';'
+ * and each is an attribute name, a path below the element ("ESP|Frequency") or "category:<AF category>".
+ */
+export function parseAttributeSelectors(entry: string | undefined): AttributeSelector[] {
+  return (entry || '').split(';').map(part => part.trim()).filter(Boolean).map(rule => {
+    if (rule.toLowerCase().startsWith(CATEGORY_PREFIX)) {
+      return { kind: 'category' as const, value: rule.slice(CATEGORY_PREFIX.length).trim(), rule };
+    }
+    return { kind: rule.includes('|') ? 'path' as const : 'name' as const, value: rule.replace(/^\|/, ''), rule };
+  }).filter(selector => selector.value !== '');
+}
+
+// Path of an attribute below its element, e.g. "ESP|Frequency"; the name for top-level attributes
+export function getRelativeAttributePath(attribute: MappedAttribute): string {
+  const separator = attribute.Path?.indexOf('|') ?? -1;
+  return separator >= 0 ? attribute.Path!.slice(separator + 1) : attribute.Name;
+}
+
+// Whether any entry names a child attribute; only then does the loader walk the full attribute hierarchy
+export function mappingUsesAttributePaths(options: Pick<WellMappingOptions, 'attributeMapping' | 'templateMappings'>): boolean {
+  const entries = [
+    ...Object.values(options.attributeMapping),
+    ...(options.templateMappings || []).flatMap(templateMapping => Object.values(templateMapping.attributeMapping))
+  ];
+  return entries.some(entry => parseAttributeSelectors(entry).some(selector => selector.kind === 'path'));
+}
+
+// Whether one alternative selects the attribute; AF names and categories are case-insensitive
+function matchesSelector(selector: AttributeSelector, attribute: MappedAttribute): boolean {
+  const value = selector.value.toLowerCase();
+  switch (selector.kind) {
+    case 'category':
+      return (attribute.CategoryNames || []).some(category => category.toLowerCase() === value);
+    default:
+      return getRelativeAttributePath(attribute).toLowerCase() === value;
+  }
+}
+
+/**
+ * First attribute matched by a mapping entry; later alternatives are only tried when earlier ones find nothing
+ */
+export function findMappedAttribute(entry: string | undefined, attributes: MappedAttribute[]): AttributeMatch | undefined {
+  for (const selector of parseAttributeSelectors(entry)) {
+    const attribute = attributes.find(attr => matchesSelector(selector, attr));
+    if (attribute) {
+      return { attribute, rule: selector.rule };
+    }
+  }
+  return undefined;
+}
+
+// WebIds of the attributes matched by each well's resolved mapping; other attributes are not read
+export function getMappedAttributeWebIds(
+  wellElements: MappedElement[],
+  attributesByWell: { [wellWebId: string]: MappedAttribute[] },
+  options: Pick<WellMappingOptions, 'attributeMapping' | 'templateMappings'>
+): string[] {
+  const webIds = new Set<string>();
+  wellElements.forEach(wellElement => {
+    const attributes = attributesByWell[wellElement.WebId || ''] || [];
+    Object.values(resolveAttributeMapping(options, wellElement.TemplateName)).forEach(entry => {
+      const match = findMappedAttribute(entry, attributes);
+      if (match?.attribute.WebId) {
+        webIds.add(match.attribute.WebId);
+      }
+    });
+  });
+  return Array.from(webIds);
+}
+
+// Map an element's attributes to well data using values read in bulk (keyed by attribute WebId)
+export function mapAttributesToWellData(
+  element: MappedElement,
+  attributes: MappedAttribute[],
+  values: Map<string, AFValueContainer>,
+  options: WellMappingOptions,
+  wellPadName?: string
+): WellData | null {
+  try {
+    const attributeMapping = resolveAttributeMapping(options, element.TemplateName);
+    const mappedValues: { [settingsKey: string]: number } = {};
+    const attributeInfo: { [settingsKey: string]: AttributeValueInfo } = {};
+    const states: { [settingsKey: string]: TypedAttributeValue } = {};
+    const unavailableAttributes: string[] = [];
+
+    for (const settingsKey in attributeMapping) {
+      const piAfAttributeName = attributeMapping[settingsKey as keyof AttributeMapping];
+      if (!piAfAttributeName) continue;
+
+      const attribute = findMappedAttribute(piAfAttributeName, attributes)?.attribute;
+      if (!attribute) {
+        console.log(`     ❌ PI Attr Definition "${piAfAttributeName}" NOT FOUND among attributes on element "${element.Name}".`);
+      }
+
+      const valueContainer = attribute?.WebId ? values.get(attribute.WebId) : undefined;
+      const info = valueContainer ? getValueInfo(valueContainer, attribute) : undefined;
+      const numericValue = getNumericValue(valueContainer, piAfAttributeName);
+      const state = getStateValue(settingsKey, getTypedValue(valueContainer));
+      if (info) {
+        attributeInfo[settingsKey] = info;
+      }
+
+      if ((numericValue === null && !state) || (options.strict !== false && info?.quality === 'bad')) {
+        unavailableAttributes.push(settingsKey);
+        continue;
+      }
+      if (numericValue !== null) {
+        mappedValues[settingsKey] = numericValue;
+      }
+      if (state) {
+        states[settingsKey] = state;
+      }
+    }
+
+    return buildWellData(element, mappedValues, options, wellPadName, attributeInfo, unavailableAttributes, states);
+
+  } catch (error) {
+    console.error(`❌ Failed to map attributes for element "${element.Name}":`, error);
+    return null;
+  }
+}
+
+// Derive well status and computed values from mapped attribute values; unavailable attributes are absent from values
+export function buildWellData(
+  element: MappedElement,
+  values: { [settingsKey: string]: number },
+  options: WellMappingOptions,
+  wellPadName?: string,
+  attributeInfo?: { [settingsKey: string]: AttributeValueInfo },
+  unavailableAttributes: string[] = [],
+  states: { [settingsKey: string]: TypedAttributeValue } = {}
+): WellData {
+  const oilRate = values['oilRate'] ?? 0;
+  const liquidRate = values['liquidRate'] ?? 0;
+  const waterCut = values['waterCut'] ?? 0;
+  const planDeviation = values['oilRate'] !== undefined ? calculatePlanDeviation(oilRate, values['planTarget']) : undefined;
+  const calculated = applyCalculatedAttributes(options.calculatedAttributes, { ...values, planDeviation }, attributeInfo);
+  const allUnavailable = [...unavailableAttributes, ...calculated.unavailable];
+  const allInfo = attributeInfo || options.calculatedAttributes?.length ? { ...attributeInfo, ...calculated.attributeInfo } : undefined;
+
+  const { status: health, reasons } = evaluateAlarmRules(
+    { ...values, ...calculated.values, planDeviation },
+    { wellId: element.WebId || element.Name, wellPadName, templateName: element.TemplateName },
+    options.alarmRules,
+    Date.now(),
+    options.alarmState
+  );
+
+  const operatingState = getOperatingState(values, states);
+
+  const optionalFields: Partial<WellData> = {};
+  OPTIONAL_WELL_FIELDS.forEach(field => {
+    if (values[field] !== undefined) {
+      optionalFields[field] = values[field];
+    }
+  });
+
+  return {
+    id: getWellId(element),
+    name: element.Name,
+    wellPadName,
+    templateName: element.TemplateName,
+    operatingState,
+    health,
+    status: health !== 'good' ? health : operatingState === 'producing' ? 'active' : 'inactive',
+    statusReasons: reasons,
+    planDeviation,
+    lastUpdated: getNewestTimestamp(attributeInfo) || new Date().toISOString(),
+    attributes: { ...values, ...calculated.values }, // Keyed by attribute mapping setting or calculated key, as the tiles expect
+    attributeInfo: allInfo,
+    unavailableAttributes: allUnavailable.length > 0 ? allUnavailable : undefined,
+    states: Object.keys(states).length > 0 ? states : undefined,
+    ...optionalFields,
+    oilRate,
+    gasRate: values['gasRate'] ?? 0,
+    waterCut,
+    liquidRate,
+    waterRate: liquidRate * (waterCut / 100),
+    espFrequency: values['espFrequency'] ?? 0
+  };
+}
+
+// Newest PI timestamp among the attribute values, as an ISO string
+function getNewestTimestamp(attributeInfo?: { [settingsKey: string]: AttributeValueInfo }): string | null {
+  const timestamps = Object.values(attributeInfo || {})
+    .map(info => info.timestamp ? new Date(info.timestamp).getTime() : NaN)
+    .filter(timestamp => !isNaN(timestamp));
+  return timestamps.length > 0 ? new Date(Math.max(...timestamps)).toISOString() : null;
+}
+
+// Whether a mapped attribute has a usable value on this well
+export function hasValue(well: WellData, settingsKey: string): boolean {
+  return !well.unavailableAttributes?.includes(settingsKey);
+}
+
+// Mean of the values, 0 when there are none
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Roll well values up into the wellpad summary; unavailable values are left out of totals and averages.
+// Status is worst-of until the configured roll-up policies are applied.
+export function buildWellPadData(wellpadElement: MappedElement, index: number, wells: WellData[], hierarchy?: HierarchyAncestor[]): WellPadData {
+  const { status, rollup } = rollUpPadStatus(wells, DEFAULT_ROLLUP_POLICIES[0]);
+  const withOilRate = wells.filter(w => hasValue(w, 'oilRate'));
+  const withWaterRate = wells.filter(w => hasValue(w, 'liquidRate') && hasValue(w, 'waterCut'));
+  const withGasRate = wells.filter(w => hasValue(w, 'gasRate'));
+
+  return {
+    id: wellpadElement.WebId || `wellpad-${index}`,
+    name: wellpadElement.Name,
+    location: wellpadElement.Path || 'Unknown',
+    templateName: wellpadElement.TemplateName,
+    hierarchy: hierarchy?.length ? hierarchy : undefined,
+    wells: wells,
+    totalOilRate: withOilRate.reduce((sum, w) => sum + w.oilRate, 0),
+    totalGasRate: withGasRate.reduce((sum, w) => sum + (w.gasRate || 0), 0),
+    totalWaterRate: withWaterRate.reduce((sum, w) => sum + (w.waterRate || 0), 0),
+    averagePressure: average(wells.filter(w => w.tubingPressure !== undefined).map(w => w.tubingPressure || 0)),
+    lastUpdated: new Date().toISOString(),
+    status,
+    statusRollup: rollup,
+    totalWells: wells.length,
+    activeWells: wells.filter(w => w.operatingState === 'producing').length,
+    operatingStateCounts: Object.fromEntries(OPERATING_STATES.map(state => [state, wells.filter(w => w.operatingState === state).length])) as WellPadData['operatingStateCounts'],
+    avgOilRate: average(withOilRate.map(w => w.oilRate)),
+    avgWaterCut: average(wells.filter(w => hasValue(w, 'waterCut')).map(w => w.waterCut)),
+    wellsWithMissingData: wells.filter(w => (w.unavailableAttributes?.length || 0) > 0).length
+  };
+}
+
+// Wells with unavailable mapped attributes, for API responses
+export function getMissingAttributeReport(wellPads: WellPadData[]): MissingAttributeReport[] {
+  return wellPads.flatMap(pad => pad.wells
+    .filter(well => (well.unavailableAttributes?.length || 0) > 0)
+    .map(well => ({
+      wellId: well.id,
+      wellName: well.name,
+      wellPadName: well.wellPadName || pad.name,
+      attributes: well.unavailableAttributes || []
+    })));
+}
@@ -0,0 +1,134 @@
+// Well Stream Hub
+// One server-side polling loop shared by every dashboard connected to /api/pi-system/stream
+
+import { WellPadData, WellStreamMessage, LoadTruncationWarning, DEFAULT_REFRESH_SETTINGS } from '@/types/pi-system';
+import { configManager } from './config-manager';
+import { alarmJournal } from './alarm-journal';
+import { downtimeTracker } from './downtime-tracker';
+import { diffWellPads } from './well-diff';
+import { applyRollupPolicies } from './pad-rollup';
+import { createServerDataSource } from './server-data-source';
+import { getDataSourceLabel } from './well-data-source';
+import { AlarmRuleState } from './alarm-rules';
+
+type StreamListener = (message: WellStreamMessage) => void;
+
+export class WellStreamHub {
+  private listeners = new Set<StreamListener>();
+  private snapshot: WellPadData[] | null = null;
+  private source = 'unknown';
+  private warnings: LoadTruncationWarning[] = [];
+  // lastUpdated of the configuration the snapshot was loaded with
+  private configUpdated: string | null = null;
+  // Deadband and delay-on of the stream's own samples; the data source is created again every cycle
+  private alarmState = new AlarmRuleState();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+
+  /**
+   * Register a dashboard connection; starts the polling loop for the first one.
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: StreamListener): () => void {
+    this.listeners.add(listener);
+    console.log(`📡 Stream client connected (${this.listeners.size} connected)`);
+
+    if (this.snapshot) {
+      listener({ type: 'snapshot', data: this.snapshot, source: this.source, timestamp: new Date().toISOString(), warnings: this.warnings });
+    }
+
+    if (this.listeners.size === 1) {
+      this.poll();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      console.log(`📡 Stream client disconnected (${this.listeners.size} connected)`);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Number of connected dashboards
+   */
+  getConnectionCount(): number {
+    return this.listeners.size;
+  }
+
+  // Stop polling once the last dashboard disconnects; the next subscriber gets a fresh snapshot
+  private stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.snapshot = null;
+    this.alarmState.reset();
+  }
+
+  private broadcast(message: WellStreamMessage): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error('❌ Stream listener failed:', error);
+      }
+    });
+  }
+
+  // Load once, push a snapshot or diff to every listener, then schedule the next cycle
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    const timestamp = () => new Date().toISOString();
+
+    try {
+      const configUpdated = this.configUpdated;
+      const next = await this.loadWellPads();
+      // A saved configuration can change the source, wells and warnings, so it gets a fresh snapshot
+      const diffs = this.snapshot && this.configUpdated === configUpdated ? diffWellPads(this.snapshot, next) : null;
+
+      if (diffs) {
+        console.log(`📡 Stream cycle: ${diffs.length} wellpads changed`);
+        this.broadcast({ type: 'diff', data: diffs, source: this.source, timestamp: timestamp() });
+      } else {
+        console.log(`📡 Stream cycle: sending snapshot of ${next.length} wellpads`);
+        this.broadcast({ type: 'snapshot', data: next, source: this.source, timestamp: timestamp(), warnings: this.warnings });
+      }
+
+      this.snapshot = next;
+      const wells = next.flatMap(pad => pad.wells);
+      alarmJournal.recordWellStates(wells);
+      downtimeTracker.recordWellStates(wells, new Date(), true);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('❌ Stream cycle failed:', errorMessage);
+      this.broadcast({ type: 'error', error: errorMessage, timestamp: timestamp() });
+    } finally {
+      this.polling = false;
+    }
+
+    if (this.listeners.size > 0) {
+      const { intervalSeconds } = configManager.getRefreshSettings();
+      const delaySeconds = intervalSeconds > 0 ? intervalSeconds : DEFAULT_REFRESH_SETTINGS.intervalSeconds;
+      this.timer = setTimeout(() => this.poll(), delaySeconds * 1000);
+    }
+  }
+
+  // Read the current configuration every cycle; configManager re-reads pi-config.json once it is saved,
+  // so mode, mapping, alarm rule and roll-up policy changes apply without a restart
+  private async loadWellPads(): Promise<WellPadData[]> {
+    const config = configManager.getConfig();
+    this.configUpdated = config.lastUpdated;
+    const dataSource = createServerDataSource(config, this.snapshot, this.alarmState);
+    const wellPads = await dataSource.loadWellPadData();
+    this.source = getDataSourceLabel(dataSource);
+    this.warnings = dataSource.getLoadWarnings();
+    return applyRollupPolicies(wellPads, config.rollupPolicies, alarmJournal.getShelvedWellIds(), downtimeTracker.getLastRates());
+  }
+}
+
+// Export singleton instance
+export const wellStreamHub = new WellStreamHub();
@@ -5,9 +5,95 @@ export interface PIServerConfig {
   piWebApiServerName: string; // Separate field for PI Web API server
   afDatabaseName: string;
   parentElementPath: string;
+  // One or more AF template names, comma separated; empty loads every child element
   templateName: string;
   username?: string;
   password?: string;
+  // Load limits; 0 loads every wellpad/well found
+  maxWellPads?: number;
+  maxWellsPerPad?: number;
+  // Minutes to reuse resolved AF structure between loads; 0 walks AF on every load
+  structureCacheMinutes?: number;
+  // Treat bad-quality PI values as unavailable instead of showing them (default on)
+  strictAttributeValues?: boolean;
+  // Field/area levels above the wellpads; off keeps wellpads directly under the parent element
+  hierarchy?: HierarchySettings;
+}
+
+// Which AF templates mark each level of a Field > Area > Pad > Well model.
+// Template lists are comma separated like templateName, which stays the well filter.
+export interface HierarchySettings {
+  enabled: boolean;
+  fieldTemplates: string;
+  areaTemplates: string;
+  // Empty treats every element that is not a field, area or well as a wellpad
+  padTemplates: string;
+  // Element levels walked below the parent element, wells included
+  maxDepth: number;
+}
+
+export const DEFAULT_HIERARCHY_SETTINGS: HierarchySettings = {
+  enabled: false,
+  fieldTemplates: '',
+  areaTemplates: '',
+  padTemplates: '',
+  maxDepth: 4
+};
+
+// Levels grouping wellpads
+export type HierarchyLevel = 'field' | 'area';
+
+// Field or area element above a wellpad, outermost first
+export interface HierarchyAncestor {
+  id: string;
+  name: string;
+  level: HierarchyLevel;
+}
+
+// Sums over every wellpad below a hierarchy node
+export interface HierarchyTotals {
+  wellPads: number;
+  wells: number;
+  producingWells: number;
+  alertWells: number;
+  warningWells: number;
+  // Worst status of the wellpads below
+  status: WellHealth;
+}
+
+export interface HierarchyNode {
+  id: string;
+  name: string;
+  level: HierarchyLevel;
+  children: HierarchyNode[];
+  // Wellpads directly in this node, in load order
+  wellPadIds: string[];
+  totals: HierarchyTotals;
+}
+
+// Nested field/area model over the loaded wellpads
+export interface AssetHierarchy {
+  nodes: HierarchyNode[];
+  // Wellpads with no field or area above them
+  wellPadIds: string[];
+  totals: HierarchyTotals;
+}
+
+// Element collections are paged, so the default is to load everything
+export const DEFAULT_LOAD_LIMITS = {
+  maxWellPads: 0,
+  maxWellsPerPad: 0
+};
+
+export const DEFAULT_STRUCTURE_CACHE_MINUTES = 60;
+
+// Reported when the configured load limits leave wellpads or wells out
+export interface LoadTruncationWarning {
+  scope: 'wellpads' | 'wells';
+  wellPadName?: string;
+  found: number;
+  loaded: number;
+  message: string;
 }
 
 export interface PIAttribute {
@@ -26,12 +112,51 @@ export interface PIElement {
   children?: PIElement[];
 }
 
+// PI value quality flags collapsed to one state; 'bad' covers Good=false and value errors
+export type AttributeQuality = 'good' | 'questionable' | 'substituted' | 'bad';
+
+// Quality, PI source timestamp and units of one mapped attribute value
+export interface AttributeValueInfo {
+  quality: AttributeQuality;
+  timestamp?: string;
+  units?: string;
+}
+
+// Kinds of PI value a mapped attribute can carry
+export type AttributeValueKind = 'numeric' | 'digital' | 'boolean' | 'string' | 'timestamp';
+
+// PI value read by its kind; digital states keep the state name and its enumeration code
+export type TypedAttributeValue =
+  | { kind: 'numeric'; value: number }
+  | { kind: 'digital'; value: string; code?: number; isSystem?: boolean }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'string'; value: string }
+  | { kind: 'timestamp'; value: string };
+
+// What a well is doing, apart from its alarms: down is an unplanned stop (trip, fault), shut in a deliberate one
+export type OperatingState = 'producing' | 'shutIn' | 'down' | 'unknown';
+
+// Result of the alarm rules for a well, and the worst of its wells for a wellpad
+export type WellHealth = 'good' | 'warning' | 'alert';
+
 export interface WellData {
   id: string;
   name: string;
+  operatingState: OperatingState;
+  health: WellHealth;
+  // Health when it is not good, otherwise active while producing; kept for existing API consumers
   status: 'active' | 'inactive' | 'alert' | 'warning' | 'good';
   wellPadName?: string;
+  // AF template of the well element, when the source has one
+  templateName?: string;
   attributes: { [key: string]: number | string };
+  // Keyed like attributes; missing for sources without PI value metadata
+  attributeInfo?: { [key: string]: AttributeValueInfo };
+  // Mapped attributes without a usable value; their numeric fields read 0 and are left out of totals and averages
+  unavailableAttributes?: string[];
+  // Digital state, boolean, text and timestamp values, keyed like attributes; digital states and booleans also keep a code in attributes
+  states?: { [key: string]: TypedAttributeValue };
+  // Newest PI timestamp among the mapped attribute values, or load time when none is known
   lastUpdated: string;
   // Production data properties
   oilRate: number;
@@ -55,6 +180,9 @@ export interface WellData {
   flowRate?: number;
   flowlinePressure?: number;
   planTarget?: number;
+  planDeviation?: number;
+  // Alarm rules that produced the current health status
+  statusReasons?: StatusReason[];
 }
 
 export interface WellPadData {
@@ -67,11 +195,69 @@ export interface WellPadData {
   totalWaterRate: number;
   averagePressure: number;
   lastUpdated: string;
+  // AF template of the wellpad element, used to pick its roll-up policy
+  templateName?: string;
+  // Fields and areas above the wellpad when the hierarchy is enabled
+  hierarchy?: HierarchyAncestor[];
+  // Well health rolled up by the pad's roll-up policy
   status: 'active' | 'inactive' | 'alert' | 'warning' | 'good';
+  // Why the pad has its status
+  statusRollup?: PadStatusRollup;
   totalWells: number;
   avgOilRate: number;
   avgWaterCut: number;
+  // Producing wells
   activeWells?: number;
+  operatingStateCounts?: { [state in OperatingState]: number };
+  // Wells with at least one unavailable mapped attribute
+  wellsWithMissingData?: number;
+}
+
+// Wells whose mapped attributes had no usable value in the last load
+export interface MissingAttributeReport {
+  wellId: string;
+  wellName: string;
+  wellPadName?: string;
+  attributes: string[];
+}
+
+// Outcome of one mapping key on one well in the mapping coverage report
+export type CoverageStatus = 'present' | 'missing' | 'nonNumeric' | 'badQuality' | 'unmapped';
+
+export interface CoverageCell {
+  status: CoverageStatus;
+  // AF attribute found (path below the element), or the mapping entry when nothing matched
+  attributeName?: string;
+  // Alternative of the mapping entry that found the attribute, e.g. "category:Oil Rate"
+  matchedRule?: string;
+  // Why the value is not usable, e.g. the digital state or PI error text
+  detail?: string;
+}
+
+export interface WellMappingCoverage {
+  wellId: string;
+  wellName: string;
+  wellPadName?: string;
+  templateName?: string;
+  cells: { [settingsKey: string]: CoverageCell };
+}
+
+export interface MappingCoverageSummary {
+  settingsKey: string;
+  counts: { [status in CoverageStatus]: number };
+  // Wells per alternative of the mapping entry that found their attribute
+  ruleCounts: { [rule: string]: number };
+  // Share of wells with the key mapped that have a usable value
+  coveragePercent: number;
+}
+
+export interface MappingCoverageReport {
+  parentElementPath?: string;
+  keys: string[];
+  wells: WellMappingCoverage[];
+  summary: MappingCoverageSummary[];
+  warnings: LoadTruncationWarning[];
+  generatedAt: string;
 }
 
 // PI AF Connection Status
@@ -83,7 +269,8 @@ export interface PIConnectionStatus {
   error?: string;
 }
 
-// Configuration for attribute mapping
+// Configuration for attribute mapping. An entry is an attribute name, a path below the well element
+// ("ESP|Frequency") or "category:<AF category>"; alternatives separated by ';' are tried in order.
 export interface AttributeMapping {
   // Core production attributes
   oilRate: string;
@@ -107,6 +294,9 @@ export interface AttributeMapping {
   wellheadPressure?: string;
   bottomholePressure?: string;
   flowRate?: string;
+  // Digital state attributes, shown as state chips and used for the running state
+  runStatus?: string;
+  wellMode?: string;
 }
 
 export const DEFAULT_ATTRIBUTE_MAPPING: AttributeMapping = {
@@ -130,5 +320,425 @@ export const DEFAULT_ATTRIBUTE_MAPPING: AttributeMapping = {
   shutinTime: 'Shutin Time',
   wellheadPressure: 'Wellhead Pressure',
   bottomholePressure: 'Bottomhole Pressure',
-  flowRate: 'Flow Rate'
+  flowRate: 'Flow Rate',
+  runStatus: 'Pump Run Status',
+  wellMode: 'Well Mode'
+};
+
+// Mapping and tile layout for wells of one AF template
+export interface TemplateMapping {
+  templateName: string;
+  // Overrides of the global mapping; a key left out inherits it, an empty name leaves it unmapped
+  attributeMapping: Partial<AttributeMapping>;
+  // Keys shown on the well tile, in order; empty shows every value by the default priority
+  tileAttributes: string[];
+}
+
+// Attribute template of an AF element template, as read for mapping suggestions
+export interface AttributeTemplateInfo {
+  name: string;
+  type?: string;
+  units?: string;
+  categories: string[];
+}
+
+// Proposed AF attribute for one mapping key; confidence runs from 0 to 1
+export interface MappingSuggestion {
+  settingsKey: string;
+  attributeName: string | null;
+  confidence: number;
+  // What the match was based on, e.g. "name matches default", "units psi"
+  reasons: string[];
+  alternatives: Array<{ attributeName: string; confidence: number }>;
+}
+
+export interface MappingSuggestionResult {
+  templateName: string;
+  attributeTemplates: AttributeTemplateInfo[];
+  suggestions: MappingSuggestion[];
+}
+
+// Display unit system; each user picks one in the dashboard and it is kept in the browser
+export type UnitSystem = 'oilfield' | 'metric' | 'si';
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  // Display unit per attribute mapping key, overriding the system preset
+  overrides: { [settingsKey: string]: string };
+}
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  system: 'oilfield',
+  overrides: {}
+};
+
+// Historical trend data for a single well
+export type HistoryRange = '1h' | '24h' | '7d' | '30d';
+
+export type HistoryRetrievalMode = 'recorded' | 'interpolated';
+
+export interface HistoryPoint {
+  timestamp: string;
+  value: number;
+}
+
+export interface WellHistory {
+  wellId: string;
+  wellName?: string;
+  range: HistoryRange;
+  retrievalMode: HistoryRetrievalMode;
+  startTime: string;
+  endTime: string;
+  // Keyed by AttributeMapping key (oilRate, waterCut, ...)
+  series: { [key: string]: HistoryPoint[] };
+}
+
+// PI Web API time expressions for each selectable window
+export const HISTORY_RANGES: { [key in HistoryRange]: { label: string; startTime: string; interval: string } } = {
+  '1h': { label: 'Last hour', startTime: '*-1h', interval: '1m' },
+  '24h': { label: 'Last 24 hours', startTime: '*-24h', interval: '15m' },
+  '7d': { label: 'Last 7 days', startTime: '*-7d', interval: '1h' },
+  '30d': { label: 'Last 30 days', startTime: '*-30d', interval: '4h' }
+};
+
+// Production day used for daily volumes: 24h (23/25h across DST) starting at startHour local time
+export interface ProductionDaySettings {
+  startHour: number;
+  timeZone: string; // IANA zone name, e.g. 'America/Chicago'
+}
+
+export const DEFAULT_PRODUCTION_DAY_SETTINGS: ProductionDaySettings = {
+  startHour: 6,
+  timeZone: 'UTC'
 };
+
+// Daily volumes of one well; undefined when the rate attribute is unmapped or had no good data
+export interface DailyWellProduction {
+  wellId: string;
+  wellName: string;
+  wellPadName?: string;
+  oilVolume?: number;
+  liquidVolume?: number;
+  waterVolume?: number;
+  gasVolume?: number;
+  planVolume?: number;
+  // Oil volume as a percentage of plan volume
+  attainment?: number;
+  // Lowest share of the day with good data across the summarised attributes
+  percentGood?: number;
+}
+
+export interface DailyProductionTotals {
+  oilVolume: number;
+  liquidVolume: number;
+  waterVolume: number;
+  gasVolume: number;
+  planVolume: number;
+  attainment?: number;
+  wellCount: number;
+}
+
+export interface DailyPadProduction extends DailyProductionTotals {
+  wellPadId: string;
+  wellPadName: string;
+  wells: DailyWellProduction[];
+}
+
+export interface DailyProductionReport {
+  // Local calendar date the production day starts on (YYYY-MM-DD)
+  productionDate: string;
+  startTime: string;
+  endTime: string;
+  timeZone: string;
+  startHour: number;
+  // False while the production day is still in progress; volumes then cover start to now
+  complete: boolean;
+  // PI rate unit per attribute mapping key, so volumes can be labelled and converted
+  units: { [settingsKey: string]: string };
+  pads: DailyPadProduction[];
+  field: DailyProductionTotals;
+}
+
+// Morning report built from the same WellPadData the dashboard shows
+export type ReportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export interface MorningReportPadRow {
+  wellPadName: string;
+  totalWells: number;
+  producingWells: number;
+  shutInWells: number;
+  downWells: number;
+  totalOilRate: number;
+  totalWaterRate: number;
+  totalGasRate: number;
+  avgWaterCut: number;
+  alertWells: number;
+  warningWells: number;
+}
+
+// Rates are undefined when the attribute had no usable value
+export interface MorningReportWellRow {
+  wellPadName: string;
+  wellName: string;
+  health: WellHealth;
+  operatingState: OperatingState;
+  oilRate?: number;
+  liquidRate?: number;
+  gasRate?: number;
+  waterCut?: number;
+  planTarget?: number;
+  planDeviation?: number;
+  // Hours shut in, from the mapped shutinTime attribute
+  downtimeHours?: number;
+  statusMessages: string[];
+}
+
+export interface MorningReport {
+  title: string;
+  generatedAt: string;
+  source: string;
+  pads: MorningReportPadRow[];
+  wells: MorningReportWellRow[];
+  field: Omit<MorningReportPadRow, 'wellPadName'>;
+}
+
+// Daily write of the morning report into a local folder
+export interface ReportSchedule {
+  enabled: boolean;
+  // HH:MM in the production day time zone
+  time: string;
+  formats: ReportFormat[];
+  // Absolute, or relative to the project root
+  outputFolder: string;
+}
+
+export const DEFAULT_REPORT_SCHEDULE: ReportSchedule = {
+  enabled: false,
+  time: '07:00',
+  formats: ['pdf'],
+  outputFolder: 'reports'
+};
+
+// Calculated attribute evaluated in the mapping step, e.g. GOR = gasRate / oilRate
+export interface CalculatedAttribute {
+  // Key the value is stored under in WellData.attributes; usable in alarm rules and other expressions
+  key: string;
+  label: string;
+  // Arithmetic over AttributeMapping keys, planDeviation and other calculated keys
+  expression: string;
+  unit?: string;
+  decimals?: number;
+  enabled: boolean;
+}
+
+// Alarm rule configuration
+export type AlarmSeverity = 'warning' | 'alert';
+
+export type AlarmLimit = 'highHigh' | 'high' | 'low' | 'lowLow';
+
+export type AlarmRuleScope = 'global' | 'wellpad' | 'template';
+
+export interface AlarmRule {
+  id: string;
+  attribute: string; // AttributeMapping key, calculated attribute key or derived value such as planDeviation
+  scope: AlarmRuleScope;
+  scopeValue?: string; // Wellpad or template name when scope is not global
+  highHigh?: number;
+  high?: number;
+  low?: number;
+  lowLow?: number;
+  deadband?: number;
+  delayOnSeconds?: number;
+  enabled: boolean;
+}
+
+// Wellpad status roll-up configuration
+export type RollupMethod = 'worstOf' | 'percentage' | 'productionWeighted';
+
+export interface RollupPolicy {
+  id: string;
+  // Wellpad policies override template policies, which override the policy for all wellpads
+  scope: AlarmRuleScope;
+  scopeValue?: string; // Wellpad name, or template of the wellpad element
+  method: RollupMethod;
+  // Share of counted wells (percentage) or of their production baseline (productionWeighted) that raises the pad to alert or warning
+  alertPercent: number;
+  warningPercent: number;
+  // Wells whose active alarms are all shelved do not count
+  ignoreShelved: boolean;
+  enabled: boolean;
+}
+
+export const DEFAULT_ROLLUP_POLICIES: RollupPolicy[] = [
+  {
+    id: 'default-worst-of',
+    scope: 'global',
+    method: 'worstOf',
+    alertPercent: 0,
+    warningPercent: 0,
+    ignoreShelved: false,
+    enabled: true
+  }
+];
+
+// Roll-up result kept on the wellpad for the dashboard header
+export interface PadStatusRollup {
+  policyId: string;
+  method: RollupMethod;
+  explanation: string;
+  // Wells in alert or warning that counted, worst first
+  contributingWells: string[];
+  ignoredWells: number;
+}
+
+export interface StatusReason {
+  ruleId: string;
+  attribute: string;
+  limit: AlarmLimit;
+  severity: AlarmSeverity;
+  value: number;
+  threshold: number;
+  message: string;
+}
+
+export const DEFAULT_ALARM_RULES: AlarmRule[] = [
+  {
+    id: 'default-plan-deviation',
+    attribute: 'planDeviation',
+    scope: 'global',
+    highHigh: 15,
+    high: 10,
+    low: -10,
+    lowLow: -15,
+    deadband: 0,
+    delayOnSeconds: 0,
+    enabled: true
+  },
+  {
+    id: 'default-water-cut',
+    attribute: 'waterCut',
+    scope: 'global',
+    highHigh: 25,
+    high: 20,
+    deadband: 0,
+    delayOnSeconds: 0,
+    enabled: true
+  }
+];
+
+// Dashboard auto-refresh; an interval of 0 disables polling
+export interface RefreshSettings {
+  intervalSeconds: number;
+  // Data is flagged stale once the last successful load is older than this many intervals
+  staleAfterIntervals: number;
+  // Subscribe to PI Web API channels for push updates, polling only when channels are unavailable
+  useChannels: boolean;
+  // Attribute values whose PI timestamp is older than this many minutes are badged stale (0 = never)
+  staleValueMinutes: number;
+}
+
+export const DEFAULT_REFRESH_SETTINGS: RefreshSettings = {
+  intervalSeconds: 60,
+  staleAfterIntervals: 3,
+  useChannels: false,
+  staleValueMinutes: 15
+};
+
+// Alarm journal entries raised from well health transitions
+export type AlarmAction = 'acknowledge' | 'shelve' | 'unshelve';
+
+export interface AlarmComment {
+  action: AlarmAction;
+  author?: string;
+  text?: string;
+  timestamp: string;
+}
+
+export interface AlarmEvent {
+  id: string;
+  wellId: string;
+  wellName: string;
+  wellPadName?: string;
+  severity: AlarmSeverity;
+  ruleId?: string;
+  limit?: AlarmLimit;
+  attribute?: string;
+  value?: number;
+  threshold?: number;
+  message: string;
+  raisedAt: string;
+  clearedAt?: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  shelvedUntil?: string;
+  comments: AlarmComment[];
+}
+
+// Downtime events opened on shut-in and closed on restart
+export interface DowntimeReason {
+  code: string;
+  label: string;
+}
+
+export const DEFAULT_DOWNTIME_REASONS: DowntimeReason[] = [
+  { code: 'PLANNED', label: 'Planned maintenance' },
+  { code: 'ESP', label: 'ESP / pump failure' },
+  { code: 'WORKOVER', label: 'Workover / well intervention' },
+  { code: 'FACILITY', label: 'Facility or downstream constraint' },
+  { code: 'POWER', label: 'Power outage' },
+  { code: 'WEATHER', label: 'Weather' },
+  { code: 'OTHER', label: 'Other' }
+];
+
+export interface DowntimeEvent {
+  id: string;
+  wellId: string;
+  wellName: string;
+  wellPadName?: string;
+  startedAt: string;
+  endedAt?: string;
+  // 'missing' when the well left the loaded wells while down, so the restart was never seen
+  endedBy?: 'restart' | 'missing';
+  // Oil rate deferred while down: the plan target, else the last producing oil rate
+  baselineRate: number;
+  baselineSource: 'plan' | 'lastRate' | 'none';
+  // PI units of the baseline rate, when reported
+  baselineUnits?: string;
+  reasonCode?: string;
+  comment?: string;
+  assignedBy?: string;
+  assignedAt?: string;
+}
+
+// One bar of a deferment pareto, sorted largest first
+export interface DeferredProductionEntry {
+  key: string;
+  label: string;
+  deferredVolume: number;
+  downtimeHours: number;
+  eventCount: number;
+  cumulativePercent: number;
+}
+
+export interface DeferredProductionPareto {
+  since: string;
+  totalDeferredVolume: number;
+  // PI units of the baseline rates the volumes were computed from
+  units?: string;
+  byReason: DeferredProductionEntry[];
+  byPad: DeferredProductionEntry[];
+}
+
+// Changes pushed by the /api/pi-system/stream SSE route.
+// JSON drops undefined values, so fields that went away are listed in `removed` instead of `changes`.
+export interface WellPadDiff {
+  id: string;
+  changes: Partial<Omit<WellPadData, 'id' | 'wells'>>;
+  removed?: string[];
+  wells: Array<{ id: string; changes: Partial<WellData>; removed?: string[] }>;
+}
+
+export type WellStreamMessage =
+  | { type: 'snapshot'; data: WellPadData[]; source: string; timestamp: string; warnings?: LoadTruncationWarning[] }
+  | { type: 'diff'; data: WellPadDiff[]; source: string; timestamp: string }
+  | { type: 'error'; error: string; timestamp: string };